@@ -0,0 +1,8 @@
+import { UserPayload } from '../../server/types';
+
+export type AccountIdentity = Pick<UserPayload, 'username' | 'domain'>;
+
+// the key every per-account record (session, storage) is filed under
+export function accountKey(account: AccountIdentity): string {
+  return `${account.username}@${account.domain}`;
+}
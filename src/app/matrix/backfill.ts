@@ -0,0 +1,279 @@
+import * as MatrixSDK from 'matrix-js-sdk';
+import { EventEmitter } from 'events';
+import { BackfillState } from '../../server/types';
+import { loadBackfillState, loadBackfillStates, saveBackfillState } from '../../server/db/backfill';
+import { reconcileRedactions } from '../../server/db/redactions';
+import { sink } from '../../server/sinks';
+import { archivesRoom, configStore } from '../../server/config/store';
+import { DeadLetterQueue } from './dead-letters';
+import { EventRouter } from './events';
+
+// the cutoff and page size default to the backfill settings
+export interface BackfillOptions {
+  roomIds?: string[];
+  cutoffTs?: number;
+  pageSize?: number;
+  // use the cutoff recorded with each room's cursor instead of cutoffTs
+  resume?: boolean;
+}
+
+export interface BackfillProgress {
+  running: boolean;
+  startedAt: number | null;
+  // rooms in this run, including those not reached yet
+  roomCount: number;
+  rooms: BackfillState[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BackfillManager extends EventEmitter {
+  private client: MatrixSDK.MatrixClient;
+  private router: EventRouter;
+  private accountKey: string;
+  private deadLetters: DeadLetterQueue | null;
+  private rooms = new Map<string, BackfillState>();
+  private running: Promise<void> | null = null;
+  private cancelled = false;
+  private startedAt: number | null = null;
+  private roomCount = 0;
+
+  constructor(
+    client: MatrixSDK.MatrixClient,
+    router: EventRouter,
+    accountKey: string,
+    deadLetters: DeadLetterQueue | null = null
+  ) {
+    super();
+    this.client = client;
+    this.router = router;
+    this.accountKey = accountKey;
+    this.deadLetters = deadLetters;
+  }
+
+  public isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  public start(opts: BackfillOptions = {}): BackfillProgress {
+    if (this.running) {
+      throw new Error('Backfill already running');
+    }
+
+    if (!this.client.isInitialSyncComplete()) {
+      throw new Error('Initial sync has not completed yet');
+    }
+
+    const rooms = this.client
+      .getRooms()
+      .filter((room) => room.getMyMembership() === MatrixSDK.KnownMembership.Join)
+      .filter((room) => !opts.roomIds || opts.roomIds.includes(room.roomId))
+      .filter((room) => archivesRoom(room.roomId, room));
+
+    this.cancelled = false;
+    this.startedAt = Date.now();
+    this.roomCount = rooms.length;
+    this.rooms.clear();
+
+    const { maxAgeDays, pageSize } = configStore.get().backfill;
+    const resolved: BackfillOptions = {
+      ...opts,
+      cutoffTs: opts.cutoffTs ?? (maxAgeDays ? this.startedAt - maxAgeDays * DAY_MS : undefined),
+      pageSize: opts.pageSize ?? pageSize,
+    };
+
+    this.running = this.run(rooms, resolved).finally(() => {
+      this.running = null;
+      this.emit('finished', this.getProgress());
+    });
+
+    const progress = this.getProgress();
+    this.emit('started', progress);
+    return progress;
+  }
+
+  // picks up rooms whose backfill was still running when the process stopped
+  public async resumeInterrupted(): Promise<void> {
+    const interrupted = await loadBackfillStates({
+      accountKey: this.accountKey,
+      statuses: ['running'],
+    });
+    if (interrupted.length === 0) return;
+
+    await this.waitForInitialSync();
+
+    console.log(`Resuming backfill for ${interrupted.length} room(s).`);
+    this.start({ roomIds: interrupted.map((state) => state.roomId), resume: true });
+  }
+
+  public cancel(): boolean {
+    if (!this.running) return false;
+    this.cancelled = true;
+    return true;
+  }
+
+  public getProgress(): BackfillProgress {
+    return {
+      running: this.isRunning(),
+      startedAt: this.startedAt,
+      roomCount: this.roomCount,
+      rooms: Array.from(this.rooms.values()).map((state) => ({ ...state })),
+    };
+  }
+
+  private async run(rooms: MatrixSDK.Room[], opts: BackfillOptions): Promise<void> {
+    for (const room of rooms) {
+      if (this.cancelled) break;
+      await this.backfillRoom(room, opts);
+    }
+  }
+
+  private async backfillRoom(room: MatrixSDK.Room, opts: BackfillOptions): Promise<void> {
+    const stored = await loadBackfillState(this.accountKey, room.roomId);
+
+    if (stored?.status === 'completed') {
+      this.rooms.set(room.roomId, stored);
+      return;
+    }
+
+    const cutoffTs = opts.resume ? (stored?.cutoffTs ?? null) : (opts.cutoffTs ?? null);
+    const pageSize = opts.pageSize ?? configStore.get().backfill.pageSize;
+
+    // without a stored cursor, start right before the window delivered by the initial sync
+    const state: BackfillState = {
+      roomId: room.roomId,
+      paginationToken: stored
+        ? stored.paginationToken
+        : room.getLiveTimeline().getPaginationToken(MatrixSDK.Direction.Backward),
+      status: 'running',
+      eventsPersisted: stored?.eventsPersisted ?? 0,
+      oldestEventTs: stored?.oldestEventTs ?? null,
+      cutoffTs,
+      error: null,
+    };
+
+    this.rooms.set(room.roomId, state);
+
+    try {
+      await sink.persistRoom(room, room.getMyMembership());
+      await this.update(state);
+
+      const mapEvent = this.client.getEventMapper();
+
+      while (state.status === 'running') {
+        if (this.cancelled) {
+          state.status = 'cancelled';
+          await this.update(state);
+          break;
+        }
+
+        if (!state.paginationToken) {
+          state.status = 'completed';
+          await this.update(state);
+          break;
+        }
+
+        const response = await this.client.createMessagesRequest(
+          room.roomId,
+          state.paginationToken,
+          pageSize,
+          MatrixSDK.Direction.Backward
+        );
+
+        const events = response.chunk.map(mapEvent);
+        await Promise.all(events.map((event) => this.client.decryptEventIfNeeded(event)));
+
+        let pageOldestTs: number | null = null;
+        for (const event of events) {
+          pageOldestTs =
+            pageOldestTs === null ? event.getTs() : Math.min(pageOldestTs, event.getTs());
+        }
+
+        // dispatched together so the write buffer can store the page in a few batches
+        const handled = await Promise.all(
+          events
+            .filter((event) => cutoffTs === null || event.getTs() >= cutoffTs)
+            .map((event) => this.dispatch(room, event))
+        );
+        state.eventsPersisted += handled.filter(Boolean).length;
+
+        // paginating backwards delivers redactions before the events they target
+        await reconcileRedactions({
+          targetEventIds: events.map((event) => event.getId()!),
+        });
+
+        if (pageOldestTs !== null) {
+          state.oldestEventTs =
+            state.oldestEventTs === null
+              ? pageOldestTs
+              : Math.min(state.oldestEventTs, pageOldestTs);
+        }
+
+        const reachedCreate = events.some(
+          (event) => event.getType() === MatrixSDK.EventType.RoomCreate
+        );
+
+        if (reachedCreate || !response.end || response.chunk.length === 0) {
+          state.paginationToken = response.end ?? null;
+          state.status = 'completed';
+        } else if (cutoffTs !== null && pageOldestTs !== null && pageOldestTs < cutoffTs) {
+          // keep the cursor on this page so a later run with an earlier cutoff re-reads it
+          state.status = 'reached_cutoff';
+        } else {
+          state.paginationToken = response.end;
+        }
+
+        await this.update(state);
+      }
+    } catch (error: any) {
+      console.error(`Backfill failed for room ${room.roomId}:`, error);
+      state.status = 'failed';
+      state.error = error.message;
+      await this.update(state).catch((saveError) => {
+        console.error('Failed to record backfill failure:', saveError);
+      });
+    }
+  }
+
+  // a failed event is kept as a dead letter so the page can move on; the room fails only
+  // when there is no queue or the letter cannot be written, so its cursor stays on the page
+  private async dispatch(room: MatrixSDK.Room, event: MatrixSDK.MatrixEvent): Promise<boolean> {
+    try {
+      return await this.router.dispatch(event, {
+        roomId: room.roomId,
+        client: this.client,
+        source: 'backfill',
+      });
+    } catch (error) {
+      if (!this.deadLetters) throw error;
+
+      console.error(`Failed to backfill ${event.getType()} event ${event.getId()}:`, error);
+      await this.deadLetters.recordEvent(room.roomId, event, error);
+      return false;
+    }
+  }
+
+  private async update(state: BackfillState): Promise<void> {
+    await saveBackfillState(this.accountKey, state);
+    this.emit('progress', { ...state });
+  }
+
+  public waitForInitialSync(): Promise<void> {
+    if (this.client.isInitialSyncComplete()) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const onSync = (syncState: MatrixSDK.SyncState) => {
+        if (
+          syncState === MatrixSDK.SyncState.Prepared ||
+          syncState === MatrixSDK.SyncState.Syncing
+        ) {
+          this.client.off(MatrixSDK.ClientEvent.Sync, onSync);
+          resolve();
+        }
+      };
+      this.client.on(MatrixSDK.ClientEvent.Sync, onSync);
+    });
+  }
+}
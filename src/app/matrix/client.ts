@@ -5,32 +5,45 @@ import * as dotenv from 'dotenv';
 import { UserPayload } from '../../server/types';
 import {
   getExistingCredentials,
-  loadLatestSyncToken,
-  persistMessage,
-  persistParticipant,
-  persistParticipants,
-  persistRoom,
+  linkAccountRoom,
   setAuthCredentials,
   setKeyBackupStatus,
-  updateDeviceId,
-  updateSyncToken
-} from '../../server/utils/db.utils';
+  updateDeviceId
+} from '../../server/db/accounts';
+import { reconcileRedactions } from '../../server/db/redactions';
+import { sink } from '../../server/sinks';
+import { archivesRoom, configStore } from '../../server/config/store';
+import { PipelineSettings } from '../../server/config/schema';
+import { accountKey } from './accounts';
+import { BackfillManager } from './backfill';
 import { CryptoManager } from './crypto';
+import { DeadLetterQueue } from './dead-letters';
+import { eventRouter } from './events';
+import { MediaWorker } from './media';
+import { SyncProgressTracker, syncProgress } from './progress';
+import { NodeStorageManager } from './storage/node-manager';
+import { PostgresStore } from './storage/postgres-store';
+import { UtdQueue } from './utd';
 import { ISecretStorageKeyInfo } from 'matrix-js-sdk/lib/crypto/api';
 
 dotenv.config();
 
-const localStorage = window.localStorage;
-
-let indexedDB: IDBFactory;
-try {
-    indexedDB = window.indexedDB;
-} catch {}
-
-
 export class MatrixClient extends EventEmitter {
   private client: MatrixSDK.MatrixClient | null = null;
   private cryptoManager: CryptoManager | null = null;
+  private backfillManager: BackfillManager | null = null;
+  private utdQueue: UtdQueue | null = null;
+  private mediaWorker: MediaWorker | null = null;
+  private deadLetters: DeadLetterQueue | null = null;
+  private storage: NodeStorageManager;
+  private syncStore: PostgresStore | null = null;
+  private progress: SyncProgressTracker;
+  // timeline events still being persisted; the sync store waits for them before saving
+  private pendingEvents = new Set<Promise<void>>();
+  // events replayed from the saved sync were persisted before that sync was saved
+  private replayingSavedSync = false;
+  // rooms written by this session, so a room is stored before the first event or member in it
+  private storedRooms = new Map<string, Promise<void>>();
   private authConfig: UserPayload;
   private userId: string = '';
   private accessToken: string = '';
@@ -41,6 +54,8 @@ export class MatrixClient extends EventEmitter {
   constructor(authConfig: UserPayload) {
     super();
     this.authConfig = authConfig;
+    this.storage = new NodeStorageManager(accountKey(authConfig));
+    this.progress = syncProgress.get(accountKey(authConfig));
   }
 
   private onUnexpectedStoreClose = async (): Promise<void> => {
@@ -65,35 +80,76 @@ export class MatrixClient extends EventEmitter {
     }
 
     this.isInitializing = true;
+    this.progress.setPhase('initial_sync', 'Opening the account stores');
 
     try {
-      const dbName = `matrix-js-sdk:${this.authConfig.username}`;
+      await this.storage.open();
 
+      this.syncStore = this.storage.createSyncStore(() => this.drainPendingEvents());
       this.client = MatrixSDK.createClient({
         baseUrl: this.authConfig.domain,
         userId: `@${this.authConfig.username}:${this.authConfig.domain}`,
         deviceId: this.generateDeviceId(),
-        cryptoStore: new MatrixSDK.IndexedDBCryptoStore(indexedDB, dbName),
+        store: this.syncStore,
         cryptoCallbacks: {
           getSecretStorageKey: this.getSecretStorageKey
         }
       });
 
+      this.progress.followClient(this.client);
+
       if(!this.client.isLoggedIn()) {
+        this.progress.setProgress(10, 'Logging in');
         await this.login();
       }
 
+      this.progress.setProgress(20, 'Setting up encryption');
       await this.setupCrypto();
       await this.setupEventListeners();
 
+      this.utdQueue = new UtdQueue(this.client, eventRouter, accountKey(this.authConfig));
+      await this.utdQueue.start();
+
+      // created before the first sync so failed writes from it are captured
+      this.deadLetters = new DeadLetterQueue(this.client, eventRouter, accountKey(this.authConfig));
+
       if(!this.client.clientRunning) {
-        await this.client.startClient({initialSyncLimit: 50, lazyLoadMembers: true})
-        await this.initialFetch();
+        // an account's sync store is empty until its first sync, whatever other accounts have synced
+        const firstSync = await this.client.store.isNewlyCreated();
+        this.replayingSavedSync = !!(await this.client.store.getSavedSyncToken());
+        if (this.replayingSavedSync) {
+          this.progress.setPhase('catch_up', 'Resuming from the saved sync');
+        } else {
+          this.progress.setProgress(40, 'Running the initial sync');
+        }
+        await this.client.startClient({
+          initialSyncLimit: configStore.get().sync.initialSyncLimit,
+          lazyLoadMembers: true,
+        })
+        if (firstSync) {
+          await this.initialFetch();
+        }
       }
 
+      this.mediaWorker = new MediaWorker(this.client, accountKey(this.authConfig));
+      await this.mediaWorker.start();
+
+      await this.deadLetters.start();
+
+      this.backfillManager = new BackfillManager(
+        this.client,
+        eventRouter,
+        accountKey(this.authConfig),
+        this.deadLetters
+      );
+      this.progress.followBackfill(this.backfillManager);
+      this.backfillManager.resumeInterrupted().catch((error) => {
+        console.error('Failed to resume backfill:', error);
+      });
+
       const syncToken = await this.client.store.getSavedSyncToken();
 
-      await updateSyncToken(syncToken ?? "");
+      await sink.updateSyncToken(accountKey(this.authConfig), syncToken ?? "");
 
       this.isInitialized = true;
       console.log('Matrix client fully initialized.');
@@ -101,7 +157,12 @@ export class MatrixClient extends EventEmitter {
       return {token: this.accessToken};
     } catch (error: any) {
       console.error('Failed to initialize Matrix client:', error);
+      configStore.off('change', this.onConfigChange);
+      this.client?.stopClient();
       this.client = null;
+      this.syncStore = null;
+      await this.storage.close();
+      this.progress.setPhase('failed', 'Failed to start sync', { error: error.message });
       throw error;
     } finally {
       this.isInitializing = false;
@@ -152,6 +213,9 @@ export class MatrixClient extends EventEmitter {
     const existingCredentials = await getExistingCredentials(this.userId);
 
     if (existingCredentials) {
+      this.storageKey = existingCredentials.storage_key
+        ? new Uint8Array(existingCredentials.storage_key)
+        : null;
       this.client.deviceId = existingCredentials.device_id;
       this.client.setAccessToken(existingCredentials.access_token);
       this.client.credentials = { userId: this.userId };
@@ -166,27 +230,17 @@ export class MatrixClient extends EventEmitter {
       throw new Error('Client not created');
     }
 
-    for (const dbType of ["indexeddb", "memory"]) {
-      try {
-        const promise = this.client.store.startup();
-        console.log("MatrixClient: waiting for MatrixClient store to initialise");
-        await promise;
-        break;
-      } catch (err) {
-        if (dbType === "indexeddb") {
-          console.error("Error starting matrixclient store - falling back to memory store", err);
-          this.client.store = new MatrixSDK.MemoryStore({
-            localStorage: localStorage,
-          });
-        } else {
-          console.error("Failed to start memory store!", err);
-          throw err;
-        }
-      }
-    }
+    console.log("MatrixClient: waiting for MatrixClient store to initialise");
+    await this.client.store.startup();
 
     this.client.store.on?.("closed", this.onUnexpectedStoreClose);
 
+    const consistency = await this.storage.checkConsistency(!!this.storageKey);
+    if (!consistency.healthy) {
+      // starting anyway would create new device keys that the homeserver rejects for this device
+      throw new Error('Storage consistency checks failed, log out to start with a new device');
+    }
+
     this.cryptoManager = new CryptoManager(this.client);
 
     const cryptoStatus = await this.cryptoManager.isCryptoReady();
@@ -199,8 +253,11 @@ export class MatrixClient extends EventEmitter {
           storageKey: this.storageKey,
           setupCrossSigning: true,
           setupSecretStorage: true,
-          authConfig: this.authConfig
+          authConfig: this.authConfig,
+          withCryptoStore: (open) => this.storage.withCryptoStore(open)
         });
+        this.storage.setCryptoInitialised(true);
+        await this.storage.flush();
       } catch (error) {
         console.error('Failed to initialize crypto:', error);
         throw error;
@@ -249,6 +306,9 @@ export class MatrixClient extends EventEmitter {
       throw new Error('Crypto manager not initialized');
     }
     await this.cryptoManager.importKeys(keys);
+
+    const sessionIds: string[] = JSON.parse(keys.roomKeys).map((key: any) => key.session_id);
+    await this.utdQueue?.retry(sessionIds);
   }
 
   private async setupEventListeners(): Promise<void> {
@@ -261,9 +321,20 @@ export class MatrixClient extends EventEmitter {
         try {
           await this.client?.joinRoom(room.roomId);
           console.log("Auto-joined %s", room.roomId);
-          await persistRoom(room, membership);
         } catch (error) {
           console.error("Error auto-joining room:", error);
+          return;
+        }
+
+        if (!archivesRoom(room.roomId, room)) return;
+
+        try {
+          await linkAccountRoom(accountKey(this.authConfig), room.roomId);
+          await sink.persistRoom(room, membership);
+        } catch (error) {
+          await this.deadLetters?.recordRoom(room, membership, error).catch((recordError) => {
+            console.error(`Failed to record room ${room.roomId}:`, recordError);
+          });
         }
       }
     });
@@ -273,14 +344,117 @@ export class MatrixClient extends EventEmitter {
         return; // don't retrieve paginated results
       }
 
-      if (event.getType() === "m.room.message") {
-        await persistMessage(room?.roomId, event);
+      if (this.replayingSavedSync) {
+        return;
+      }
+
+      const roomId = room?.roomId ?? event.getRoomId();
+      if (!roomId) return;
+      const eventRoom = room ?? this.client?.getRoom(roomId);
+      if (!archivesRoom(roomId, eventRoom)) return;
+
+      this.progress.count('eventsReceived');
+
+      const persisting = (async () => {
+        try {
+          if (eventRoom) await this.storeRoom(eventRoom);
+          await this.client?.decryptEventIfNeeded(event);
+          if (await eventRouter.dispatch(event, { roomId, client: this.client!, source: 'timeline' })) {
+            this.progress.count('eventsPersisted');
+          }
+        } catch (error) {
+          this.progress.count('eventsFailed');
+          console.error(`Failed to persist ${event.getType()} event ${event.getId()}:`, error);
+          await this.deadLetters?.recordEvent(roomId, event, error).catch((recordError) => {
+            console.error(`Failed to record event ${event.getId()}:`, recordError);
+          });
+        }
+      })();
+
+      this.pendingEvents.add(persisting);
+      await persisting;
+      this.pendingEvents.delete(persisting);
+    });
+
+    // the saved sync is processed before the first live sync and ends with the first sync state
+    this.client.once(MatrixSDK.ClientEvent.Sync, () => {
+      this.replayingSavedSync = false;
+    });
+
+    this.client.once(MatrixSDK.ClientEvent.Sync, async () => {
+      try {
+        await reconcileRedactions({ accountKey: accountKey(this.authConfig) });
+      } catch (error) {
+        console.error('Failed to reconcile redactions:', error);
+      }
+
+      // keys may have arrived while the process was down
+      try {
+        await this.utdQueue?.retry();
+      } catch (error) {
+        console.error('Failed to retry undecryptable events:', error);
       }
     });
 
     this.client.on(MatrixSDK.RoomStateEvent.Members, async  (_event, _state, member: MatrixSDK.RoomMember) => {
-      await persistParticipant(member)
+      const room = this.client?.getRoom(member.roomId);
+      if (!archivesRoom(member.roomId, room)) return;
+
+      try {
+        if (room) await this.storeRoom(room);
+        await sink.persistParticipant(member)
+      } catch (error) {
+        console.error(`Failed to persist member ${member.userId} of ${member.roomId}:`, error);
+        // replaying stores the room's current members, which include this one
+        if (!room) return;
+        await this.deadLetters?.recordParticipants(room, error).catch((recordError) => {
+          console.error(`Failed to record participants of ${member.roomId}:`, recordError);
+        });
+      }
     });
+
+    configStore.on('change', this.onConfigChange);
+  }
+
+  // rooms the new rules archive and the old ones did not are stored right away, their events as they arrive
+  private onConfigChange = async (settings: PipelineSettings, previous: PipelineSettings) => {
+    const client = this.client;
+    if (!client || JSON.stringify(settings.rooms) === JSON.stringify(previous.rooms)) return;
+
+    const rooms = client
+      .getRooms()
+      .filter((room) => room.getMyMembership() === MatrixSDK.KnownMembership.Join)
+      .filter((room) => archivesRoom(room.roomId, room, settings.rooms))
+      .filter((room) => !archivesRoom(room.roomId, room, previous.rooms));
+
+    for (const room of rooms) {
+      try {
+        await this.storeRoom(room);
+        await sink.persistParticipants(room);
+      } catch (error) {
+        await this.deadLetters?.recordRoom(room, room.getMyMembership(), error).catch((recordError) => {
+          console.error(`Failed to record room ${room.roomId}:`, recordError);
+        });
+      }
+    }
+  };
+
+  // once per room and session; a failed write is retried with the next event in the room.
+  // The room is linked to the account first, so its changes reach the account's streams
+  private storeRoom(room: MatrixSDK.Room): Promise<void> {
+    let stored = this.storedRooms.get(room.roomId);
+    if (!stored) {
+      stored = linkAccountRoom(accountKey(this.authConfig), room.roomId).then(() =>
+        sink.persistRoom(room, room.getMyMembership())
+      );
+      this.storedRooms.set(room.roomId, stored);
+      stored.catch(() => this.storedRooms.delete(room.roomId));
+    }
+    return stored;
+  }
+
+  private async drainPendingEvents(): Promise<void> {
+    await Promise.allSettled([...this.pendingEvents]);
   }
 
   public async getUserProfile(userId: string) {
@@ -301,18 +475,52 @@ export class MatrixClient extends EventEmitter {
     }
   }
 
+  // stores every room of a new device with its members, once the first sync has delivered them
   public async initialFetch(): Promise<void> {
-    const latestToken = await loadLatestSyncToken();
+    await this.waitForFirstSync();
 
-    if (!latestToken) {
-      for (const room of this.client!.getRooms()) {
-        await persistRoom(room, "");
+    const rooms = this.client!.getRooms().filter((room) => archivesRoom(room.roomId, room));
+    for (const [index, room] of rooms.entries()) {
+      this.progress.setProgress(
+        40 + (index / rooms.length) * 60,
+        `Storing room ${index + 1} of ${rooms.length}`
+      );
+
+      try {
+        await this.storeRoom(room);
+      } catch (error) {
+        await this.deadLetters?.recordRoom(room, room.getMyMembership(), error);
+      }
 
-        await persistParticipants(room);
+      try {
+        await sink.persistParticipants(room);
+      } catch (error) {
+        await this.deadLetters?.recordParticipants(room, error);
       }
     }
   }
 
+  // startClient() returns before the first sync; a start whose first sync fails is failed too
+  private waitForFirstSync(): Promise<void> {
+    const client = this.client!;
+    if (client.isInitialSyncComplete()) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onSync = (state: MatrixSDK.SyncState, _prev: unknown, data?: MatrixSDK.SyncStateData) => {
+        if (state === MatrixSDK.SyncState.Prepared || state === MatrixSDK.SyncState.Syncing) {
+          client.off(MatrixSDK.ClientEvent.Sync, onSync);
+          resolve();
+        } else if (state === MatrixSDK.SyncState.Error) {
+          client.off(MatrixSDK.ClientEvent.Sync, onSync);
+          reject(data?.error ?? new Error('Initial sync failed'));
+        }
+      };
+      client.on(MatrixSDK.ClientEvent.Sync, onSync);
+    });
+  }
+
   public generateDeviceId(): string {
     return Array.from(
       { length: 10 },
@@ -329,22 +537,88 @@ export class MatrixClient extends EventEmitter {
       const syncToken = await this.client.store.getSavedSyncToken();
 
       await this.client.logout();
-      this.client.stopClient();
+      await this.teardown();
 
-      // reset crypto-related state
-      this.cryptoManager = null;
+      // the sync and crypto stores belong to the device that was just logged out
+      await this.client.store.deleteAllData();
+      await this.storage.destroy();
 
-      await updateSyncToken(syncToken ?? "");
+      await sink.updateSyncToken(accountKey(this.authConfig), syncToken ?? "");
 
       console.log('Successfully logged out and stopped crypto backend.');
     } catch (error: any) {
       console.error('Failed to logout:', error);
       throw new Error(`Logout failed: ${error.message}`);
     } finally {
+      this.client = null;
+      this.syncStore = null;
       this.isInitialized = false;
     }
   }
 
+  // stops syncing but keeps the device and its credentials, so initialize() can resume it
+  public async stop(): Promise<void> {
+    if (!this.client) {
+      return;
+    }
+
+    try {
+      const syncToken = await this.client.store.getSavedSyncToken();
+      await this.teardown();
+      await this.client.store.save(true);
+      await this.storage.close();
+      await sink.updateSyncToken(accountKey(this.authConfig), syncToken ?? "");
+    } finally {
+      this.client = null;
+      this.syncStore = null;
+      this.isInitialized = false;
+    }
+  }
+
+  // the session, crypto store and workers stay up, only new sync requests are held back
+  public pauseSync(): void {
+    if (!this.syncStore) {
+      throw new Error('Client not created');
+    }
+    this.syncStore.pause();
+    this.progress.setPaused(true);
+  }
+
+  public resumeSync(): void {
+    this.syncStore?.resume();
+    this.progress.setPaused(false);
+  }
+
+  private async teardown(): Promise<void> {
+    configStore.off('change', this.onConfigChange);
+    // a paused sync loop waits on the store, it has to be let go to notice that it stopped
+    this.syncStore?.resume();
+    this.client?.stopClient();
+    this.storedRooms.clear();
+
+    this.backfillManager?.cancel();
+    this.backfillManager = null;
+
+    this.utdQueue?.stop();
+    this.utdQueue = null;
+
+    await this.mediaWorker?.stop();
+    this.mediaWorker = null;
+
+    await this.deadLetters?.stop();
+    this.deadLetters = null;
+
+    // reset crypto-related state
+    this.cryptoManager = null;
+
+    this.progress.setPaused(false);
+    this.progress.setPhase('stopped', 'Sync stopped');
+  }
+
+  public isRunning(): boolean {
+    return this.isInitialized && !!this.client?.clientRunning;
+  }
+
   async generateStorageKey(): Promise<Uint8Array> {
     try {
       const key = await crypto.subtle.generateKey(
@@ -396,6 +670,18 @@ export class MatrixClient extends EventEmitter {
     return [keyId, derivedKey.rawKey];
   };
 
+  public getBackfillManager(): BackfillManager | null {
+    return this.backfillManager;
+  }
+
+  public getUtdQueue(): UtdQueue | null {
+    return this.utdQueue;
+  }
+
+  public getDeadLetterQueue(): DeadLetterQueue | null {
+    return this.deadLetters;
+  }
+
   public getClient(): MatrixSDK.MatrixClient | null {
     return this.client;
   }
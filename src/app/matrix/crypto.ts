@@ -63,6 +63,8 @@ export class CryptoManager {
     setupCrossSigning?: boolean;
     setupSecretStorage?: boolean;
     authConfig?: UserPayload;
+    // opens the crypto store; the server swaps in the account's IndexedDB while it does
+    withCryptoStore?: <T>(open: () => Promise<T>) => Promise<T>;
   }): Promise<CryptoSetupStatus> {
     if (!this.client) {
       throw new Error('createClient must be called first');
@@ -74,9 +76,12 @@ export class CryptoManager {
       await this.client.getCrypto()?.resetKeyBackup();
     }
 
-    await this.client.initRustCrypto({
-      storageKey: opts?.storageKey,
-    });
+    const initRustCrypto = () =>
+      this.client.initRustCrypto({
+        storageKey: opts?.storageKey,
+      });
+
+    await (opts?.withCryptoStore ? opts.withCryptoStore(initRustCrypto) : initRustCrypto());
 
     const crypto = this.client.getCrypto();
     if (!crypto) {
@@ -0,0 +1,176 @@
+import * as MatrixSDK from 'matrix-js-sdk';
+import { DeadLetter, DeadLetterInput } from '../../server/types';
+import { linkAccountRoom } from '../../server/db/accounts';
+import {
+  claimDeadLetter,
+  claimDeadLetters,
+  markDeadLetterFailed,
+  markDeadLetterResolved,
+  recordDeadLetter,
+  resetInterruptedDeadLetters,
+} from '../../server/db/dead-letters';
+import { sink } from '../../server/sinks';
+import { EventRouter, targetTableFor } from './events';
+
+export interface DeadLetterQueueOptions {
+  pollIntervalMs?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Keeps writes that failed from being lost: the event or room is stored in
+ * `dead_letters` and replayed with exponential backoff until it succeeds or
+ * runs out of attempts, after which it waits for an operator to replay or
+ * discard it.
+ */
+export class DeadLetterQueue {
+  private client: MatrixSDK.MatrixClient;
+  private router: EventRouter;
+  private accountKey: string;
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private maxAttempts: number;
+  private timer: NodeJS.Timeout | null = null;
+  private active: Promise<void> | null = null;
+
+  constructor(
+    client: MatrixSDK.MatrixClient,
+    router: EventRouter,
+    accountKey: string,
+    opts: DeadLetterQueueOptions = {}
+  ) {
+    this.client = client;
+    this.router = router;
+    this.accountKey = accountKey;
+    this.pollIntervalMs = opts.pollIntervalMs ?? 30_000;
+    this.batchSize = opts.batchSize ?? 20;
+    this.maxAttempts = opts.maxAttempts ?? 8;
+  }
+
+  public async start(): Promise<void> {
+    if (this.timer) return;
+
+    await resetInterruptedDeadLetters(this.accountKey);
+    this.timer = setInterval(() => this.tick(), this.pollIntervalMs);
+  }
+
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.active;
+  }
+
+  // the wire event is kept, so encrypted events are decrypted again on replay
+  public async recordEvent(
+    roomId: string,
+    event: MatrixSDK.MatrixEvent,
+    error: any
+  ): Promise<void> {
+    await this.record({
+      kind: 'event',
+      targetTable: targetTableFor(event),
+      sourceId: event.getId()!,
+      roomId,
+      payload: event.event,
+      error: error?.message ?? String(error),
+    });
+  }
+
+  public async recordRoom(room: MatrixSDK.Room, membership: string, error: any): Promise<void> {
+    await this.record({
+      kind: 'room',
+      targetTable: 'rooms',
+      sourceId: room.roomId,
+      roomId: room.roomId,
+      payload: { membership },
+      error: error?.message ?? String(error),
+    });
+  }
+
+  public async recordParticipants(room: MatrixSDK.Room, error: any): Promise<void> {
+    await this.record({
+      kind: 'participants',
+      targetTable: 'participants',
+      sourceId: room.roomId,
+      roomId: room.roomId,
+      payload: {},
+      error: error?.message ?? String(error),
+    });
+  }
+
+  // replays one letter now, regardless of its backoff; null if it is not pending or failed
+  public async replay(id: string): Promise<DeadLetter | null> {
+    const letter = await claimDeadLetter(id, this.accountKey);
+    return letter ? this.process(letter) : null;
+  }
+
+  private async record(letter: Omit<DeadLetterInput, 'accountKey'>): Promise<void> {
+    const recorded = await recordDeadLetter({ ...letter, accountKey: this.accountKey });
+    console.error(
+      `Recorded dead letter ${recorded.id} for ${letter.targetTable} ${letter.sourceId}: ${letter.error}`
+    );
+  }
+
+  private tick(): void {
+    if (this.active) return;
+
+    this.active = this.processBatch()
+      .catch((error) => console.error('Dead letter replay failed:', error))
+      .finally(() => {
+        this.active = null;
+      });
+  }
+
+  private async processBatch(): Promise<void> {
+    const batch = await claimDeadLetters(this.accountKey, this.batchSize);
+
+    for (const letter of batch) {
+      if (!this.timer) break;
+      await this.process(letter);
+    }
+  }
+
+  private async process(letter: DeadLetter): Promise<DeadLetter | null> {
+    try {
+      await this.apply(letter);
+      return await markDeadLetterResolved(letter.id);
+    } catch (error: any) {
+      console.error(`Failed to replay dead letter ${letter.id}:`, error);
+      return markDeadLetterFailed(letter.id, error.message, this.maxAttempts);
+    }
+  }
+
+  private async apply(letter: DeadLetter): Promise<void> {
+    if (letter.kind === 'event') {
+      const event = this.client.getEventMapper({ decrypt: false })(
+        letter.payload as Partial<MatrixSDK.IEvent>
+      );
+      await this.client.decryptEventIfNeeded(event, { emit: false });
+
+      const handled = await this.router.dispatch(event, {
+        roomId: letter.roomId ?? event.getRoomId()!,
+        client: this.client,
+        source: 'replay',
+      });
+      if (!handled) {
+        throw new Error(`No handler is registered for ${event.getType()}`);
+      }
+      return;
+    }
+
+    const room = letter.roomId ? this.client.getRoom(letter.roomId) : null;
+    if (!room) {
+      throw new Error(`Room ${letter.roomId} is not known to the client`);
+    }
+
+    if (letter.kind === 'room') {
+      await linkAccountRoom(this.accountKey, room.roomId);
+      await sink.persistRoom(room, letter.payload.membership ?? room.getMyMembership());
+    } else {
+      await sink.persistParticipants(room);
+    }
+  }
+}
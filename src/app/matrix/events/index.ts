@@ -0,0 +1,72 @@
+import * as MatrixSDK from 'matrix-js-sdk';
+import { persistRawEvent, persistReaction, persistStateEvent } from '../../../server/db/messages';
+import { updateRoomNetwork } from '../../../server/db/rooms';
+import { BRIDGE_STATE_EVENT_TYPES, isBridgeUser } from '../../../server/utils/bridge.utils';
+import { sink } from '../../../server/sinks';
+import { EventHandler, EventRouter } from './router';
+
+export * from './router';
+
+export function createEventRouter(): EventRouter {
+  const router = new EventRouter();
+
+  const message: EventHandler = (event, { roomId }) => sink.persistMessage(roomId, event);
+
+  router.register('m.room.message', (event, context) =>
+    event.getRelation()?.rel_type === MatrixSDK.RelationType.Replace
+      ? sink.persistMessageEdit(context.roomId, event)
+      : message(event, context)
+  );
+  router.register('m.sticker', message);
+  // still encrypted after a decryption attempt, keep the ciphertext and the error
+  router.register('m.room.encrypted', message);
+
+  router.register('m.reaction', (event, { roomId }) => persistReaction(roomId, event));
+  router.register('m.room.redaction', (event, { roomId }) => sink.persistRedaction(roomId, event));
+  router.register(
+    (event) => event.isState(),
+    (event, { roomId }) => persistStateEvent(roomId, event)
+  );
+
+  // bridge state and bridge bot/puppet membership change how the room is classified
+  const bridgeState: EventHandler = async (event, { roomId, client }) => {
+    await persistStateEvent(roomId, event);
+
+    const room = client?.getRoom(roomId);
+    if (room && (event.getType() !== 'm.room.member' || isBridgeUser(event.getStateKey() ?? ''))) {
+      await updateRoomNetwork(room);
+    }
+  };
+
+  for (const type of BRIDGE_STATE_EVENT_TYPES) {
+    router.register(type, bridgeState);
+  }
+  router.register('m.room.member', bridgeState);
+
+  // polls, calls and bridge-specific types end up as raw events until someone registers a handler
+  router.setFallback((event, { roomId }) => persistRawEvent(roomId, event));
+
+  return router;
+}
+
+// the table the default handlers write an event to, recorded with writes that failed
+export function targetTableFor(event: MatrixSDK.MatrixEvent): string {
+  switch (event.getType()) {
+    case 'm.room.message':
+      return event.getRelation()?.rel_type === MatrixSDK.RelationType.Replace
+        ? 'message_versions'
+        : 'messages';
+    case 'm.sticker':
+    case 'm.room.encrypted':
+      return 'messages';
+    case 'm.reaction':
+      return 'reactions';
+    case 'm.room.redaction':
+      return 'redactions';
+    default:
+      return event.isState() ? 'state_events' : 'raw_events';
+  }
+}
+
+// shared router used by the sync loop and backfill; register custom handlers here
+export const eventRouter = createEventRouter();
@@ -0,0 +1,101 @@
+import type { MatrixEvent } from 'matrix-js-sdk';
+import { EventContext, EventHandler, EventRouter } from './router';
+
+const event = (type: string, opts: { stateKey?: string } = {}) =>
+  ({
+    getType: () => type,
+    isState: () => opts.stateKey !== undefined,
+  }) as unknown as MatrixEvent;
+
+const context: EventContext = { roomId: '!room:example.org', source: 'timeline' };
+
+const handler = () =>
+  jest.fn<ReturnType<EventHandler>, Parameters<EventHandler>>(async () => undefined);
+
+describe('EventRouter', () => {
+  it('prefers exact types over prefixes and prefixes over predicates', () => {
+    const router = new EventRouter();
+    const exact = handler();
+    const prefix = handler();
+    const predicate = handler();
+
+    router.register((e) => e.getType().startsWith('m.call'), predicate);
+    router.register('m.call.*', prefix);
+    router.register('m.call.invite', exact);
+
+    expect(router.resolve(event('m.call.invite'))).toBe(exact);
+    expect(router.resolve(event('m.call.hangup'))).toBe(prefix);
+    expect(router.resolve(event('m.callback'))).toBe(predicate);
+  });
+
+  it('matches the longest prefix first', () => {
+    const router = new EventRouter();
+    const short = handler();
+    const long = handler();
+
+    router.register('m.*', short);
+    router.register('m.call.*', long);
+
+    expect(router.resolve(event('m.call.answer'))).toBe(long);
+    expect(router.resolve(event('m.poll.start'))).toBe(short);
+  });
+
+  it('replaces an earlier registration for the same type', () => {
+    const router = new EventRouter();
+    const first = handler();
+    const second = handler();
+
+    router.register('m.reaction', first);
+    router.register('m.reaction', second);
+
+    expect(router.resolve(event('m.reaction'))).toBe(second);
+  });
+
+  it('unregisters a handler, but not one that replaced it', () => {
+    const router = new EventRouter();
+    const first = handler();
+    const second = handler();
+
+    const unregisterFirst = router.register('m.reaction', first);
+    router.register('m.reaction', second);
+    unregisterFirst();
+    expect(router.resolve(event('m.reaction'))).toBe(second);
+
+    const unregisterPrefix = router.register('m.call.*', first);
+    const unregisterPredicate = router.register((e) => e.isState(), second);
+    unregisterPrefix();
+    unregisterPredicate();
+    expect(router.resolve(event('m.call.invite'))).toBeNull();
+    expect(router.resolve(event('m.room.topic', { stateKey: '' }))).toBeNull();
+  });
+
+  it('falls back when nothing matches', () => {
+    const router = new EventRouter();
+    const fallback = handler();
+
+    expect(router.resolve(event('org.example.custom'))).toBeNull();
+    router.setFallback(fallback);
+    expect(router.resolve(event('org.example.custom'))).toBe(fallback);
+  });
+
+  it('dispatches to the resolved handler and reports whether there was one', async () => {
+    const router = new EventRouter();
+    const reaction = handler();
+    router.register('m.reaction', reaction);
+
+    const dispatched = event('m.reaction');
+    await expect(router.dispatch(dispatched, context)).resolves.toBe(true);
+    expect(reaction).toHaveBeenCalledWith(dispatched, context);
+
+    await expect(router.dispatch(event('m.sticker'), context)).resolves.toBe(false);
+  });
+
+  it('passes on a handler failure', async () => {
+    const router = new EventRouter();
+    router.register('m.reaction', async () => {
+      throw new Error('write failed');
+    });
+
+    await expect(router.dispatch(event('m.reaction'), context)).rejects.toThrow('write failed');
+  });
+});
@@ -0,0 +1,87 @@
+import * as MatrixSDK from 'matrix-js-sdk';
+
+export type EventSource = 'timeline' | 'backfill' | 'utd' | 'replay' | 'import';
+
+export interface EventContext {
+  roomId: string;
+  // absent for imported events, which do not come from a live session
+  client?: MatrixSDK.MatrixClient;
+  source: EventSource;
+}
+
+export type EventHandler = (event: MatrixSDK.MatrixEvent, context: EventContext) => Promise<void>;
+
+// exact event types ("m.reaction"), prefixes ending in ".*" ("m.call.*") or predicates
+export type EventMatcher = string | ((event: MatrixSDK.MatrixEvent) => boolean);
+
+interface PredicateRegistration {
+  predicate: (event: MatrixSDK.MatrixEvent) => boolean;
+  handler: EventHandler;
+}
+
+export class EventRouter {
+  private exact = new Map<string, EventHandler>();
+  private prefixes: { prefix: string; handler: EventHandler }[] = [];
+  private predicates: PredicateRegistration[] = [];
+  private fallback: EventHandler | null = null;
+
+  /**
+   * Registers a handler and returns a function that removes it again.
+   * Exact types win over prefixes (longest first), prefixes over predicates,
+   * and a later registration for the same type replaces the earlier one.
+   */
+  public register(matcher: EventMatcher, handler: EventHandler): () => void {
+    if (typeof matcher === 'function') {
+      const registration = { predicate: matcher, handler };
+      this.predicates.push(registration);
+      return () => {
+        this.predicates = this.predicates.filter((entry) => entry !== registration);
+      };
+    }
+
+    if (matcher.endsWith('.*')) {
+      const prefix = matcher.slice(0, -1);
+      const entry = { prefix, handler };
+      this.prefixes = [...this.prefixes.filter((p) => p.prefix !== prefix), entry].sort(
+        (a, b) => b.prefix.length - a.prefix.length
+      );
+      return () => {
+        this.prefixes = this.prefixes.filter((p) => p !== entry);
+      };
+    }
+
+    this.exact.set(matcher, handler);
+    return () => {
+      if (this.exact.get(matcher) === handler) {
+        this.exact.delete(matcher);
+      }
+    };
+  }
+
+  public setFallback(handler: EventHandler | null): void {
+    this.fallback = handler;
+  }
+
+  public resolve(event: MatrixSDK.MatrixEvent): EventHandler | null {
+    const type = event.getType();
+
+    const exact = this.exact.get(type);
+    if (exact) return exact;
+
+    const prefixed = this.prefixes.find((entry) => type.startsWith(entry.prefix));
+    if (prefixed) return prefixed.handler;
+
+    const matched = this.predicates.find((entry) => entry.predicate(event));
+    if (matched) return matched.handler;
+
+    return this.fallback;
+  }
+
+  public async dispatch(event: MatrixSDK.MatrixEvent, context: EventContext): Promise<boolean> {
+    const handler = this.resolve(event);
+    if (!handler) return false;
+
+    await handler(event, context);
+    return true;
+  }
+}
@@ -0,0 +1,172 @@
+import * as MatrixSDK from 'matrix-js-sdk';
+import { MediaRecord } from '../../server/types';
+import {
+  claimPendingMedia,
+  clearMediaFile,
+  loadPurgeableMedia,
+  markMediaDownloaded,
+  markMediaFailed,
+  markMediaSkipped,
+  resetInterruptedMedia,
+} from '../../server/db/media';
+import { decryptAttachment, removeMediaFile, storeMediaFile } from '../../server/utils/media.utils';
+import { configStore } from '../../server/config/store';
+
+export interface MediaWorkerOptions {
+  pollIntervalMs?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+}
+
+// media the policy does not download is marked skipped rather than failed
+class MediaSkippedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaSkippedError';
+  }
+}
+
+class MediaTooLargeError extends MediaSkippedError {
+  constructor(size: number, limit: number) {
+    super(`Media is ${size} bytes, limit is ${limit}`);
+    this.name = 'MediaTooLargeError';
+  }
+}
+
+export class MediaWorker {
+  private client: MatrixSDK.MatrixClient;
+  private accountKey: string;
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private maxAttempts: number;
+  private timer: NodeJS.Timeout | null = null;
+  private active: Promise<void> | null = null;
+
+  constructor(client: MatrixSDK.MatrixClient, accountKey: string, opts: MediaWorkerOptions = {}) {
+    this.client = client;
+    this.accountKey = accountKey;
+    this.pollIntervalMs = opts.pollIntervalMs ?? 10_000;
+    this.batchSize = opts.batchSize ?? 10;
+    this.maxAttempts = opts.maxAttempts ?? 5;
+  }
+
+  public async start(): Promise<void> {
+    if (this.timer) return;
+
+    await resetInterruptedMedia(this.accountKey);
+    this.timer = setInterval(() => this.tick(), this.pollIntervalMs);
+  }
+
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.active;
+  }
+
+  private tick(): void {
+    if (this.active) return;
+
+    this.active = this.processBatch()
+      .catch((error) => console.error('Media worker failed:', error))
+      .finally(() => {
+        this.active = null;
+      });
+  }
+
+  private async processBatch(): Promise<void> {
+    // while downloads are off, pending media stays pending
+    const batch = configStore.get().media.download
+      ? await claimPendingMedia(this.accountKey, this.batchSize)
+      : [];
+
+    for (const media of batch) {
+      if (!this.timer) break;
+      await this.process(media);
+    }
+
+    for (const purgeable of await loadPurgeableMedia()) {
+      await removeMediaFile(purgeable.storagePath);
+      await clearMediaFile(purgeable.id);
+    }
+  }
+
+  private async process(media: MediaRecord): Promise<void> {
+    // read per item, so a policy change applies from the next download
+    const policy = configStore.get().media;
+
+    try {
+      if (!policy.kinds.includes(media.kind)) {
+        throw new MediaSkippedError(`Media of kind ${media.kind} is not downloaded`);
+      }
+      if (media.declaredSize !== null && media.declaredSize > policy.maxBytes) {
+        throw new MediaTooLargeError(media.declaredSize, policy.maxBytes);
+      }
+
+      const downloaded = await this.download(media.mxcUrl, policy.maxBytes);
+      const data = media.encryption
+        ? await decryptAttachment(downloaded, media.encryption)
+        : downloaded;
+
+      const { sha256, storagePath } = await storeMediaFile(data);
+      await markMediaDownloaded(media.id, { sha256, size: data.byteLength, storagePath });
+    } catch (error: any) {
+      if (error instanceof MediaSkippedError) {
+        await markMediaSkipped(media.id, error.message);
+      } else {
+        console.error(`Failed to download ${media.mxcUrl}:`, error);
+        await markMediaFailed(media.id, error.message, this.maxAttempts);
+      }
+    }
+  }
+
+  // authenticated media endpoints (/_matrix/client/v1/media/download)
+  private async download(mxcUrl: string, maxBytes: number): Promise<Uint8Array> {
+    const url = this.client.mxcUrlToHttp(
+      mxcUrl,
+      undefined,
+      undefined,
+      undefined,
+      false,
+      true,
+      true
+    );
+    if (!url) {
+      throw new Error(`Invalid media URL ${mxcUrl}`);
+    }
+
+    const response = await fetch(url, {
+      headers: { Authorization: `Bearer ${this.client.getAccessToken()}` },
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Media download failed with status ${response.status}`);
+    }
+
+    const contentLength = Number(response.headers.get('content-length'));
+    if (contentLength > maxBytes) {
+      await response.body.cancel();
+      throw new MediaTooLargeError(contentLength, maxBytes);
+    }
+
+    // content-length is optional, so enforce the limit while reading as well
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    const reader = response.body.getReader();
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      received += value.byteLength;
+      if (received > maxBytes) {
+        await reader.cancel();
+        throw new MediaTooLargeError(received, maxBytes);
+      }
+      chunks.push(value);
+    }
+
+    return new Uint8Array(Buffer.concat(chunks));
+  }
+}
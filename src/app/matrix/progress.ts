@@ -0,0 +1,209 @@
+import * as MatrixSDK from 'matrix-js-sdk';
+import { EventEmitter } from 'events';
+import { IngestionCounters, SyncPhase, SyncProgress } from '../../server/types';
+import { BackfillManager, BackfillProgress } from './backfill';
+
+// counters and progress within a phase change per event, so subscribers get them at most this often
+const PUBLISH_INTERVAL_MS = 500;
+
+const STATUS_BY_PHASE: Record<SyncPhase, SyncProgress['status']> = {
+  stopped: 'stopped',
+  initial_sync: 'syncing',
+  catch_up: 'syncing',
+  backfill: 'syncing',
+  idle: 'synced',
+  paused: 'paused',
+  failed: 'failed',
+};
+
+/**
+ * The live sync state of one account: which phase it is in, how far along
+ * that phase is and how many events it has ingested. Emits `change` with a
+ * snapshot whenever it moves on.
+ */
+export class SyncProgressTracker extends EventEmitter {
+  private phase: SyncPhase = 'stopped';
+  private progress = 0;
+  private currentOperation = 'Waiting to start...';
+  private error: string | undefined;
+  private counters: IngestionCounters = {
+    eventsReceived: 0,
+    eventsPersisted: 0,
+    eventsFailed: 0,
+    lastEventAt: null,
+  };
+  private updatedAt = new Date().toISOString();
+  private client: MatrixSDK.MatrixClient | null = null;
+  private backfill: BackfillManager | null = null;
+  private publishTimer: NodeJS.Timeout | null = null;
+  private paused = false;
+
+  constructor() {
+    super();
+    // one listener per open sync socket
+    this.setMaxListeners(0);
+  }
+
+  public snapshot(): SyncProgress {
+    return {
+      status: STATUS_BY_PHASE[this.phase],
+      phase: this.phase,
+      progress: this.progress,
+      currentOperation: this.currentOperation,
+      ...(this.error ? { error: this.error } : {}),
+      counters: { ...this.counters },
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  public setPhase(
+    phase: SyncPhase,
+    currentOperation: string,
+    opts: { progress?: number; error?: string } = {}
+  ): void {
+    this.phase = phase;
+    this.currentOperation = currentOperation;
+    this.progress = opts.progress ?? (phase === 'idle' ? 100 : 0);
+    this.error = opts.error;
+    this.publish(true);
+  }
+
+  public setProgress(progress: number, currentOperation?: string): void {
+    this.progress = Math.max(0, Math.min(100, Math.round(progress)));
+    if (currentOperation) this.currentOperation = currentOperation;
+    this.publish(false);
+  }
+
+  public count(counter: Exclude<keyof IngestionCounters, 'lastEventAt'>): void {
+    this.counters[counter]++;
+    if (counter === 'eventsReceived') this.counters.lastEventAt = new Date().toISOString();
+    this.publish(false);
+  }
+
+  public setPaused(paused: boolean): void {
+    if (this.paused === paused) return;
+    this.paused = paused;
+    this.settle();
+  }
+
+  // follows the sync loop of a newly started client; the previous one, if any, is forgotten
+  public followClient(client: MatrixSDK.MatrixClient): void {
+    this.client = client;
+    this.backfill = null;
+
+    client.on(MatrixSDK.ClientEvent.Sync, (state, _prevState, data) => {
+      if (this.client !== client) return;
+
+      switch (state) {
+        case MatrixSDK.SyncState.Prepared:
+        case MatrixSDK.SyncState.Syncing:
+          // catching up ends with the first live sync; backfill reports its own progress
+          if (this.phase !== 'backfill' && this.phase !== 'idle') this.settle();
+          break;
+        case MatrixSDK.SyncState.Catchup:
+          this.setPhase('catch_up', 'Catching up after a connection error');
+          break;
+        case MatrixSDK.SyncState.Reconnecting:
+          this.setPhase('catch_up', 'Reconnecting to the homeserver');
+          break;
+        case MatrixSDK.SyncState.Error:
+          this.setPhase('failed', 'Sync failed', {
+            error: data?.error?.message ?? 'The homeserver could not be reached',
+          });
+          break;
+        case MatrixSDK.SyncState.Stopped:
+          this.setPhase('stopped', 'Sync stopped');
+          break;
+      }
+    });
+  }
+
+  public followBackfill(backfill: BackfillManager): void {
+    this.backfill = backfill;
+
+    const report = (progress: BackfillProgress) => {
+      if (this.backfill !== backfill || this.paused) return;
+
+      const finished = progress.rooms.filter((room) => room.status !== 'running').length;
+      const events = progress.rooms.reduce((sum, room) => sum + room.eventsPersisted, 0);
+      const operation = `Backfilling history: ${finished} of ${progress.roomCount} rooms, ${events} events`;
+
+      if (this.phase !== 'backfill') {
+        this.setPhase('backfill', operation);
+      }
+      this.setProgress(
+        progress.roomCount > 0 ? (finished / progress.roomCount) * 100 : 100,
+        operation
+      );
+    };
+
+    backfill.on('started', report);
+    backfill.on('progress', () => report(backfill.getProgress()));
+    backfill.on('finished', () => {
+      if (this.backfill === backfill && this.phase === 'backfill') this.settle();
+    });
+  }
+
+  // the phase the sync loop itself is in, once nothing else is reporting progress
+  private settle(): void {
+    const state = this.client?.getSyncState();
+
+    if (this.paused) {
+      this.setPhase('paused', 'Sync paused');
+    } else if (this.backfill?.isRunning()) {
+      this.setPhase('backfill', 'Backfilling history');
+    } else if (state === MatrixSDK.SyncState.Prepared || state === MatrixSDK.SyncState.Syncing) {
+      this.setPhase('idle', 'Up to date, receiving new events');
+    } else if (state === MatrixSDK.SyncState.Error) {
+      this.setPhase('failed', 'Sync failed', {
+        error: this.client?.getSyncStateData()?.error?.message ?? 'Sync failed',
+      });
+    } else if (
+      state === MatrixSDK.SyncState.Catchup ||
+      state === MatrixSDK.SyncState.Reconnecting
+    ) {
+      this.setPhase('catch_up', 'Catching up after a connection error');
+    } else {
+      this.setPhase('stopped', 'Sync stopped');
+    }
+  }
+
+  private publish(immediate: boolean): void {
+    this.updatedAt = new Date().toISOString();
+
+    if (immediate) {
+      if (this.publishTimer) {
+        clearTimeout(this.publishTimer);
+        this.publishTimer = null;
+      }
+      this.emit('change', this.snapshot());
+      return;
+    }
+
+    if (!this.publishTimer) {
+      this.publishTimer = setTimeout(() => {
+        this.publishTimer = null;
+        this.emit('change', this.snapshot());
+      }, PUBLISH_INTERVAL_MS);
+    }
+  }
+}
+
+/**
+ * One tracker per account, kept across restarts of its session so sockets
+ * opened before the account is started still see it sync.
+ */
+export class SyncProgressRegistry {
+  private trackers = new Map<string, SyncProgressTracker>();
+
+  public get(accountKey: string): SyncProgressTracker {
+    let tracker = this.trackers.get(accountKey);
+    if (!tracker) {
+      tracker = new SyncProgressTracker();
+      this.trackers.set(accountKey, tracker);
+    }
+    return tracker;
+  }
+}
+
+export const syncProgress = new SyncProgressRegistry();
@@ -0,0 +1,184 @@
+import { SyncLifecycleState, SyncLifecycleStatus, UserPayload } from '../../server/types';
+import { deleteAccount, getAccount, loadAccounts, saveAccount } from '../../server/db/accounts';
+import { onShutdown } from '../../server/db/client';
+import { hashPassword, verifyPassword } from '../../server/middlware/auth';
+import { AccountIdentity, accountKey } from './accounts';
+import { MatrixClient } from './client';
+import { SyncController, stoppedSyncStatus } from './sync-controller';
+
+export interface SessionSummary {
+  accountKey: string;
+  username: string;
+  domain: string;
+  userId: string | null;
+  running: boolean;
+  syncState: SyncLifecycleState;
+}
+
+export class SessionError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+/**
+ * Keeps one MatrixClient per authenticated account. Every account has its own
+ * crypto store, sync loop and workers, and a SyncController that drives it;
+ * registrations are persisted so running and paused accounts are brought back
+ * after a restart.
+ */
+export class SessionRegistry {
+  private sessions = new Map<string, MatrixClient>();
+  private controllers = new Map<string, SyncController>();
+  // in-flight logins and restarts, so concurrent requests for one account share a client
+  private starting = new Map<string, Promise<MatrixClient>>();
+
+  public get(account: AccountIdentity): MatrixClient | null {
+    return this.sessions.get(accountKey(account)) ?? null;
+  }
+
+  public getController(account: AccountIdentity): SyncController | null {
+    return this.controllers.get(accountKey(account)) ?? null;
+  }
+
+  public syncStatus(account: AccountIdentity): SyncLifecycleStatus {
+    const key = accountKey(account);
+    return this.controllers.get(key)?.getStatus() ?? stoppedSyncStatus(key);
+  }
+
+  public list(): SessionSummary[] {
+    return [...this.sessions.entries()].map(([key, session]) => {
+      const [username, ...domain] = key.split('@');
+      return {
+        accountKey: key,
+        username: username ?? '',
+        domain: domain.join('@'),
+        userId: session.getClient()?.getUserId() ?? null,
+        running: session.isRunning(),
+        syncState: this.controllers.get(key)?.getState() ?? 'stopped',
+      };
+    });
+  }
+
+  public async login(auth: UserPayload): Promise<MatrixClient> {
+    const key = accountKey(auth);
+    const account = await getAccount(key);
+
+    // a running session must not be handed to someone who cannot prove the password
+    if (account?.passwordHash && !(await verifyPassword(auth.password, account.passwordHash))) {
+      throw new SessionError('Invalid credentials', 401);
+    }
+
+    const session = await this.launch(auth, 'login');
+
+    await saveAccount({
+      accountKey: key,
+      username: auth.username,
+      domain: auth.domain,
+      userId: session.getClient()?.getUserId() ?? null,
+      passwordHash: await hashPassword(auth.password),
+    });
+
+    return session;
+  }
+
+  public async start(account: AccountIdentity): Promise<MatrixClient> {
+    const key = accountKey(account);
+    const existing = this.sessions.get(key);
+    if (existing?.isRunning()) return existing;
+
+    if (!(await getAccount(key))) {
+      throw new SessionError('Account is not registered', 404);
+    }
+
+    // the stored access token and device are reused, so no password is needed to resume
+    return this.launch({ ...account, password: '' }, 'start');
+  }
+
+  public async stop(account: AccountIdentity): Promise<boolean> {
+    const controller = this.controllers.get(accountKey(account));
+    if (!controller) return false;
+
+    await controller.stop();
+    return true;
+  }
+
+  public async logout(account: AccountIdentity): Promise<boolean> {
+    const key = accountKey(account);
+    const session = this.sessions.get(key);
+
+    if (session) {
+      await this.controllers.get(key)?.logout();
+      this.sessions.delete(key);
+      this.controllers.delete(key);
+    }
+    await deleteAccount(key);
+
+    return session !== undefined;
+  }
+
+  // brings back every account that was running or paused when the process last stopped
+  public async restore(): Promise<void> {
+    const accounts = (await loadAccounts()).filter((account) => account.status !== 'stopped');
+
+    for (const account of accounts) {
+      try {
+        const auth = { username: account.username, domain: account.domain, password: '' };
+        await this.launch(auth, 'restore', true);
+        if (account.status === 'paused') {
+          await this.controllers.get(account.accountKey)?.pause();
+        }
+        console.log(`Restored session for ${account.accountKey}`);
+      } catch (error) {
+        console.error(`Failed to restore session for ${account.accountKey}, retrying:`, error);
+      }
+    }
+  }
+
+  // stops every session, including those still starting, without changing the status of their accounts
+  public async shutdown(): Promise<void> {
+    await Promise.allSettled(this.starting.values());
+
+    for (const [key, controller] of this.controllers) {
+      await controller.shutdown().catch((error) => {
+        console.error(`Failed to stop the session for ${key}:`, error);
+      });
+    }
+  }
+
+  // a session that fails to start is dropped, such as a login with a wrong password, unless
+  // retryOnFailure keeps it registered while its controller retries in the background
+  private launch(auth: UserPayload, reason: string, retryOnFailure = false): Promise<MatrixClient> {
+    const key = accountKey(auth);
+    const inFlight = this.starting.get(key);
+    if (inFlight) return inFlight;
+
+    const launching = (async () => {
+      const session = this.sessions.get(key) ?? new MatrixClient(auth);
+      const controller = this.controllers.get(key) ?? new SyncController(session, key);
+      try {
+        await controller.start(reason, retryOnFailure);
+      } finally {
+        if (retryOnFailure || controller.getState() !== 'error') {
+          this.sessions.set(key, session);
+          this.controllers.set(key, controller);
+        }
+      }
+      return session;
+    })().finally(() => {
+      this.starting.delete(key);
+    });
+
+    this.starting.set(key, launching);
+    return launching;
+  }
+}
+
+export const sessionRegistry = new SessionRegistry();
+
+// the sync stores are saved and the last events written before the buffers are flushed
+onShutdown(() => sessionRegistry.shutdown(), { first: true });
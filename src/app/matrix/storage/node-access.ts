@@ -0,0 +1,291 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { createHash } from 'crypto';
+import { deserialize, serialize } from 'v8';
+import {
+  deleteIndexedDBSnapshots,
+  deleteStorageItems,
+  loadIndexedDBSnapshots,
+  loadStorageItems,
+  saveIndexedDBSnapshot,
+  saveStorageItem,
+} from '../../../server/db/storage';
+
+/**
+ * A Web Storage implementation for Node, kept in memory and written through to
+ * Postgres. Storage is synchronous, so writes are queued and `flush()` waits
+ * for them to land.
+ */
+export class PostgresStorage implements Storage {
+  [name: string]: any;
+
+  private items = new Map<string, string>();
+  private writes: Promise<void> = Promise.resolve();
+  private accountKey: string;
+
+  constructor(accountKey: string) {
+    this.accountKey = accountKey;
+  }
+
+  public async load(): Promise<void> {
+    this.items = await loadStorageItems(this.accountKey);
+  }
+
+  public get length(): number {
+    return this.items.size;
+  }
+
+  public key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  public getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  public setItem(key: string, value: string): void {
+    const stored = String(value);
+    this.items.set(key, stored);
+    this.enqueue(() => saveStorageItem(this.accountKey, key, stored));
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key);
+    this.enqueue(() => deleteStorageItems(this.accountKey, [key]));
+  }
+
+  public clear(): void {
+    this.items.clear();
+    this.enqueue(() => deleteStorageItems(this.accountKey));
+  }
+
+  public flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private enqueue(write: () => Promise<void>): void {
+    this.writes = this.writes.then(write).catch((error) => {
+      console.error(`Failed to persist storage for ${this.accountKey}:`, error);
+    });
+  }
+}
+
+interface IndexSnapshot {
+  name: string;
+  keyPath: string | string[];
+  unique: boolean;
+  multiEntry: boolean;
+}
+
+interface ObjectStoreSnapshot {
+  name: string;
+  keyPath: string | string[] | null;
+  autoIncrement: boolean;
+  indexes: IndexSnapshot[];
+  records: [IDBValidKey, unknown][];
+}
+
+interface DatabaseSnapshot {
+  name: string;
+  version: number;
+  stores: ObjectStoreSnapshot[];
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * An in-process IndexedDB for one account, persisted to Postgres as
+ * structured-clone snapshots. The rust crypto store needs IndexedDB, which
+ * Node does not have; this gives each account its own factory whose contents
+ * survive restarts.
+ */
+export class PersistentIndexedDB {
+  public readonly factory: IDBFactory = new IDBFactory();
+  private accountKey: string;
+  // last persisted checksum per database, so unchanged databases are not rewritten
+  private checksums = new Map<string, string>();
+
+  constructor(accountKey: string) {
+    this.accountKey = accountKey;
+  }
+
+  public async restore(): Promise<string[]> {
+    const snapshots = await loadIndexedDBSnapshots(this.accountKey);
+    // databases still open from an earlier start in this process are already current
+    const existing = await this.databaseNames();
+
+    for (const { dbName, snapshot, checksum } of snapshots) {
+      if (existing.includes(dbName)) continue;
+
+      await this.load(deserialize(snapshot) as DatabaseSnapshot);
+      this.checksums.set(dbName, checksum);
+    }
+
+    return snapshots.map((snapshot) => snapshot.dbName);
+  }
+
+  public async databaseNames(): Promise<string[]> {
+    const databases = await this.factory.databases();
+    return databases.flatMap((database) => (database.name ? [database.name] : []));
+  }
+
+  public async flush(): Promise<void> {
+    for (const name of await this.databaseNames()) {
+      const snapshot = await this.capture(name);
+      const data = serialize(snapshot);
+      const checksum = createHash('sha256').update(data).digest('hex');
+
+      if (this.checksums.get(name) === checksum) continue;
+
+      await saveIndexedDBSnapshot(this.accountKey, {
+        dbName: name,
+        version: snapshot.version,
+        data,
+        checksum,
+      });
+      this.checksums.set(name, checksum);
+    }
+  }
+
+  public async destroy(): Promise<void> {
+    for (const name of await this.databaseNames()) {
+      await requestResult(this.factory.deleteDatabase(name));
+    }
+    await deleteIndexedDBSnapshots(this.accountKey);
+    this.checksums.clear();
+  }
+
+  private async capture(name: string): Promise<DatabaseSnapshot> {
+    const db = await requestResult(this.factory.open(name));
+
+    try {
+      const storeNames = [...db.objectStoreNames];
+      const stores: ObjectStoreSnapshot[] = [];
+
+      if (storeNames.length > 0) {
+        // one readonly transaction across all stores gives a consistent view of the database
+        const transaction = db.transaction(storeNames, 'readonly');
+        const done = transactionDone(transaction);
+
+        const reads = storeNames.map((storeName) => {
+          const store = transaction.objectStore(storeName);
+          return Promise.all([
+            requestResult(store.getAllKeys()),
+            requestResult(store.getAll()),
+          ]).then(
+            ([keys, values]): ObjectStoreSnapshot => ({
+              name: storeName,
+              keyPath: store.keyPath,
+              autoIncrement: store.autoIncrement,
+              indexes: [...store.indexNames].map((indexName) => {
+                const index = store.index(indexName);
+                return {
+                  name: indexName,
+                  keyPath: index.keyPath,
+                  unique: index.unique,
+                  multiEntry: index.multiEntry,
+                };
+              }),
+              records: keys.map((key, i) => [key, values[i]]),
+            })
+          );
+        });
+
+        stores.push(...(await Promise.all(reads)));
+        await done;
+      }
+
+      return { name, version: db.version, stores };
+    } finally {
+      db.close();
+    }
+  }
+
+  private async load(snapshot: DatabaseSnapshot): Promise<void> {
+    const request = this.factory.open(snapshot.name, snapshot.version);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of snapshot.stores) {
+        const objectStore = db.createObjectStore(store.name, {
+          keyPath: store.keyPath,
+          autoIncrement: store.autoIncrement,
+        });
+        for (const index of store.indexes) {
+          objectStore.createIndex(index.name, index.keyPath, {
+            unique: index.unique,
+            multiEntry: index.multiEntry,
+          });
+        }
+      }
+    };
+
+    const db = await requestResult(request);
+
+    try {
+      if (snapshot.stores.length === 0) return;
+
+      const transaction = db.transaction(
+        snapshot.stores.map((store) => store.name),
+        'readwrite'
+      );
+      const done = transactionDone(transaction);
+
+      for (const store of snapshot.stores) {
+        const objectStore = transaction.objectStore(store.name);
+        for (const [key, value] of store.records) {
+          if (store.keyPath === null) {
+            objectStore.put(value, key);
+          } else {
+            objectStore.put(value);
+          }
+        }
+      }
+
+      await done;
+    } finally {
+      db.close();
+    }
+  }
+}
+
+// the rust crypto store opens `globalThis.indexedDB` under a fixed name, so each account's
+// factory is swapped in while its store is opened; opens are serialised to keep them apart
+let globalFactoryLock: Promise<unknown> = Promise.resolve();
+
+export function withIndexedDB<T>(factory: IDBFactory, fn: () => Promise<T>): Promise<T> {
+  const run = globalFactoryLock.then(async () => {
+    const previous = globalThis.indexedDB;
+    Object.defineProperty(globalThis, 'indexedDB', {
+      value: factory,
+      configurable: true,
+      writable: true,
+    });
+
+    try {
+      return await fn();
+    } finally {
+      Object.defineProperty(globalThis, 'indexedDB', {
+        value: previous,
+        configurable: true,
+        writable: true,
+      });
+    }
+  });
+
+  globalFactoryLock = run.catch(() => undefined);
+  return run;
+}
@@ -0,0 +1,132 @@
+import { PersistentIndexedDB, PostgresStorage, withIndexedDB } from './node-access';
+import { PostgresStore } from './postgres-store';
+
+const RUST_CRYPTO_STORE_NAME = 'matrix-js-sdk::matrix-sdk-crypto';
+const CRYPTO_INITIALISED_KEY = 'mx_crypto_initialised';
+
+export interface StorageConsistency {
+  healthy: boolean;
+  cryptoInited: boolean;
+  dataInCryptoStore: boolean;
+  dataInLocalStorage: boolean;
+}
+
+/**
+ * Server-side counterpart of `manager.ts`: one account's sync store, crypto
+ * store and local storage, all persisted to Postgres.
+ */
+export class NodeStorageManager {
+  public readonly localStorage: PostgresStorage;
+  private indexedDB: PersistentIndexedDB;
+  private accountKey: string;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+
+  constructor(accountKey: string) {
+    this.accountKey = accountKey;
+    this.localStorage = new PostgresStorage(accountKey);
+    this.indexedDB = new PersistentIndexedDB(accountKey);
+  }
+
+  public async open(flushIntervalMs = 5_000): Promise<void> {
+    await this.localStorage.load();
+    const restored = await this.indexedDB.restore();
+    this.log(`Restored IndexedDB databases: ${restored.join(', ') || 'none'}`);
+
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => {
+        this.flush().catch((error) => this.error('Failed to persist stores', error));
+      }, flushIntervalMs);
+    }
+  }
+
+  public async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+
+  // removes everything kept for the account, used when its device is logged out
+  public async destroy(): Promise<void> {
+    await this.close();
+    this.localStorage.clear();
+    await this.localStorage.flush();
+    await this.indexedDB.destroy();
+  }
+
+  public flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = Promise.all([this.localStorage.flush(), this.indexedDB.flush()])
+        .then(() => undefined)
+        .finally(() => {
+          this.flushing = null;
+        });
+    }
+    return this.flushing;
+  }
+
+  public createSyncStore(beforeSave?: () => Promise<void>): PostgresStore {
+    return new PostgresStore({
+      accountKey: this.accountKey,
+      localStorage: this.localStorage,
+      beforeSave,
+    });
+  }
+
+  // runs `fn` with this account's IndexedDB installed as the global one
+  public withCryptoStore<T>(fn: () => Promise<T>): Promise<T> {
+    return withIndexedDB(this.indexedDB.factory, fn);
+  }
+
+  public async checkConsistency(hasPickleKey: boolean): Promise<StorageConsistency> {
+    this.log('Checking storage consistency');
+
+    let healthy = true;
+
+    const dataInLocalStorage = this.localStorage.length > 0;
+    this.log(`Local storage contains data? ${dataInLocalStorage}`);
+
+    const cryptoInited = !!this.localStorage.getItem(CRYPTO_INITIALISED_KEY);
+    this.log(`Crypto initialised? ${cryptoInited}`);
+
+    const dataInCryptoStore = (await this.indexedDB.databaseNames()).includes(
+      RUST_CRYPTO_STORE_NAME
+    );
+    this.log(`Rust crypto store contains data? ${dataInCryptoStore}`);
+
+    if (dataInLocalStorage && cryptoInited && !dataInCryptoStore) {
+      healthy = false;
+      this.error(
+        'Data exists in local storage and crypto is marked as initialised ' +
+          'but no data found in crypto store. The crypto store snapshot has been lost!'
+      );
+    }
+
+    if (dataInCryptoStore && !hasPickleKey) {
+      healthy = false;
+      this.error('Crypto store exists but no pickle key is stored to unlock it');
+    }
+
+    if (healthy) {
+      this.log('Storage consistency checks passed');
+    } else {
+      this.error('Storage consistency checks failed');
+    }
+
+    return { dataInLocalStorage, dataInCryptoStore, cryptoInited, healthy };
+  }
+
+  public setCryptoInitialised(cryptoInited: boolean): void {
+    this.localStorage.setItem(CRYPTO_INITIALISED_KEY, String(cryptoInited));
+  }
+
+  private log(msg: string): void {
+    console.log(`StorageManager[${this.accountKey}]: ${msg}`);
+  }
+
+  private error(msg: string, ...args: any[]): void {
+    console.error(`StorageManager[${this.accountKey}]: ${msg}`, ...args);
+  }
+}
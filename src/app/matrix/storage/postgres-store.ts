@@ -0,0 +1,173 @@
+import * as MatrixSDK from 'matrix-js-sdk';
+import { ISavedSync } from 'matrix-js-sdk/lib/store';
+import {
+  deleteOutOfBandMembers,
+  deleteSyncStore,
+  loadOutOfBandMembers,
+  loadSyncStore,
+  saveOutOfBandMembers,
+  saveSyncClientOptions,
+  saveSyncData,
+} from '../../../server/db/sync-store';
+import { writeBuffer } from '../../../server/db/write-buffer';
+
+export interface PostgresStoreOptions {
+  accountKey: string;
+  // filter IDs are kept here by MemoryStore
+  localStorage: Storage;
+  writeDelayMs?: number;
+  // resolves once every event from the syncs being saved has been persisted
+  beforeSave?: () => Promise<void>;
+}
+
+/**
+ * A sync store that persists the SDK's sync accumulator, `next_batch` token,
+ * account data and lazily loaded members to Postgres, in the way
+ * `IndexedDBStore` does in the browser. A restarted client replays the saved
+ * sync and resumes incremental sync from the saved token.
+ */
+export class PostgresStore extends MatrixSDK.MemoryStore {
+  private accountKey: string;
+  private accumulator = new MatrixSDK.SyncAccumulator();
+  private storedClientOptions: MatrixSDK.IStoredClientOpts | undefined;
+  private writeDelayMs: number;
+  private beforeSave?: () => Promise<void>;
+  private lastSaved = 0;
+  private saving: Promise<void> | null = null;
+  private startedUp = false;
+  private newlyCreated = true;
+  // set while paused; resolved to let the sync loop carry on
+  private pauseGate: { promise: Promise<void>; release: () => void } | null = null;
+
+  constructor(opts: PostgresStoreOptions) {
+    super({ localStorage: opts.localStorage });
+    this.accountKey = opts.accountKey;
+    this.writeDelayMs = opts.writeDelayMs ?? 30_000;
+    this.beforeSave = opts.beforeSave;
+  }
+
+  public override async startup(): Promise<void> {
+    if (this.startedUp) return;
+
+    const { syncData, clientOptions } = await loadSyncStore(this.accountKey);
+    if (syncData) {
+      this.accumulator.accumulate(
+        {
+          next_batch: syncData.nextBatch,
+          rooms: syncData.roomsData,
+          account_data: { events: syncData.accountData },
+        },
+        true
+      );
+      this.newlyCreated = false;
+    }
+
+    this.storedClientOptions = clientOptions;
+    this.startedUp = true;
+  }
+
+  public override isNewlyCreated(): Promise<boolean> {
+    return Promise.resolve(this.newlyCreated);
+  }
+
+  public override getSavedSync(): Promise<ISavedSync | null> {
+    const data = this.accumulator.getJSON();
+    if (!data.nextBatch) return Promise.resolve(null);
+
+    // sync processing decorates what it is given, so it must not see the accumulator's own objects
+    return Promise.resolve(structuredClone(data));
+  }
+
+  public override getSavedSyncToken(): Promise<string | null> {
+    return Promise.resolve(this.accumulator.getNextBatchToken() || null);
+  }
+
+  public override async setSyncData(syncData: MatrixSDK.ISyncResponse): Promise<void> {
+    this.accumulator.accumulate(syncData);
+    // the sync loop awaits this before its next request, so it backs off while Postgres catches up
+    await writeBuffer.waitForCapacity();
+    await this.pauseGate?.promise;
+  }
+
+  // holds the sync loop once the response in flight has been processed, without stopping the client
+  public pause(): void {
+    if (this.pauseGate) return;
+
+    let release: () => void = () => undefined;
+    const promise = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    this.pauseGate = { promise, release };
+  }
+
+  public resume(): void {
+    this.pauseGate?.release();
+    this.pauseGate = null;
+  }
+
+  public isPaused(): boolean {
+    return this.pauseGate !== null;
+  }
+
+  public override wantsSave(): boolean {
+    return Date.now() - this.lastSaved > this.writeDelayMs;
+  }
+
+  public override save(force = false): Promise<void> {
+    if (!force && !this.wantsSave()) return Promise.resolve();
+
+    if (!this.saving) {
+      this.lastSaved = Date.now();
+      this.saving = this.persist().finally(() => {
+        this.saving = null;
+      });
+    }
+    return this.saving;
+  }
+
+  public override async deleteAllData(): Promise<void> {
+    await super.deleteAllData();
+    this.accumulator = new MatrixSDK.SyncAccumulator();
+    this.storedClientOptions = undefined;
+    await deleteSyncStore(this.accountKey);
+  }
+
+  public override async getOutOfBandMembers(
+    roomId: string
+  ): Promise<MatrixSDK.IStateEventWithRoomId[] | null> {
+    return loadOutOfBandMembers(this.accountKey, roomId);
+  }
+
+  public override async setOutOfBandMembers(
+    roomId: string,
+    membershipEvents: MatrixSDK.IStateEventWithRoomId[]
+  ): Promise<void> {
+    await super.setOutOfBandMembers(roomId, membershipEvents);
+    await saveOutOfBandMembers(this.accountKey, roomId, membershipEvents);
+  }
+
+  public override async clearOutOfBandMembers(roomId: string): Promise<void> {
+    await super.clearOutOfBandMembers(roomId);
+    await deleteOutOfBandMembers(this.accountKey, roomId);
+  }
+
+  public override getClientOptions(): Promise<MatrixSDK.IStoredClientOpts | undefined> {
+    return Promise.resolve(this.storedClientOptions);
+  }
+
+  public override async storeClientOptions(options: MatrixSDK.IStoredClientOpts): Promise<void> {
+    await super.storeClientOptions(options);
+    this.storedClientOptions = options;
+    await saveSyncClientOptions(this.accountKey, options);
+  }
+
+  private async persist(): Promise<void> {
+    // take the snapshot first: syncs accumulated while events drain are saved next time
+    const data = this.accumulator.getJSON(true);
+    if (!data.nextBatch) return;
+
+    await this.beforeSave?.();
+    await saveSyncData(this.accountKey, data);
+    console.log(`Persisted sync data for ${this.accountKey} up to ${data.nextBatch}`);
+  }
+}
@@ -0,0 +1,237 @@
+import { EventEmitter } from 'events';
+import { setAccountStatus } from '../../server/db/accounts';
+import { recordSyncTransition } from '../../server/db/sync-transitions';
+import type { MatrixClient } from './client';
+import { SyncController, SyncTransitionError } from './sync-controller';
+
+jest.mock('matrix-js-sdk', () => ({
+  SyncState: { Error: 'ERROR', Prepared: 'PREPARED', Syncing: 'SYNCING' },
+  ClientEvent: { Sync: 'sync' },
+}));
+jest.mock('../../server/db/sync-transitions', () => ({
+  recordSyncTransition: jest.fn(async () => undefined),
+}));
+jest.mock('../../server/db/accounts', () => ({
+  setAccountStatus: jest.fn(async () => undefined),
+}));
+jest.mock('./progress', () => ({
+  syncProgress: { get: () => ({ snapshot: () => ({}) }) },
+}));
+
+const recorded = recordSyncTransition as jest.Mock;
+const accountStatus = setAccountStatus as jest.Mock;
+
+class FakeSession {
+  public client: (EventEmitter & { getSyncState: () => string | null }) | null = null;
+  public initialize = jest.fn(async () => {
+    this.client = Object.assign(new EventEmitter(), { getSyncState: () => 'SYNCING' });
+  });
+  public stop = jest.fn(async () => {
+    this.client = null;
+  });
+  public logout = jest.fn(async () => {
+    this.client = null;
+  });
+  public pauseSync = jest.fn();
+  public resumeSync = jest.fn();
+
+  public getClient() {
+    return this.client;
+  }
+}
+
+const setup = (failures = 0) => {
+  const session = new FakeSession();
+  for (let i = 0; i < failures; i++) {
+    session.initialize.mockRejectedValueOnce(new Error('homeserver unreachable'));
+  }
+  const controller = new SyncController(session as unknown as MatrixClient, 'account-1', {
+    retryBaseMs: 1_000,
+    retryMaxMs: 3_000,
+  });
+  return { session, controller };
+};
+
+const transitions = () =>
+  recorded.mock.calls.map(
+    ([{ fromState, toState, reason }]) => `${fromState}>${toState}:${reason}`
+  );
+
+beforeEach(() => {
+  recorded.mockClear();
+  accountStatus.mockClear();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('SyncController', () => {
+  it('starts, pauses, resumes and stops', async () => {
+    const { session, controller } = setup();
+
+    await expect(controller.start()).resolves.toMatchObject({ state: 'running', lastError: null });
+    await controller.pause();
+    expect(session.pauseSync).toHaveBeenCalled();
+    await controller.resume();
+    expect(session.resumeSync).toHaveBeenCalled();
+    await expect(controller.stop()).resolves.toMatchObject({ state: 'stopped' });
+
+    expect(transitions()).toEqual([
+      'stopped>starting:start',
+      'starting>running:start',
+      'running>paused:pause',
+      'paused>running:resume',
+      'running>stopping:stop',
+      'stopping>stopped:stop',
+    ]);
+    expect(accountStatus.mock.calls.map(([, status]) => status)).toEqual([
+      'running',
+      'paused',
+      'running',
+      'stopped',
+    ]);
+  });
+
+  it('rejects operations the current state does not allow', async () => {
+    const { controller } = setup();
+
+    await expect(controller.pause()).rejects.toThrow(SyncTransitionError);
+    await expect(controller.resume()).rejects.toThrow('Sync is stopped and cannot be resumed');
+    await expect(controller.retry()).rejects.toThrow('Sync is stopped and cannot be retried');
+
+    await controller.start();
+    await expect(controller.resume()).rejects.toThrow('Sync is running and cannot be resumed');
+    expect(controller.getState()).toBe('running');
+  });
+
+  it('ignores a start while already running', async () => {
+    const { session, controller } = setup();
+
+    await controller.start();
+    await controller.start();
+
+    expect(session.initialize).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs operations one at a time', async () => {
+    const { session, controller } = setup();
+
+    const starting = controller.start();
+    const stopping = controller.stop();
+    await Promise.all([starting, stopping]);
+
+    expect(session.stop).toHaveBeenCalledTimes(1);
+    expect(controller.getState()).toBe('stopped');
+    expect(transitions()).toEqual([
+      'stopped>starting:start',
+      'starting>running:start',
+      'running>stopping:stop',
+      'stopping>stopped:stop',
+    ]);
+  });
+
+  it('leaves a failed start in error for a manual retry', async () => {
+    const { session, controller } = setup(1);
+
+    await expect(controller.start()).rejects.toThrow('homeserver unreachable');
+    expect(controller.getStatus()).toMatchObject({
+      state: 'error',
+      lastError: 'homeserver unreachable',
+      nextRetryAt: null,
+    });
+
+    await expect(controller.retry()).resolves.toMatchObject({ state: 'running', lastError: null });
+    expect(session.initialize).toHaveBeenCalledTimes(2);
+    expect(transitions()).toEqual([
+      'stopped>starting:start',
+      'starting>error:start',
+      'error>starting:retry',
+      'starting>running:retry',
+    ]);
+  });
+
+  it('restarts a failed start with exponential backoff', async () => {
+    jest.useFakeTimers();
+    const { session, controller } = setup(2);
+
+    await expect(controller.start('restore', true)).rejects.toThrow();
+    expect(controller.getStatus()).toMatchObject({ state: 'error', retryAttempts: 1 });
+
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(controller.getStatus()).toMatchObject({ state: 'error', retryAttempts: 2 });
+
+    await jest.advanceTimersByTimeAsync(1_999);
+    expect(session.initialize).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(controller.getStatus()).toMatchObject({
+      state: 'running',
+      retryAttempts: 0,
+      nextRetryAt: null,
+    });
+    expect(transitions().filter((transition) => transition.endsWith(':auto_retry'))).toHaveLength(
+      4
+    );
+  });
+
+  it('moves to error when the sync fails and back when the SDK recovers', async () => {
+    jest.useFakeTimers();
+    const { session, controller } = setup();
+    await controller.start();
+    const client = session.client!;
+
+    client.emit('sync', 'ERROR', 'SYNCING', { error: new Error('sync timed out') });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(controller.getStatus()).toMatchObject({
+      state: 'error',
+      lastError: 'sync timed out',
+      retryAttempts: 1,
+    });
+
+    client.emit('sync', 'SYNCING', 'ERROR');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(controller.getStatus()).toMatchObject({
+      state: 'running',
+      retryAttempts: 0,
+      nextRetryAt: null,
+    });
+    expect(transitions().slice(-2)).toEqual([
+      'running>error:sync_error',
+      'error>running:recovered',
+    ]);
+
+    // the scheduled restart was cancelled
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(session.initialize).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops listening to a client once stopped', async () => {
+    const { session, controller } = setup();
+    await controller.start();
+    const client = session.client!;
+
+    await controller.stop();
+
+    expect(client.listenerCount('sync')).toBe(0);
+  });
+
+  it('keeps going when a transition cannot be recorded', async () => {
+    recorded.mockRejectedValueOnce(new Error('database down'));
+    const { controller } = setup();
+
+    await expect(controller.start()).resolves.toMatchObject({ state: 'running' });
+  });
+
+  it('logs out from any state and ends stopped', async () => {
+    const { session, controller } = setup();
+    await controller.start();
+    await controller.pause();
+
+    await expect(controller.logout()).resolves.toMatchObject({ state: 'stopped' });
+    expect(session.logout).toHaveBeenCalled();
+    expect(transitions().slice(-2)).toEqual(['paused>stopping:logout', 'stopping>stopped:logout']);
+  });
+});
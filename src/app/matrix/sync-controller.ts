@@ -0,0 +1,282 @@
+import * as MatrixSDK from 'matrix-js-sdk';
+import { SyncLifecycleState, SyncLifecycleStatus } from '../../server/types';
+import { setAccountStatus } from '../../server/db/accounts';
+import { recordSyncTransition } from '../../server/db/sync-transitions';
+import { MatrixClient } from './client';
+import { syncProgress } from './progress';
+
+export interface SyncControllerOptions {
+  retryBaseMs?: number;
+  retryMaxMs?: number;
+}
+
+export class SyncTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncTransitionError';
+  }
+}
+
+const TRANSITIONS: Record<SyncLifecycleState, SyncLifecycleState[]> = {
+  stopped: ['starting'],
+  starting: ['running', 'error'],
+  running: ['paused', 'error', 'stopping'],
+  paused: ['running', 'stopping'],
+  error: ['starting', 'running', 'stopping'],
+  stopping: ['stopped'],
+};
+
+// the status of an account that has no session in this process
+export function stoppedSyncStatus(accountKey: string): SyncLifecycleStatus {
+  return {
+    state: 'stopped',
+    since: null,
+    lastError: null,
+    retryAttempts: 0,
+    nextRetryAt: null,
+    clientState: null,
+    progress: syncProgress.get(accountKey).snapshot(),
+  };
+}
+
+/**
+ * Owns the sync lifecycle of one session as explicit states, recording every
+ * transition in `sync_transitions`. Operations run one at a time, so a stop
+ * requested while the client is starting waits for the start to settle.
+ *
+ * Pausing holds the sync loop between requests and keeps the client, its
+ * crypto store and the workers running. A sync that fails is restarted with
+ * exponential backoff until it runs again, unless the SDK recovers first.
+ */
+export class SyncController {
+  private session: MatrixClient;
+  private accountKey: string;
+  private retryBaseMs: number;
+  private retryMaxMs: number;
+  private state: SyncLifecycleState = 'stopped';
+  private since: string | null = null;
+  private lastError: string | null = null;
+  private retryAttempts = 0;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private nextRetryAt: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private watched: MatrixSDK.MatrixClient | null = null;
+
+  constructor(session: MatrixClient, accountKey: string, opts: SyncControllerOptions = {}) {
+    this.session = session;
+    this.accountKey = accountKey;
+    this.retryBaseMs = opts.retryBaseMs ?? 5_000;
+    this.retryMaxMs = opts.retryMaxMs ?? 5 * 60_000;
+  }
+
+  public getState(): SyncLifecycleState {
+    return this.state;
+  }
+
+  public getStatus(): SyncLifecycleStatus {
+    return {
+      state: this.state,
+      since: this.since,
+      lastError: this.lastError,
+      retryAttempts: this.retryAttempts,
+      nextRetryAt: this.nextRetryAt ? new Date(this.nextRetryAt).toISOString() : null,
+      clientState: this.session.getClient()?.getSyncState() ?? null,
+      progress: syncProgress.get(this.accountKey).snapshot(),
+    };
+  }
+
+  // a failed start is reported to the caller and left in `error`, for a manual retry
+  // or, with retryOnFailure, restarted with backoff like a sync that failed later
+  public start(reason = 'start', retryOnFailure = false): Promise<SyncLifecycleStatus> {
+    return this.enqueue(async () => {
+      if (this.state === 'running' || this.state === 'paused') return;
+      await this.launch(reason, retryOnFailure);
+    });
+  }
+
+  public stop(): Promise<SyncLifecycleStatus> {
+    return this.enqueue(async () => {
+      if (this.state === 'stopped') return;
+
+      await this.halt('stop');
+      await setAccountStatus(this.accountKey, 'stopped');
+    });
+  }
+
+  // stops the client as the process exits; the account keeps its status, so it is restored
+  public shutdown(): Promise<SyncLifecycleStatus> {
+    return this.enqueue(async () => {
+      if (this.state === 'stopped') return;
+      await this.halt('shutdown');
+    });
+  }
+
+  // ends the session for good; the registry forgets the controller afterwards
+  public logout(): Promise<SyncLifecycleStatus> {
+    return this.enqueue(async () => {
+      this.cancelRetry();
+      this.unwatch();
+      if (this.state !== 'stopped') await this.transition('stopping', 'logout');
+      try {
+        await this.session.logout();
+      } finally {
+        if (this.state === 'stopping') await this.transition('stopped', 'logout');
+      }
+    });
+  }
+
+  public pause(): Promise<SyncLifecycleStatus> {
+    return this.enqueue(async () => {
+      this.expect(['running'], 'paused');
+      this.session.pauseSync();
+      await this.transition('paused', 'pause');
+      await setAccountStatus(this.accountKey, 'paused');
+    });
+  }
+
+  public resume(): Promise<SyncLifecycleStatus> {
+    return this.enqueue(async () => {
+      this.expect(['paused'], 'resumed');
+      this.session.resumeSync();
+      await this.transition('running', 'resume');
+      await setAccountStatus(this.accountKey, 'running');
+    });
+  }
+
+  // restarts a failed sync now instead of waiting for the next scheduled attempt
+  public retry(reason = 'retry'): Promise<SyncLifecycleStatus> {
+    return this.enqueue(async () => {
+      this.expect(['error'], 'retried');
+      this.cancelRetry();
+      await this.launch(reason, true);
+    });
+  }
+
+  private async halt(reason: string): Promise<void> {
+    this.cancelRetry();
+    this.unwatch();
+    await this.transition('stopping', reason);
+    await this.session.stop();
+    await this.transition('stopped', reason);
+  }
+
+  private async launch(reason: string, retryOnFailure: boolean): Promise<void> {
+    this.expect(['stopped', 'error'], 'started');
+
+    // a client left behind by the failure cannot be started again, initialize() would reuse it
+    if (this.state === 'error') {
+      this.cancelRetry();
+      this.unwatch();
+      await this.session.stop();
+    }
+
+    await this.transition('starting', reason);
+    try {
+      await this.session.initialize();
+    } catch (error: any) {
+      await this.fail(reason, error, retryOnFailure);
+      throw error;
+    }
+
+    this.watch();
+    this.retryAttempts = 0;
+    await this.transition('running', reason);
+    await setAccountStatus(this.accountKey, 'running');
+  }
+
+  private async fail(reason: string, error: any, retry: boolean): Promise<void> {
+    this.lastError = error?.message ?? String(error);
+    await this.transition('error', reason, this.lastError);
+    if (retry) this.scheduleRetry();
+  }
+
+  private scheduleRetry(): void {
+    const delay = Math.min(this.retryBaseMs * 2 ** this.retryAttempts, this.retryMaxMs);
+    this.retryAttempts++;
+    this.nextRetryAt = Date.now() + delay;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.nextRetryAt = null;
+      this.retry('auto_retry').catch((error) => {
+        console.error(`Sync retry ${this.retryAttempts} for ${this.accountKey} failed:`, error);
+      });
+    }, delay);
+  }
+
+  private cancelRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.nextRetryAt = null;
+  }
+
+  private onSync = (state: MatrixSDK.SyncState, _prev: unknown, data?: MatrixSDK.SyncStateData) => {
+    if (state === MatrixSDK.SyncState.Error) {
+      this.enqueue(async () => {
+        if (this.state !== 'running') return;
+        await this.fail('sync_error', data?.error ?? new Error('Sync failed'), true);
+      }).catch((error) => console.error('Failed to record sync error:', error));
+    } else if (state === MatrixSDK.SyncState.Syncing || state === MatrixSDK.SyncState.Prepared) {
+      if (this.state !== 'error') return;
+
+      // the SDK reconnected on its own before the scheduled restart came round
+      this.enqueue(async () => {
+        if (this.state !== 'error' || this.watched !== this.session.getClient()) return;
+        this.cancelRetry();
+        this.retryAttempts = 0;
+        await this.transition('running', 'recovered');
+      }).catch((error) => console.error('Failed to record sync recovery:', error));
+    }
+  };
+
+  private watch(): void {
+    this.unwatch();
+    this.watched = this.session.getClient();
+    this.watched?.on(MatrixSDK.ClientEvent.Sync, this.onSync);
+  }
+
+  private unwatch(): void {
+    this.watched?.off(MatrixSDK.ClientEvent.Sync, this.onSync);
+    this.watched = null;
+  }
+
+  private expect(states: SyncLifecycleState[], action: string): void {
+    if (!states.includes(this.state)) {
+      throw new SyncTransitionError(`Sync is ${this.state} and cannot be ${action}`);
+    }
+  }
+
+  private async transition(
+    to: SyncLifecycleState,
+    reason: string,
+    error: string | null = null
+  ): Promise<void> {
+    const from = this.state;
+    if (!TRANSITIONS[from].includes(to)) {
+      throw new SyncTransitionError(`Sync cannot move from ${from} to ${to}`);
+    }
+
+    this.state = to;
+    this.since = new Date().toISOString();
+    if (to === 'running') this.lastError = null;
+
+    // the history is informational, a lifecycle change must not fail because it was not written
+    await recordSyncTransition({
+      accountKey: this.accountKey,
+      fromState: from,
+      toState: to,
+      reason,
+      error,
+    }).catch((recordError) => {
+      console.error(`Failed to record sync transition for ${this.accountKey}:`, recordError);
+    });
+  }
+
+  private enqueue(op: () => Promise<void>): Promise<SyncLifecycleStatus> {
+    const run = this.queue.then(op).then(() => this.getStatus());
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
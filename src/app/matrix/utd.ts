@@ -0,0 +1,116 @@
+import * as MatrixSDK from 'matrix-js-sdk';
+import {
+  loadUndecryptableEvents,
+  recordUndecryptableEvent,
+  resolveUndecryptableEvent,
+} from '../../server/db/undecryptable-events';
+import { EventRouter } from './events';
+
+export interface UtdRetryResult {
+  attempted: number;
+  resolved: number;
+}
+
+export class UtdQueue {
+  private client: MatrixSDK.MatrixClient;
+  private router: EventRouter;
+  private accountKey: string;
+  // event ID -> room ID for everything still waiting on keys
+  private pending = new Map<string, string>();
+  private retrying: Promise<UtdRetryResult> | null = null;
+
+  constructor(client: MatrixSDK.MatrixClient, router: EventRouter, accountKey: string) {
+    this.client = client;
+    this.router = router;
+    this.accountKey = accountKey;
+  }
+
+  public async start(): Promise<void> {
+    for (const utd of await loadUndecryptableEvents(this.accountKey)) {
+      this.pending.set(utd.eventId, utd.roomId);
+    }
+
+    this.client.on(MatrixSDK.MatrixEventEvent.Decrypted, this.onDecrypted);
+    this.client.on(MatrixSDK.Crypto.CryptoEvent.KeyBackupSessionsRemaining, this.onBackupProgress);
+  }
+
+  public stop(): void {
+    this.client.off(MatrixSDK.MatrixEventEvent.Decrypted, this.onDecrypted);
+    this.client.off(MatrixSDK.Crypto.CryptoEvent.KeyBackupSessionsRemaining, this.onBackupProgress);
+  }
+
+  public getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Refetches stored undecryptable events and tries to decrypt them again.
+   * Events the SDK still holds in memory are retried by the SDK itself when
+   * keys arrive; this covers events from before a restart or from backfill.
+   */
+  public retry(sessionIds?: string[]): Promise<UtdRetryResult> {
+    if (!this.retrying) {
+      this.retrying = this.retryPending(sessionIds).finally(() => {
+        this.retrying = null;
+      });
+    }
+    return this.retrying;
+  }
+
+  private async retryPending(sessionIds?: string[]): Promise<UtdRetryResult> {
+    const utds = await loadUndecryptableEvents(this.accountKey, sessionIds);
+    const mapEvent = this.client.getEventMapper({ decrypt: false });
+    let resolved = 0;
+
+    for (const utd of utds) {
+      try {
+        const raw = await this.client.fetchRoomEvent(utd.roomId, utd.eventId);
+        const event = mapEvent(raw);
+        await this.client.decryptEventIfNeeded(event, { emit: false });
+
+        if (event.isDecryptionFailure()) {
+          await recordUndecryptableEvent(utd.roomId, event);
+        } else {
+          await this.resolve(utd.roomId, event);
+          resolved++;
+        }
+      } catch (error) {
+        console.error(`Failed to retry decryption of ${utd.eventId}:`, error);
+      }
+    }
+
+    return { attempted: utds.length, resolved };
+  }
+
+  private async resolve(roomId: string, event: MatrixSDK.MatrixEvent): Promise<void> {
+    await this.router.dispatch(event, { roomId, client: this.client, source: 'utd' });
+    await resolveUndecryptableEvent(event.getId()!);
+    this.pending.delete(event.getId()!);
+  }
+
+  private onDecrypted = async (event: MatrixSDK.MatrixEvent, err?: Error): Promise<void> => {
+    const eventId = event.getId();
+    const roomId = event.getRoomId() ?? (eventId ? this.pending.get(eventId) : undefined);
+    if (!eventId || !roomId) return;
+
+    try {
+      if (err || event.isDecryptionFailure()) {
+        await recordUndecryptableEvent(roomId, event);
+        this.pending.set(eventId, roomId);
+      } else if (this.pending.has(eventId)) {
+        await this.resolve(roomId, event);
+      }
+    } catch (error) {
+      console.error(`Failed to update undecryptable event ${eventId}:`, error);
+    }
+  };
+
+  // key backup finished downloading, stored events from those sessions may now decrypt
+  private onBackupProgress = (remaining: number): void => {
+    if (remaining > 0 || this.pending.size === 0) return;
+
+    this.retry().catch((error) => {
+      console.error('Failed to retry undecryptable events:', error);
+    });
+  };
+}
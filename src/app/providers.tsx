@@ -6,7 +6,7 @@ import { NextUIProvider } from '@nextui-org/react'
 import { AuthState, UserProfile } from './types'
 
 type SyncState = {
-    status: 'syncing' | 'synced' | 'failed';
+    status: 'stopped' | 'syncing' | 'synced' | 'paused' | 'failed';
     progress: number;
     currentOperation: string;
     error?: string;
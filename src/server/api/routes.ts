@@ -1,17 +1,79 @@
-import { Router } from 'express';
-import { MatrixClient } from '../../app/matrix/client';
+import express, { Request, Router } from 'express';
+import { randomBytes } from 'crypto';
+import { rm } from 'fs/promises';
+import path from 'path';
+import { accountKey } from '../../app/matrix/accounts';
+import { SessionError, sessionRegistry } from '../../app/matrix/sessions';
+import { SyncTransitionError } from '../../app/matrix/sync-controller';
+import { streamChanges } from '../changes/stream';
+import { settingsPatchSchema } from '../config/schema';
+import { ConfigConflictError, ConfigValidationError, configStore } from '../config/store';
+import { accountRoomCondition } from '../db/accounts';
 import { pgPool } from '../db/client';
+import { getConfigVersion, listConfigVersions } from '../db/config';
+import {
+  getContact,
+  getContactForUser,
+  linkUnassignedParticipants,
+  listContacts,
+  mergeContacts,
+  splitContact,
+} from '../db/contacts';
+import { discardDeadLetter, getDeadLetter, listDeadLetters } from '../db/dead-letters';
+import {
+  cancelExportJob,
+  createExportJob,
+  deleteExportJob,
+  getExportJob,
+  listExportJobs,
+} from '../db/exports';
+import { getImport, listImports } from '../db/imports';
+import { getMedia, listMedia, retryMedia } from '../db/media';
+import { Migrator } from '../db/migrator';
+import { listSearchLanguages, searchMessages } from '../db/search';
+import { listSyncTransitions } from '../db/sync-transitions';
+import { summarizeUndecryptableEvents } from '../db/undecryptable-events';
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  listWebhookDeliveries,
+  listWebhooks,
+  redeliverWebhookDelivery,
+  rotateWebhookSecret,
+  updateWebhook,
+} from '../db/webhooks';
+import { writeBuffer } from '../db/write-buffer';
+import { exportWorker } from '../exports/worker';
+import { chatImporter } from '../imports/importer';
+import { ImportFormatError, parseImport, parseImportValue } from '../imports/parse';
+import { webhookHostError } from '../webhooks/targets';
 import { z } from 'zod';
-import { authenticateRequest } from '../middlware/auth';
+import { acceptQueryToken, authenticateRequest, generateTokens } from '../middlware/auth';
 
 const router = Router();
-let matrixClient: MatrixClient | null = null;
 
 const handleError = (res: any, error: any, status = 500) => {
   console.error(error);
   res.status(status).json({ error: error.message || 'An unknown error occurred' });
 };
 
+// every authenticated route works on the Matrix session of the account in the token
+const getSession = (req: Request) => {
+  const session = req.user ? sessionRegistry.get(req.user) : null;
+  if (!session) throw new SessionError('Sync manager not initialized', 400);
+  return session;
+};
+
+const errorStatus = (error: any) =>
+  error instanceof SessionError
+    ? error.status
+    : error instanceof SyncTransitionError || error instanceof ConfigConflictError
+      ? 409
+      : error instanceof z.ZodError || error instanceof ConfigValidationError
+        ? 400
+        : 500;
+
 const loginSchema = z.object({
   username: z.string(),
   password: z.string(),
@@ -22,74 +84,173 @@ const loginSchema = z.object({
 router.post('/auth/login', async (req, res) => {
   try {
     const { username, password, domain } = loginSchema.parse(req.body);
-    matrixClient = new MatrixClient({ username, password, domain });
-    const token = await matrixClient.initialize();
-    res.json({ success: true, token: token });
+    await sessionRegistry.login({ username, password, domain });
+    const { accessToken, refreshToken } = await generateTokens({ username, domain });
+    res.json({ success: true, token: accessToken, refreshToken });
   } catch (error: any) {
     console.error('Login error:', error);
-    res.status(500).json({ error: error.message });
+    res.status(errorStatus(error)).json({ error: error.message });
   }
 });
 
-router.post('/auth/logout', authenticateRequest, async (_req, res) => {
+router.post('/auth/logout', authenticateRequest, async (req, res) => {
   try {
-    if (matrixClient) {
-      matrixClient.logout();
-      res.json({ success: true });
-    }
-    res.json({ success: false });
+    const loggedOut = await sessionRegistry.logout(req.user!);
+    res.json({ success: loggedOut });
   } catch (error: any) {
     handleError(res, error);
   }
 });
 
-router.get('/auth/me', authenticateRequest, async (_req, res) => {
+router.get('/auth/me', authenticateRequest, async (req, res) => {
   try {
-    if (!matrixClient) throw new Error('Matrix client is not initialized.');
+    const session = getSession(req);
 
-    const userId = matrixClient.getClient()?.getUserId();
+    const userId = session.getClient()?.getUserId();
     if (!userId) throw new Error('User ID not found.');
 
-    const userData = await matrixClient.getUserProfile(userId);
+    const userData = await session.getUserProfile(userId);
 
     res.json(userData);
   } catch (error: any) {
-    handleError(res, error);
+    handleError(res, error, errorStatus(error));
   }
 });
 
+// the caller's own session only, others' user IDs and states are not theirs to see
+router.get('/sessions', authenticateRequest, async (req, res) => {
+  const key = accountKey(req.user!);
+  res.json(sessionRegistry.list().filter((session) => session.accountKey === key));
+});
+
 // Sync Routes
-router.get('/sync/status', authenticateRequest, async (_req, res) => {
-  if (!matrixClient) {
-    res.status(400).json({ error: 'Sync not initialized' });
-    return;
+const getSyncController = (req: Request) => {
+  const controller = req.user ? sessionRegistry.getController(req.user) : null;
+  if (!controller) throw new SessionError('Sync manager not initialized', 400);
+  return controller;
+};
+
+router.get('/sync/status', authenticateRequest, async (req, res) => {
+  res.json(sessionRegistry.syncStatus(req.user!));
+});
+
+router.post('/sync/start', authenticateRequest, async (req, res) => {
+  try {
+    await sessionRegistry.start(req.user!);
+    res.json(sessionRegistry.syncStatus(req.user!));
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
   }
-  res.json(matrixClient.getClient()?.getSyncStateData());
 });
 
-router.post('/sync/start', authenticateRequest, async (_req, res) => {
+router.post('/sync/stop', authenticateRequest, async (req, res) => {
   try {
-    if (!matrixClient) throw new Error('Sync manager not initialized');
-    res.json({ success: true });
+    const stopped = await sessionRegistry.stop(req.user!);
+    if (!stopped) throw new SessionError('Sync manager not initialized', 400);
+    res.json(sessionRegistry.syncStatus(req.user!));
   } catch (error: any) {
-    handleError(res, error);
+    handleError(res, error, errorStatus(error));
   }
 });
 
-router.post('/sync/stop', authenticateRequest, async (_req, res) => {
+router.post('/sync/pause', authenticateRequest, async (req, res) => {
   try {
-    if (!matrixClient) throw new Error('Sync manager not initialized');
-    await matrixClient.logout();
-    res.json({ success: true });
+    res.json(await getSyncController(req).pause());
   } catch (error: any) {
-    handleError(res, error);
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.post('/sync/resume', authenticateRequest, async (req, res) => {
+  try {
+    res.json(await getSyncController(req).resume());
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.post('/sync/retry', authenticateRequest, async (req, res) => {
+  try {
+    res.json(await getSyncController(req).retry());
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+const syncTransitionQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+router.get('/sync/transitions', authenticateRequest, async (req, res) => {
+  try {
+    res.json(
+      await listSyncTransitions(accountKey(req.user!), syncTransitionQuerySchema.parse(req.query))
+    );
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+const backfillSchema = z.object({
+  roomIds: z.array(z.string()).optional(),
+  since: z.string().datetime().optional(),
+  pageSize: z.number().int().positive().max(1000).optional(),
+});
+
+const getBackfillManager = (req: Request) => {
+  const manager = getSession(req).getBackfillManager();
+  if (!manager) throw new SessionError('Sync manager not initialized', 400);
+  return manager;
+};
+
+router.post('/sync/backfill/start', authenticateRequest, async (req, res) => {
+  try {
+    const { roomIds, since, pageSize } = backfillSchema.parse(req.body ?? {});
+    const progress = getBackfillManager(req).start({
+      roomIds,
+      cutoffTs: since ? new Date(since).getTime() : undefined,
+      pageSize,
+    });
+    res.json(progress);
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.get('/sync/backfill/progress', authenticateRequest, async (req, res) => {
+  try {
+    res.json(getBackfillManager(req).getProgress());
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.post('/sync/backfill/cancel', authenticateRequest, async (req, res) => {
+  try {
+    const cancelled = getBackfillManager(req).cancel();
+    res.json({ success: cancelled });
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
   }
 });
 
 // Data Routes
-router.get('/rooms', authenticateRequest, async (_req, res) => {
+router.get('/rooms', authenticateRequest, async (req, res) => {
   try {
-    const result = await pgPool.query('SELECT * FROM rooms ORDER BY last_message_timestamp DESC');
+    const { network } = req.query;
+    const params = [accountKey(req.user!)];
+    if (network) {
+      params.push(String(network));
+    }
+
+    const result = await pgPool.query(
+      `SELECT * FROM rooms
+       WHERE ${accountRoomCondition('id', 1)}
+       ${network ? 'AND network = $2' : ''}
+       ORDER BY last_message_timestamp DESC NULLS LAST`,
+      params
+    );
     res.json(result.rows);
   } catch (error: any) {
     handleError(res, error);
@@ -105,10 +266,10 @@ router.get('/rooms/:roomId', authenticateRequest, async (req, res) => {
     }
     const result = await pgPool.query(
       `SELECT r.*,
-        (SELECT json_agg(p.*) FROM participants p WHERE p.room_id = r.room_id) as participants
+        (SELECT json_agg(p.*) FROM participants p WHERE p.room_id = r.id) as participants
        FROM rooms r
-       WHERE r.room_id = $1`,
-      [roomId]
+       WHERE r.id = $1 AND ${accountRoomCondition('r.id', 2)}`,
+      [roomId, accountKey(req.user!)]
     );
     if (result.rows.length === 0) {
       res.status(404).json({ error: 'Room not found' });
@@ -123,18 +284,42 @@ router.get('/rooms/:roomId', authenticateRequest, async (req, res) => {
 router.get('/rooms/:roomId/messages', authenticateRequest, async (req, res) => {
   try {
     const { roomId } = req.params;
-    const { limit = 50, before } = req.query;
+    const { limit = 50, before, history } = req.query;
     if (!roomId) {
       res.status(400).json({ error: 'Room ID is required' });
       return;
     }
 
-    const params = [roomId, Number(limit)];
+    // content reflects the latest edit; history=true adds the original and every version
+    const includeHistory = history === 'true';
+
+    const params = [roomId, Number(limit), accountKey(req.user!)];
     let query = `
-      SELECT * FROM messages
-      WHERE room_id = $1
-      ${before ? 'AND timestamp < $3' : ''}
-      ORDER BY timestamp DESC
+      SELECT m.id, m.event_id, m.room_id, m.sender,
+        COALESCE(m.current_content, m.content) AS content,
+        m.event_type, m.timestamp, m.is_encrypted, m.relates_to, m.thread_root_id, m.error,
+        m.redaction_event_id, m.redacted_by, m.redacted_ts, m.redaction_reason,
+        m.last_edit_event_id, m.edited_ts, m.processed_at, ci.contact_id AS sender_contact_id
+        ${
+          includeHistory
+            ? `, m.content AS original_content,
+              (SELECT json_agg(json_build_object(
+                  'event_id', v.edit_event_id,
+                  'content', v.content,
+                  'timestamp', v.timestamp,
+                  'redacted', v.redacted
+                ) ORDER BY v.timestamp)
+               FROM message_versions v
+               WHERE v.original_event_id = m.event_id AND v.sender = m.sender) AS versions`
+            : ''
+        }
+      FROM messages m
+      LEFT JOIN contact_identities ci ON ci.user_id = m.sender
+      WHERE m.room_id = $1
+      AND ${accountRoomCondition('m.room_id', 3)}
+      AND m.relates_to->>'rel_type' IS DISTINCT FROM 'm.replace'
+      ${before ? 'AND m.timestamp < $4' : ''}
+      ORDER BY m.timestamp DESC
       LIMIT $2
     `;
 
@@ -149,9 +334,633 @@ router.get('/rooms/:roomId/messages', authenticateRequest, async (req, res) => {
   }
 });
 
-router.get('/users', authenticateRequest, async (_req, res) => {
+router.get('/rooms/:roomId/threads', authenticateRequest, async (req, res) => {
   try {
-    const result = await pgPool.query('SELECT * FROM users ORDER BY display_name');
+    const { roomId } = req.params;
+    const { limit = 50, before } = req.query;
+    if (!roomId) {
+      res.status(400).json({ error: 'Room ID is required' });
+      return;
+    }
+
+    const params: (string | number)[] = [roomId, Number(limit), accountKey(req.user!)];
+    if (before) {
+      params.push(Number(before));
+    }
+
+    const result = await pgPool.query(
+      `SELECT t.*,
+        json_build_object(
+          'event_id', m.event_id,
+          'sender', m.sender,
+          'content', COALESCE(m.current_content, m.content),
+          'timestamp', m.timestamp
+        ) AS root
+       FROM threads t
+       LEFT JOIN messages m ON m.event_id = t.root_event_id
+       WHERE t.room_id = $1 AND ${accountRoomCondition('t.room_id', 3)}
+       ${before ? 'AND t.last_reply_ts < $4' : ''}
+       ORDER BY t.last_reply_ts DESC NULLS LAST
+       LIMIT $2`,
+      params
+    );
+    res.json(result.rows);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+router.get('/threads/:rootEventId/messages', authenticateRequest, async (req, res) => {
+  try {
+    const { rootEventId } = req.params;
+    const { limit = 100, after } = req.query;
+    if (!rootEventId) {
+      res.status(400).json({ error: 'Root event ID is required' });
+      return;
+    }
+
+    const thread = await pgPool.query(
+      `SELECT * FROM threads t
+      WHERE t.root_event_id = $1 AND ${accountRoomCondition('t.room_id', 2)}`,
+      [rootEventId, accountKey(req.user!)]
+    );
+    if (thread.rows.length === 0) {
+      res.status(404).json({ error: 'Thread not found' });
+      return;
+    }
+
+    // the root comes first, followed by replies in chronological order
+    const params: (string | number)[] = [rootEventId, Number(limit), thread.rows[0].room_id];
+    if (after) {
+      params.push(Number(after));
+    }
+
+    const result = await pgPool.query(
+      `SELECT m.id, m.event_id, m.room_id, m.sender,
+        COALESCE(m.current_content, m.content) AS content,
+        m.event_type, m.timestamp, m.relates_to, m.thread_root_id,
+        m.redaction_event_id, m.last_edit_event_id, m.edited_ts
+       FROM messages m
+       WHERE (m.event_id = $1 OR m.thread_root_id = $1) AND m.room_id = $3
+       ${after ? 'AND m.timestamp > $4' : ''}
+       ORDER BY (m.event_id = $1) DESC, m.timestamp ASC
+       LIMIT $2`,
+      params
+    );
+
+    res.json({ ...thread.rows[0], messages: result.rows });
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+const mediaQuerySchema = z.object({
+  roomId: z.string().optional(),
+  eventId: z.string().optional(),
+  status: z
+    .enum(['pending', 'downloading', 'downloaded', 'skipped', 'failed', 'redacted'])
+    .optional(),
+  limit: z.coerce.number().int().positive().max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+router.get('/media', authenticateRequest, async (req, res) => {
+  try {
+    res.json(
+      await listMedia({ ...mediaQuerySchema.parse(req.query), accountKey: accountKey(req.user!) })
+    );
+  } catch (error: any) {
+    handleError(res, error, error instanceof z.ZodError ? 400 : 500);
+  }
+});
+
+router.get('/media/:mediaId/download', authenticateRequest, async (req, res) => {
+  try {
+    const media = await getMedia(req.params.mediaId as string, accountKey(req.user!));
+    if (!media || media.status !== 'downloaded' || !media.storagePath) {
+      res.status(404).json({ error: 'Media not found' });
+      return;
+    }
+
+    res.type(media.mimetype ?? 'application/octet-stream');
+    if (media.fileName) {
+      res.attachment(media.fileName);
+    }
+    res.sendFile(path.resolve(media.storagePath));
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+router.post('/media/:mediaId/retry', authenticateRequest, async (req, res) => {
+  try {
+    const media = await retryMedia(req.params.mediaId as string, accountKey(req.user!));
+    if (!media) {
+      res.status(404).json({ error: 'No failed or skipped media with this ID' });
+      return;
+    }
+    res.json(media);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+const deadLetterQuerySchema = z.object({
+  status: z.enum(['pending', 'replaying', 'failed', 'resolved', 'discarded']).optional(),
+  kind: z.enum(['event', 'room', 'participants']).optional(),
+  table: z.string().optional(),
+  roomId: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+router.get('/dead-letters', authenticateRequest, async (req, res) => {
+  try {
+    const { table, ...filters } = deadLetterQuerySchema.parse(req.query);
+    res.json(
+      await listDeadLetters({ ...filters, targetTable: table, accountKey: accountKey(req.user!) })
+    );
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.get('/dead-letters/:letterId', authenticateRequest, async (req, res) => {
+  try {
+    const letter = await getDeadLetter(req.params.letterId as string, accountKey(req.user!));
+    if (!letter) {
+      res.status(404).json({ error: 'Dead letter not found' });
+      return;
+    }
+    res.json(letter);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+// replays immediately, once the cause of the failure has been fixed
+router.post('/dead-letters/:letterId/replay', authenticateRequest, async (req, res) => {
+  try {
+    const queue = getSession(req).getDeadLetterQueue();
+    if (!queue) throw new SessionError('Sync manager not initialized', 400);
+
+    const letter = await queue.replay(req.params.letterId as string);
+    if (!letter) {
+      res.status(404).json({ error: 'No pending or failed dead letter with this ID' });
+      return;
+    }
+    res.json(letter);
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.post('/dead-letters/:letterId/discard', authenticateRequest, async (req, res) => {
+  try {
+    const letter = await discardDeadLetter(req.params.letterId as string, accountKey(req.user!));
+    if (!letter) {
+      res.status(404).json({ error: 'No pending or failed dead letter with this ID' });
+      return;
+    }
+    res.json(letter);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+// Search Routes
+
+const searchQuerySchema = z
+  .object({
+    q: z.string().trim().min(1),
+    language: z.string().default('simple'),
+    roomId: z.string().optional(),
+    sender: z.string().optional(),
+    network: z.string().optional(),
+    // ISO dates or epoch milliseconds
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    sort: z.enum(['rank', 'recent']).default('rank'),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+  })
+  .transform(({ q, from, to, ...filters }) => ({
+    ...filters,
+    query: q,
+    fromTs: from?.getTime(),
+    toTs: to?.getTime(),
+  }));
+
+router.get('/search', authenticateRequest, async (req, res) => {
+  try {
+    const search = searchQuerySchema.parse(req.query);
+
+    const languages = await listSearchLanguages();
+    if (!languages.includes(search.language)) {
+      res
+        .status(400)
+        .json({ error: `Unsupported language, expected one of: ${languages.join(', ')}` });
+      return;
+    }
+
+    res.json(await searchMessages({ ...search, accountKey: accountKey(req.user!) }));
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.get('/search/languages', authenticateRequest, async (_req, res) => {
+  try {
+    res.json(await listSearchLanguages());
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+// Export Routes
+
+const exportSchema = z
+  .object({
+    format: z.enum(['jsonl', 'csv', 'html']),
+    roomIds: z.array(z.string()).min(1).optional(),
+    network: z.string().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .transform(({ format, from, to, ...filters }) => ({
+    format,
+    filters: { ...filters, fromTs: from?.getTime(), toTs: to?.getTime() },
+  }));
+
+const exportQuerySchema = z.object({
+  status: z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']).optional(),
+  limit: z.coerce.number().int().positive().max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const EXPORT_CONTENT_TYPES = {
+  jsonl: 'application/x-ndjson',
+  csv: 'text/csv',
+  html: 'text/html',
+};
+
+// queued and run in the background; poll the job for progress
+router.post('/exports', authenticateRequest, async (req, res) => {
+  try {
+    const { format, filters } = exportSchema.parse(req.body);
+    const job = await createExportJob({ accountKey: accountKey(req.user!), format, filters });
+    exportWorker.tick();
+    res.status(202).json(job);
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.get('/exports', authenticateRequest, async (req, res) => {
+  try {
+    res.json(
+      await listExportJobs({
+        ...exportQuerySchema.parse(req.query),
+        accountKey: accountKey(req.user!),
+      })
+    );
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.get('/exports/:exportId', authenticateRequest, async (req, res) => {
+  try {
+    const job = await getExportJob(req.params.exportId as string, accountKey(req.user!));
+    if (!job) {
+      res.status(404).json({ error: 'Export not found' });
+      return;
+    }
+    res.json(job);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+router.get('/exports/:exportId/download', authenticateRequest, async (req, res) => {
+  try {
+    const job = await getExportJob(req.params.exportId as string, accountKey(req.user!));
+    if (!job || job.status !== 'completed' || !job.filePath) {
+      res.status(404).json({ error: 'No completed export with this ID' });
+      return;
+    }
+
+    res.type(EXPORT_CONTENT_TYPES[job.format]);
+    res.attachment(`matrix-export-${job.id}.${job.format}`);
+    res.sendFile(path.resolve(job.filePath));
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+router.post('/exports/:exportId/cancel', authenticateRequest, async (req, res) => {
+  try {
+    const job = await cancelExportJob(req.params.exportId as string, accountKey(req.user!));
+    if (!job) {
+      res.status(404).json({ error: 'No pending or running export with this ID' });
+      return;
+    }
+    res.json(job);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+router.delete('/exports/:exportId', authenticateRequest, async (req, res) => {
+  try {
+    const job = await deleteExportJob(req.params.exportId as string, accountKey(req.user!));
+    if (!job) {
+      res.status(404).json({ error: 'No finished export with this ID' });
+      return;
+    }
+    if (job.filePath) {
+      await rm(job.filePath, { force: true });
+    }
+    res.json(job);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+// Import Routes
+
+const IMPORT_MAX_BYTES = Number(process.env.IMPORT_MAX_BYTES) || 512 * 1024 * 1024;
+
+const importQuerySchema = z.object({
+  fileName: z.string().optional(),
+  // for Element exports whose events do not carry a room_id
+  roomId: z.string().optional(),
+});
+
+const importListSchema = z.object({
+  limit: z.coerce.number().int().positive().max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// the file is the request body; send it as application/octet-stream or application/x-ndjson,
+// application/json bodies are limited by the global JSON parser
+router.post(
+  '/imports',
+  authenticateRequest,
+  express.raw({
+    type: ['application/octet-stream', 'application/x-ndjson'],
+    limit: IMPORT_MAX_BYTES,
+  }),
+  async (req, res) => {
+    try {
+      const { fileName, roomId } = importQuerySchema.parse(req.query);
+      const parsed = Buffer.isBuffer(req.body)
+        ? parseImport(req.body.toString('utf8'), { roomId })
+        : parseImportValue(req.body, { roomId });
+
+      const record = await chatImporter.begin(parsed, {
+        accountKey: accountKey(req.user!),
+        fileName: fileName ?? null,
+      });
+      chatImporter.run(record, parsed).catch((error) => {
+        console.error(`Import ${record.id} failed:`, error);
+      });
+
+      res.status(202).json(record);
+    } catch (error: any) {
+      handleError(res, error, error instanceof ImportFormatError ? 400 : errorStatus(error));
+    }
+  }
+);
+
+router.get('/imports', authenticateRequest, async (req, res) => {
+  try {
+    res.json(
+      await listImports({ ...importListSchema.parse(req.query), accountKey: accountKey(req.user!) })
+    );
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.get('/imports/:importId', authenticateRequest, async (req, res) => {
+  try {
+    const record = await getImport(req.params.importId as string, accountKey(req.user!));
+    if (!record) {
+      res.status(404).json({ error: 'Import not found' });
+      return;
+    }
+    res.json(record);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+// Webhook Routes
+
+const webhookUrl = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//.test(url), 'Webhook URLs must use http or https')
+  .superRefine((url, ctx) => {
+    const error = webhookHostError(url);
+    if (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Webhook URLs must not reach internal hosts: ${error}; see WEBHOOK_ALLOWED_HOSTS`,
+      });
+    }
+  });
+
+// null or omitted matches every value
+const webhookFilter = z.array(z.string().min(1)).min(1).nullable().optional();
+
+const webhookSchema = z.object({
+  url: webhookUrl,
+  description: z.string().max(500).nullable().optional(),
+  eventTypes: webhookFilter,
+  roomIds: webhookFilter,
+  senders: webhookFilter,
+});
+
+const webhookUpdateSchema = webhookSchema.partial().extend({ enabled: z.boolean().optional() });
+
+const webhookDeliveryQuerySchema = z.object({
+  status: z.enum(['pending', 'delivering', 'delivered', 'failed']).optional(),
+  limit: z.coerce.number().int().positive().max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const generateWebhookSecret = () => randomBytes(32).toString('hex');
+
+router.get('/webhooks', authenticateRequest, async (req, res) => {
+  try {
+    res.json(await listWebhooks(accountKey(req.user!)));
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+// the response is the only time the signing secret is shown, apart from rotating it
+router.post('/webhooks', authenticateRequest, async (req, res) => {
+  try {
+    const { url, description, ...filters } = webhookSchema.parse(req.body);
+    const secret = generateWebhookSecret();
+    const webhook = await createWebhook({
+      accountKey: accountKey(req.user!),
+      url,
+      secret,
+      description: description ?? null,
+      filters: {
+        eventTypes: filters.eventTypes ?? null,
+        roomIds: filters.roomIds ?? null,
+        senders: filters.senders ?? null,
+      },
+    });
+    res.status(201).json({ ...webhook, secret });
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.get('/webhooks/:webhookId', authenticateRequest, async (req, res) => {
+  try {
+    const webhook = await getWebhook(req.params.webhookId as string, accountKey(req.user!));
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.json(webhook);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+router.patch('/webhooks/:webhookId', authenticateRequest, async (req, res) => {
+  try {
+    const webhook = await updateWebhook(
+      req.params.webhookId as string,
+      accountKey(req.user!),
+      webhookUpdateSchema.parse(req.body)
+    );
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.json(webhook);
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.delete('/webhooks/:webhookId', authenticateRequest, async (req, res) => {
+  try {
+    if (!(await deleteWebhook(req.params.webhookId as string, accountKey(req.user!)))) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.status(204).end();
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+router.post('/webhooks/:webhookId/rotate-secret', authenticateRequest, async (req, res) => {
+  try {
+    const secret = generateWebhookSecret();
+    const webhook = await rotateWebhookSecret(
+      req.params.webhookId as string,
+      accountKey(req.user!),
+      secret
+    );
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.json({ ...webhook, secret });
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+router.get('/webhooks/:webhookId/deliveries', authenticateRequest, async (req, res) => {
+  try {
+    res.json(
+      await listWebhookDeliveries({
+        ...webhookDeliveryQuerySchema.parse(req.query),
+        webhookId: req.params.webhookId as string,
+        accountKey: accountKey(req.user!),
+      })
+    );
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.post(
+  '/webhooks/:webhookId/deliveries/:deliveryId/redeliver',
+  authenticateRequest,
+  async (req, res) => {
+    try {
+      const delivery = await redeliverWebhookDelivery(
+        req.params.deliveryId as string,
+        req.params.webhookId as string,
+        accountKey(req.user!)
+      );
+      if (!delivery) {
+        res.status(404).json({ error: 'No delivered or failed delivery with this ID' });
+        return;
+      }
+      res.json(delivery);
+    } catch (error: any) {
+      handleError(res, error);
+    }
+  }
+);
+
+// Event Stream Routes
+
+const stringList = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value : value.split(',')).filter(Boolean));
+
+const eventStreamQuerySchema = z.object({
+  roomId: stringList.optional(),
+  entity: stringList.pipe(z.array(z.enum(['message', 'room', 'participant']))).optional(),
+  // for clients that cannot set Last-Event-ID on their first request
+  lastEventId: z.coerce.number().int().min(0).optional(),
+});
+
+router.get('/events/stream', acceptQueryToken, authenticateRequest, async (req, res) => {
+  try {
+    const query = eventStreamQuerySchema.parse(req.query);
+    const lastEventId = req.header('Last-Event-ID');
+    const afterSeq = lastEventId
+      ? z.coerce.number().int().min(0).parse(lastEventId)
+      : (query.lastEventId ?? null);
+
+    await streamChanges(
+      res,
+      { accountKey: accountKey(req.user!), roomIds: query.roomId, entities: query.entity },
+      afterSeq
+    );
+  } catch (error: any) {
+    if (res.headersSent) return;
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.get('/users', authenticateRequest, async (req, res) => {
+  try {
+    const result = await pgPool.query(
+      `SELECT u.* FROM users u
+      WHERE EXISTS (
+        SELECT 1 FROM participants p
+        WHERE p.user_id = u.user_id AND ${accountRoomCondition('p.room_id', 1)}
+      )
+      ORDER BY u.display_name`,
+      [accountKey(req.user!)]
+    );
     res.json(result.rows);
   } catch (error: any) {
     handleError(res, error);
@@ -168,17 +977,135 @@ router.get('/users/:userId', authenticateRequest, async (req, res) => {
     const result = await pgPool.query(
       `SELECT u.*,
         (SELECT json_agg(r.*) FROM rooms r
-         INNER JOIN participants p ON p.room_id = r.room_id
-         WHERE p.user_id = u.user_id) as rooms
+         INNER JOIN participants p ON p.room_id = r.id
+         WHERE p.user_id = u.user_id AND ${accountRoomCondition('r.id', 2)}) as rooms
        FROM users u
        WHERE u.user_id = $1`,
-      [userId]
+      [userId, accountKey(req.user!)]
     );
-    if (result.rows.length === 0) {
+    if (result.rows.length === 0 || !result.rows[0].rooms) {
       res.status(404).json({ error: 'User not found' });
       return;
     }
-    res.json(result.rows[0]);
+    res.json({
+      ...result.rows[0],
+      contact: await getContactForUser(userId, accountKey(req.user!)),
+    });
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+// Contact Routes
+
+const contactQuerySchema = z.object({
+  search: z.string().optional(),
+  network: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+router.get('/contacts', authenticateRequest, async (req, res) => {
+  try {
+    res.json(
+      await listContacts({
+        ...contactQuerySchema.parse(req.query),
+        accountKey: accountKey(req.user!),
+      })
+    );
+  } catch (error: any) {
+    handleError(res, error, error instanceof z.ZodError ? 400 : 500);
+  }
+});
+
+router.get('/contacts/:contactId', authenticateRequest, async (req, res) => {
+  try {
+    const contact = await getContact(req.params.contactId as string, accountKey(req.user!));
+    if (!contact) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+    res.json(contact);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+// messages sent by any of the contact's Matrix IDs, across all networks
+router.get('/contacts/:contactId/messages', authenticateRequest, async (req, res) => {
+  try {
+    const { limit = 50, before } = req.query;
+    const params = [req.params.contactId, Number(limit), accountKey(req.user!)];
+    const query = `
+      SELECT m.id, m.event_id, m.room_id, m.sender,
+        COALESCE(m.current_content, m.content) AS content,
+        m.event_type, m.timestamp, m.is_encrypted, m.relates_to, m.thread_root_id,
+        m.redaction_event_id, m.last_edit_event_id, m.edited_ts, ci.network
+      FROM messages m
+      INNER JOIN contact_identities ci ON ci.user_id = m.sender
+      WHERE ci.contact_id = $1
+      AND ${accountRoomCondition('m.room_id', 3)}
+      AND m.relates_to->>'rel_type' IS DISTINCT FROM 'm.replace'
+      ${before ? 'AND m.timestamp < $4' : ''}
+      ORDER BY m.timestamp DESC
+      LIMIT $2
+    `;
+
+    if (before) {
+      params.push(before as string);
+    }
+
+    const result = await pgPool.query(query, params);
+    res.json(result.rows);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+const mergeContactsSchema = z.object({
+  targetId: z.string().uuid(),
+  sourceIds: z.array(z.string().uuid()).min(1),
+});
+
+router.post('/contacts/merge', authenticateRequest, async (req, res) => {
+  try {
+    const { targetId, sourceIds } = mergeContactsSchema.parse(req.body);
+    const contact = await mergeContacts(targetId, sourceIds, accountKey(req.user!));
+    if (!contact) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+    res.json(contact);
+  } catch (error: any) {
+    handleError(res, error, error instanceof z.ZodError ? 400 : 500);
+  }
+});
+
+const splitContactSchema = z.object({
+  userIds: z.array(z.string()).min(1),
+});
+
+router.post('/contacts/:contactId/split', authenticateRequest, async (req, res) => {
+  try {
+    const { userIds } = splitContactSchema.parse(req.body);
+    const contact = await splitContact(
+      req.params.contactId as string,
+      userIds,
+      accountKey(req.user!)
+    );
+    if (!contact) {
+      res.status(404).json({ error: 'None of these users belong to the contact' });
+      return;
+    }
+    res.json(contact);
+  } catch (error: any) {
+    handleError(res, error, error instanceof z.ZodError ? 400 : 500);
+  }
+});
+
+router.post('/contacts/rebuild', authenticateRequest, async (_req, res) => {
+  try {
+    res.json({ linked: await linkUnassignedParticipants() });
   } catch (error: any) {
     handleError(res, error);
   }
@@ -201,38 +1128,98 @@ export const exportKeysSchema = z
   })
   .strict();
 
-router.get('/crypto/status', authenticateRequest, async (_req, res) => {
+router.get('/crypto/status', authenticateRequest, async (req, res) => {
   try {
-    const status = await matrixClient?.getCryptoStatus();
+    const session = req.user ? sessionRegistry.get(req.user) : null;
+    const status = await session?.getCryptoStatus();
     res.json(status);
   } catch (error: any) {
     handleError(res, error);
   }
 });
 
+router.get('/crypto/utd', authenticateRequest, async (req, res) => {
+  try {
+    res.json(await summarizeUndecryptableEvents(accountKey(req.user!)));
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
+const utdRetrySchema = z.object({
+  sessionIds: z.array(z.string()).optional(),
+});
+
+router.post('/crypto/utd/retry', authenticateRequest, async (req, res) => {
+  try {
+    const { sessionIds } = utdRetrySchema.parse(req.body ?? {});
+    const queue = getSession(req).getUtdQueue();
+    if (!queue) throw new SessionError('Sync manager not initialized', 400);
+    res.json(await queue.retry(sessionIds));
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
 // Stats Routes
-router.get('/stats', authenticateRequest, async (_req, res) => {
+router.get('/stats', authenticateRequest, async (req, res) => {
   try {
-    const stats = await pgPool.query(`
-      SELECT
-        (SELECT COUNT(*) FROM rooms) as total_rooms,
-        (SELECT COUNT(*) FROM messages) as total_messages,
+    const key = accountKey(req.user!);
+    const stats = await pgPool.query(
+      `SELECT
+        (SELECT COUNT(*) FROM rooms r WHERE ${accountRoomCondition('r.id', 1)}) as total_rooms,
+        (SELECT COUNT(*) FROM messages m
+         WHERE ${accountRoomCondition('m.room_id', 1)}) as total_messages,
         (SELECT last_sync
          FROM sync_status
+         WHERE account_key = $1
          ORDER BY created_at DESC
-         LIMIT 1) as last_sync
-    `);
+         LIMIT 1) as last_sync`,
+      [key]
+    );
+
+    const networks = await pgPool.query(
+      `SELECT
+        COALESCE(r.network, 'unknown') as network,
+        COUNT(DISTINCT r.id) as total_rooms,
+        COUNT(m.id) as total_messages
+      FROM rooms r
+      LEFT JOIN messages m ON m.room_id = r.id
+      WHERE ${accountRoomCondition('r.id', 1)}
+      GROUP BY COALESCE(r.network, 'unknown')
+      ORDER BY total_messages DESC`,
+      [key]
+    );
 
     res.json({
       totalRooms: parseInt(stats.rows[0].total_rooms),
       totalMessages: parseInt(stats.rows[0].total_messages),
       lastSync: stats.rows[0].last_sync,
+      networks: networks.rows.map((row) => ({
+        network: row.network,
+        totalRooms: parseInt(row.total_rooms),
+        totalMessages: parseInt(row.total_messages),
+      })),
     });
   } catch (error: any) {
     handleError(res, error);
   }
 });
 
+// queue depth, flush latency and backpressure of the ingestion write buffer
+router.get('/stats/ingest', authenticateRequest, async (_req, res) => {
+  res.json(writeBuffer.getMetrics());
+});
+
+// applied, pending and modified schema migrations
+router.get('/db/migrations', authenticateRequest, async (_req, res) => {
+  try {
+    res.json(await new Migrator(pgPool).status());
+  } catch (error: any) {
+    handleError(res, error);
+  }
+});
+
 router.get('/logs', authenticateRequest, async (req, res) => {
   try {
     const { limit = 100 } = req.query;
@@ -246,32 +1233,94 @@ router.get('/logs', authenticateRequest, async (req, res) => {
 });
 
 // Config Routes
+
+const configUpdateSchema = z.object({
+  settings: settingsPatchSchema,
+  comment: z.string().max(500).optional(),
+  // the version the change was made against, to refuse it if someone saved in between
+  version: z.number().int().min(0).optional(),
+});
+
+const configRestoreSchema = configUpdateSchema.omit({ settings: true });
+
+const configVersionQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
 router.get('/config', authenticateRequest, async (_req, res) => {
+  res.json(configStore.snapshot());
+});
+
+// the posted settings are merged into the saved ones
+router.post('/config', authenticateRequest, async (req, res) => {
   try {
-    const result = await pgPool.query('SELECT * FROM config LIMIT 1');
-    if (result.rows.length === 0) {
-      res.status(404).json({ error: 'Config not found' });
+    const { settings, comment, version } = configUpdateSchema.parse(req.body);
+    res.json(
+      await configStore.update(settings, {
+        changedBy: accountKey(req.user!),
+        comment,
+        expectedVersion: version,
+      })
+    );
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+// settings left out go back to their defaults
+router.put('/config', authenticateRequest, async (req, res) => {
+  try {
+    const { settings, comment, version } = configUpdateSchema.parse(req.body);
+    res.json(
+      await configStore.replace(settings, {
+        changedBy: accountKey(req.user!),
+        comment,
+        expectedVersion: version,
+      })
+    );
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.get('/config/versions', authenticateRequest, async (req, res) => {
+  try {
+    res.json(await listConfigVersions(configVersionQuerySchema.parse(req.query)));
+  } catch (error: any) {
+    handleError(res, error, errorStatus(error));
+  }
+});
+
+router.get('/config/versions/:version', authenticateRequest, async (req, res) => {
+  try {
+    const version = await getConfigVersion(z.coerce.number().int().parse(req.params.version));
+    if (!version) {
+      res.status(404).json({ error: 'Config version not found' });
       return;
     }
-    res.json(result.rows[0]);
+    res.json(version);
   } catch (error: any) {
-    handleError(res, error);
+    handleError(res, error, errorStatus(error));
   }
 });
 
-router.post('/config', authenticateRequest, async (req, res) => {
+// saves the settings of an earlier version as the next one
+router.post('/config/versions/:version/restore', authenticateRequest, async (req, res) => {
   try {
-    if (!req.body) {
-      res.status(400).json({ error: 'Request body is required' });
+    const { comment, version: expectedVersion } = configRestoreSchema.parse(req.body ?? {});
+    const snapshot = await configStore.restore(z.coerce.number().int().parse(req.params.version), {
+      changedBy: accountKey(req.user!),
+      comment,
+      expectedVersion,
+    });
+    if (!snapshot) {
+      res.status(404).json({ error: 'Config version not found' });
       return;
     }
-    const result = await pgPool.query(
-      'INSERT INTO config ($1) VALUES ($2) ON CONFLICT DO UPDATE SET $1 = $2 RETURNING *',
-      [Object.keys(req.body), Object.values(req.body)]
-    );
-    res.json(result.rows[0]);
+    res.json(snapshot);
   } catch (error: any) {
-    handleError(res, error);
+    handleError(res, error, errorStatus(error));
   }
 });
 
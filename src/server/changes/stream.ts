@@ -0,0 +1,243 @@
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import pg from 'pg';
+import { configStore } from '@/server/config/store';
+import { changeLogBounds, loadChanges, pruneChangeLog, sequenceChanges } from '@/server/db/changes';
+import { onShutdown, pgPool } from '@/server/db/client';
+import { ArchiveChange, ChangeFilter } from '@/server/types';
+
+export interface ChangeStreamOptions {
+  // fallback for notifications lost while the listening connection was down
+  pollIntervalMs?: number;
+  batchSize?: number;
+}
+
+const CHANGE_CHANNEL = 'archive_changes';
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+// a subscriber this far behind is disconnected and resumes from its last event ID
+const MAX_BUFFERED_BYTES = 4 * 1024 * 1024;
+
+export function matchesChangeFilter(change: ArchiveChange, filter: ChangeFilter): boolean {
+  return (
+    (!filter.roomIds?.length || filter.roomIds.includes(change.roomId)) &&
+    (!filter.entities?.length || filter.entities.includes(change.entity))
+  );
+}
+
+/**
+ * Tails `change_log`, which triggers on messages, rooms and participants fill
+ * in. Notifications on `archive_changes` wake it up; it numbers the committed
+ * changes and emits each as `change`, in sequence order.
+ */
+export class ChangeStream extends EventEmitter {
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private active: Promise<void> | null = null;
+  // a notification arrived while a batch was running
+  private rerun = false;
+  private listener: pg.PoolClient | null = null;
+  private lastSeq = 0;
+  private lastPruned = 0;
+
+  constructor(opts: ChangeStreamOptions = {}) {
+    super();
+    // one listener per open stream
+    this.setMaxListeners(0);
+    this.pollIntervalMs = opts.pollIntervalMs ?? 1_000;
+    this.batchSize = opts.batchSize ?? 500;
+  }
+
+  public async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.lastSeq = (await changeLogBounds()).latest;
+    await this.listen();
+    this.timer = setInterval(() => this.tick(), this.pollIntervalMs);
+  }
+
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.active;
+    await this.unlisten();
+  }
+
+  // the last sequence number emitted; a new stream without Last-Event-ID starts here
+  public currentSeq(): number {
+    return this.lastSeq;
+  }
+
+  private async listen(): Promise<void> {
+    const listener = await pgPool.connect();
+    listener.on('notification', () => this.tick());
+    listener.on('error', (error) => {
+      console.error('Change stream listener failed, falling back to polling:', error);
+      if (this.listener === listener) this.listener = null;
+      listener.release(error);
+    });
+
+    await listener.query(`LISTEN ${CHANGE_CHANNEL}`);
+    this.listener = listener;
+  }
+
+  private async unlisten(): Promise<void> {
+    const listener = this.listener;
+    this.listener = null;
+    if (!listener) return;
+
+    await listener.query(`UNLISTEN ${CHANGE_CHANNEL}`).catch(() => undefined);
+    listener.release();
+  }
+
+  private tick(): void {
+    if (this.active) {
+      this.rerun = true;
+      return;
+    }
+
+    this.active = this.processBatch()
+      .catch((error) => console.error('Change stream failed:', error))
+      .finally(() => {
+        this.active = null;
+        if (this.rerun && this.timer) {
+          this.rerun = false;
+          this.tick();
+        }
+      });
+  }
+
+  private async processBatch(): Promise<void> {
+    if (!this.listener && this.timer) {
+      await this.listen().catch((error) => {
+        console.error('Failed to listen for archive changes:', error);
+      });
+    }
+
+    if (Date.now() - this.lastPruned > PRUNE_INTERVAL_MS) {
+      this.lastPruned = Date.now();
+      await pruneChangeLog(configStore.get().retention.changeLogDays);
+    }
+
+    let sequenced: number;
+    let changes: ArchiveChange[];
+    do {
+      sequenced = await sequenceChanges(this.batchSize);
+      changes = await loadChanges(this.lastSeq, {}, this.batchSize);
+
+      for (const change of changes) {
+        this.lastSeq = change.seq;
+        this.emit('change', change);
+      }
+    } while (this.timer && (sequenced === this.batchSize || changes.length === this.batchSize));
+  }
+}
+
+export const changeStream = new ChangeStream();
+
+onShutdown(() => changeStream.stop());
+
+function writeChange(res: Response, change: ArchiveChange): void {
+  res.write(`id: ${change.seq}\nevent: ${change.entity}.${change.kind}\n`);
+  res.write(`data: ${JSON.stringify(change)}\n\n`);
+}
+
+/**
+ * Serves matching changes to one SSE client: first the ones after
+ * `afterSeq` from the log, then live ones as they are sequenced. Live changes
+ * are read back from the log too, since which rooms belong to the account is
+ * only known there; a change that arrives during a read starts another one
+ * after it, so none is missed or sent twice.
+ */
+export async function streamChanges(
+  res: Response,
+  filter: ChangeFilter,
+  afterSeq: number | null
+): Promise<void> {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 5000\n\n');
+
+  let cursor = afterSeq ?? changeStream.currentSeq();
+  let closed = false;
+  let reading: Promise<void> | null = null;
+  let readAgain = false;
+
+  const send = (change: ArchiveChange) => {
+    if (closed || change.seq <= cursor) return;
+    cursor = change.seq;
+    writeChange(res, change);
+
+    if (res.writableLength > MAX_BUFFERED_BYTES) {
+      closed = true;
+      res.end();
+    }
+  };
+
+  const readLog = async () => {
+    let page: ArchiveChange[];
+    do {
+      page = await loadChanges(cursor, filter, 500);
+      page.forEach(send);
+    } while (!closed && page.length === 500);
+  };
+
+  const read = (): Promise<void> => {
+    if (reading) {
+      readAgain = true;
+      return reading;
+    }
+
+    readAgain = false;
+    reading = readLog()
+      .catch((error) => {
+        console.error('Failed to read archive changes:', error);
+        closed = true;
+        res.end();
+      })
+      .finally(() => {
+        reading = null;
+        if (readAgain && !closed) read();
+      });
+    return reading;
+  };
+
+  const onChange = (change: ArchiveChange) => {
+    if (!closed && change.seq > cursor && matchesChangeFilter(change, filter)) read();
+  };
+
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(': ping\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  changeStream.on('change', onChange);
+  res.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+    changeStream.off('change', onChange);
+  });
+
+  if (afterSeq !== null) {
+    try {
+      const { oldest } = await changeLogBounds();
+      // the changes right after the client's last one were pruned, it has to start over
+      if (oldest !== null && afterSeq < oldest - 1) {
+        res.write(`event: stream.reset\ndata: ${JSON.stringify({ oldestSeq: oldest })}\n\n`);
+      }
+    } catch (error: any) {
+      console.error('Failed to replay archive changes:', error);
+      closed = true;
+      res.end();
+      return;
+    }
+  }
+
+  await read();
+}
@@ -0,0 +1,78 @@
+import {
+  DEFAULT_SETTINGS,
+  flattenSettings,
+  mergeSettings,
+  settingsPatchSchema,
+  settingsSchema,
+} from './schema';
+
+describe('settingsSchema', () => {
+  it('accepts the defaults', () => {
+    expect(settingsSchema.parse(DEFAULT_SETTINGS)).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('rejects unknown keys and out of range values', () => {
+    expect(settingsSchema.safeParse({ ...DEFAULT_SETTINGS, extra: true }).success).toBe(false);
+    expect(
+      settingsSchema.safeParse({ ...DEFAULT_SETTINGS, sync: { initialSyncLimit: 0 } }).success
+    ).toBe(false);
+    expect(
+      settingsSchema.safeParse({
+        ...DEFAULT_SETTINGS,
+        media: { ...DEFAULT_SETTINGS.media, kinds: ['video'] },
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe('settingsPatchSchema', () => {
+  it('accepts a partial section', () => {
+    expect(settingsPatchSchema.parse({ backfill: { pageSize: 50 } })).toEqual({
+      backfill: { pageSize: 50 },
+    });
+  });
+
+  it('rejects unknown sections and keys', () => {
+    expect(settingsPatchSchema.safeParse({ webhooks: {} }).success).toBe(false);
+    expect(settingsPatchSchema.safeParse({ media: { maxSize: 1 } }).success).toBe(false);
+  });
+});
+
+describe('mergeSettings', () => {
+  it('merges sections and replaces lists', () => {
+    const merged = mergeSettings(DEFAULT_SETTINGS, {
+      backfill: { maxAgeDays: 30 },
+      media: { kinds: ['file'] },
+    });
+
+    expect(merged.backfill).toEqual({ maxAgeDays: 30, pageSize: 100 });
+    expect(merged.media).toEqual({ ...DEFAULT_SETTINGS.media, kinds: ['file'] });
+    expect(merged.sync).toEqual(DEFAULT_SETTINGS.sync);
+  });
+
+  it('sets a value to null but skips undefined ones', () => {
+    const base = mergeSettings(DEFAULT_SETTINGS, { backfill: { maxAgeDays: 30 } });
+    const merged = mergeSettings(base, { backfill: { maxAgeDays: null, pageSize: undefined } });
+
+    expect(merged.backfill).toEqual({ maxAgeDays: null, pageSize: 100 });
+  });
+
+  it('leaves the base untouched', () => {
+    const base = structuredClone(DEFAULT_SETTINGS);
+    mergeSettings(base, { sync: { initialSyncLimit: 10 } });
+
+    expect(base).toEqual(DEFAULT_SETTINGS);
+  });
+});
+
+describe('flattenSettings', () => {
+  it('lists every setting by its dotted path', () => {
+    const flat = flattenSettings(DEFAULT_SETTINGS);
+
+    expect(flat.get('sync.initialSyncLimit')).toBe(50);
+    expect(flat.get('rooms.includeRoomIds')).toEqual([]);
+    expect(flat.get('backfill.maxAgeDays')).toBeNull();
+    expect(flat.has('rooms')).toBe(false);
+    expect(flat.size).toBe(12);
+  });
+});
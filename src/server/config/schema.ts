@@ -0,0 +1,97 @@
+import { z } from 'zod';
+
+const sections = {
+  sync: z
+    .object({
+      // timeline events per room in the first sync of a new device
+      initialSyncLimit: z.number().int().min(1).max(1000),
+    })
+    .strict(),
+  // a room is archived if it matches an include rule, or there are none, and no exclude rule
+  rooms: z
+    .object({
+      includeRoomIds: z.array(z.string()),
+      includeNetworks: z.array(z.string()),
+      excludeRoomIds: z.array(z.string()),
+      excludeNetworks: z.array(z.string()),
+    })
+    .strict(),
+  backfill: z
+    .object({
+      // history older than this is not fetched unless a backfill asks for it; null fetches all of it
+      maxAgeDays: z.number().int().positive().nullable(),
+      pageSize: z.number().int().positive().max(1000),
+    })
+    .strict(),
+  media: z
+    .object({
+      // pending media waits while downloads are off
+      download: z.boolean(),
+      maxBytes: z.number().int().positive(),
+      kinds: z.array(z.enum(['file', 'thumbnail', 'avatar'])),
+    })
+    .strict(),
+  retention: z
+    .object({
+      changeLogDays: z.number().int().positive(),
+      webhookDeliveryDays: z.number().int().positive(),
+    })
+    .strict(),
+};
+
+export const settingsSchema = z.object(sections).strict();
+
+// any subset of the settings; lists are replaced, not merged
+export const settingsPatchSchema = z
+  .object({
+    sync: sections.sync.partial().optional(),
+    rooms: sections.rooms.partial().optional(),
+    backfill: sections.backfill.partial().optional(),
+    media: sections.media.partial().optional(),
+    retention: sections.retention.partial().optional(),
+  })
+  .strict();
+
+export type PipelineSettings = z.infer<typeof settingsSchema>;
+
+export type SettingsPatch = z.infer<typeof settingsPatchSchema>;
+
+export const DEFAULT_SETTINGS: PipelineSettings = {
+  sync: { initialSyncLimit: 50 },
+  rooms: { includeRoomIds: [], includeNetworks: [], excludeRoomIds: [], excludeNetworks: [] },
+  backfill: { maxAgeDays: null, pageSize: 100 },
+  media: { download: true, maxBytes: 50 * 1024 * 1024, kinds: ['file', 'thumbnail', 'avatar'] },
+  retention: { changeLogDays: 7, webhookDeliveryDays: 30 },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function mergeSettings(base: unknown, patch: unknown): any {
+  if (!isPlainObject(base) || !isPlainObject(patch)) {
+    return patch === undefined ? base : patch;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value !== undefined) merged[key] = mergeSettings(base[key], value);
+  }
+  return merged;
+}
+
+// the settings as dotted paths to their values, lists being values
+export function flattenSettings(settings: unknown, prefix = ''): Map<string, unknown> {
+  const flat = new Map<string, unknown>();
+  if (!isPlainObject(settings)) return flat;
+
+  for (const [key, value] of Object.entries(settings)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      flattenSettings(value, path).forEach((nested, nestedPath) => flat.set(nestedPath, nested));
+    } else {
+      flat.set(path, value);
+    }
+  }
+  return flat;
+}
@@ -0,0 +1,356 @@
+import { EventEmitter } from 'events';
+import pg from 'pg';
+import { Room } from 'matrix-js-sdk';
+import { z } from 'zod';
+import { onShutdown, pgPool } from '@/server/db/client';
+import { getConfigVersion, loadLatestConfigVersion, saveConfigVersion } from '@/server/db/config';
+import { ConfigChange, ConfigVersion } from '@/server/types';
+import { classifyRoomNetwork } from '@/server/utils/bridge.utils';
+import {
+  DEFAULT_SETTINGS,
+  PipelineSettings,
+  SettingsPatch,
+  flattenSettings,
+  mergeSettings,
+  settingsSchema,
+} from './schema';
+
+export class ConfigValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+export class ConfigConflictError extends Error {
+  constructor(expected: number, actual: number) {
+    super(`Configuration is at version ${actual}, not ${expected}`);
+    this.name = 'ConfigConflictError';
+  }
+}
+
+export interface ConfigStoreOptions {
+  // fallback for notifications lost while the listening connection was down
+  pollIntervalMs?: number;
+}
+
+export interface ConfigSnapshot {
+  // 0 until a version is saved, the defaults apply until then
+  version: number;
+  // what the pipeline runs with: the saved settings with the environment overrides applied
+  settings: PipelineSettings;
+  saved: PipelineSettings;
+  // setting path to the environment variable that overrides it
+  overrides: Record<string, string>;
+  changedBy: string | null;
+  updatedAt: string | null;
+}
+
+export interface ConfigUpdate {
+  changedBy: string;
+  comment?: string | null;
+  // rejected with a ConfigConflictError unless this is still the latest version
+  expectedVersion?: number;
+}
+
+const CONFIG_CHANNEL = 'config_changes';
+
+const list = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const bool = (value: string) => (value === 'true' ? true : value === 'false' ? false : value);
+
+const nullableNumber = (value: string) => (value === 'none' ? null : Number(value));
+
+// the environment wins over the saved settings; a saved value for an overridden
+// setting is kept and applies once the variable is removed
+const ENV_OVERRIDES: Record<string, { path: string; parse: (value: string) => unknown }> = {
+  INITIAL_SYNC_LIMIT: { path: 'sync.initialSyncLimit', parse: Number },
+  ROOMS_INCLUDE_IDS: { path: 'rooms.includeRoomIds', parse: list },
+  ROOMS_INCLUDE_NETWORKS: { path: 'rooms.includeNetworks', parse: list },
+  ROOMS_EXCLUDE_IDS: { path: 'rooms.excludeRoomIds', parse: list },
+  ROOMS_EXCLUDE_NETWORKS: { path: 'rooms.excludeNetworks', parse: list },
+  BACKFILL_MAX_AGE_DAYS: { path: 'backfill.maxAgeDays', parse: nullableNumber },
+  BACKFILL_PAGE_SIZE: { path: 'backfill.pageSize', parse: Number },
+  MEDIA_DOWNLOAD: { path: 'media.download', parse: bool },
+  MEDIA_MAX_BYTES: { path: 'media.maxBytes', parse: Number },
+  MEDIA_KINDS: { path: 'media.kinds', parse: list },
+  CHANGE_LOG_RETENTION_DAYS: { path: 'retention.changeLogDays', parse: Number },
+  WEBHOOK_RETENTION_DAYS: { path: 'retention.webhookDeliveryDays', parse: Number },
+};
+
+function describeIssues(error: z.ZodError, envByPath: Map<string, string> = new Map()): string {
+  return error.issues
+    .map((issue) => {
+      const path = issue.path.join('.');
+      const env = envByPath.get(path);
+      return `${env ? `${env} (${path})` : path}: ${issue.message}`;
+    })
+    .join('; ');
+}
+
+function diffSettings(from: PipelineSettings, to: PipelineSettings): ConfigChange[] {
+  const before = flattenSettings(from);
+  const changes: ConfigChange[] = [];
+
+  flattenSettings(to).forEach((value, path) => {
+    const previous = before.get(path);
+    if (JSON.stringify(previous) !== JSON.stringify(value)) {
+      changes.push({ path, from: previous ?? null, to: value });
+    }
+  });
+  return changes;
+}
+
+// settings saved by an older schema are completed with today's defaults
+function parseSaved(version: ConfigVersion | null): PipelineSettings {
+  if (!version) return DEFAULT_SETTINGS;
+
+  const parsed = settingsSchema.safeParse(mergeSettings(DEFAULT_SETTINGS, version.settings));
+  if (!parsed.success) {
+    throw new ConfigValidationError(
+      `Configuration version ${version.version} is invalid: ${describeIssues(parsed.error)}`
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * The pipeline settings: the latest saved version with the environment
+ * overrides applied, validated as a whole. Saving a change creates a new
+ * version recording who made it and what changed; every process reloads on
+ * the `config_changes` notification and emits `change` with the new and the
+ * previous settings, so running syncs and workers pick it up without a
+ * restart. Readers call get() where they use a setting instead of copying it.
+ */
+export class ConfigStore extends EventEmitter {
+  private pollIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private active: Promise<void> | null = null;
+  private saving: Promise<unknown> = Promise.resolve();
+  private listener: pg.PoolClient | null = null;
+  private envOverrides: Record<string, unknown> = {};
+  private envByPath = new Map<string, string>();
+  private latest: ConfigVersion | null = null;
+  private saved: PipelineSettings = DEFAULT_SETTINGS;
+  private settings: PipelineSettings;
+
+  constructor(env: NodeJS.ProcessEnv = process.env, opts: ConfigStoreOptions = {}) {
+    super();
+    // one listener per running session
+    this.setMaxListeners(0);
+    this.pollIntervalMs = opts.pollIntervalMs ?? 30_000;
+
+    for (const [name, { path, parse }] of Object.entries(ENV_OVERRIDES)) {
+      const value = env[name];
+      if (value === undefined || value === '') continue;
+
+      const [section, key] = path.split('.') as [string, string];
+      this.envOverrides = mergeSettings(this.envOverrides, { [section]: { [key]: parse(value) } });
+      this.envByPath.set(path, name);
+    }
+
+    // an invalid override is reported by start()
+    try {
+      this.settings = this.applyOverrides(DEFAULT_SETTINGS);
+    } catch {
+      this.settings = DEFAULT_SETTINGS;
+    }
+  }
+
+  public get(): PipelineSettings {
+    return this.settings;
+  }
+
+  public snapshot(): ConfigSnapshot {
+    return {
+      version: this.latest?.version ?? 0,
+      settings: this.settings,
+      saved: this.saved,
+      overrides: Object.fromEntries(this.envByPath),
+      changedBy: this.latest?.changedBy ?? null,
+      updatedAt: this.latest?.createdAt ?? null,
+    };
+  }
+
+  public async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.settings = this.applyOverrides(this.saved);
+    await this.reload();
+    await this.listen();
+    this.timer = setInterval(() => this.tick(), this.pollIntervalMs);
+  }
+
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.active;
+    await this.unlisten();
+  }
+
+  // picks up a version saved by another process; true if there was one
+  public async reload(): Promise<boolean> {
+    const latest = await loadLatestConfigVersion();
+    return latest ? this.apply(latest) : false;
+  }
+
+  // merges the patch into the saved settings; returns the latest version unchanged if nothing differs
+  public async update(patch: SettingsPatch, update: ConfigUpdate): Promise<ConfigSnapshot> {
+    return this.save((saved) => mergeSettings(saved, patch), update);
+  }
+
+  // replaces the saved settings, the ones left out go back to their defaults
+  public async replace(settings: SettingsPatch, update: ConfigUpdate): Promise<ConfigSnapshot> {
+    return this.save(() => mergeSettings(DEFAULT_SETTINGS, settings), update);
+  }
+
+  // saves the settings of an earlier version as a new one; null if there is no such version
+  public async restore(version: number, update: ConfigUpdate): Promise<ConfigSnapshot | null> {
+    const restored = await getConfigVersion(version);
+    if (!restored) return null;
+
+    const settings = parseSaved(restored);
+    return this.save(() => settings, {
+      ...update,
+      comment: update.comment ?? `Restored version ${version}`,
+    });
+  }
+
+  // saves from this process run one at a time, so they do not conflict with each other
+  private save(
+    next: (saved: PipelineSettings) => unknown,
+    update: ConfigUpdate
+  ): Promise<ConfigSnapshot> {
+    const run = this.saving.then(() => this.saveNext(next, update));
+    this.saving = run.catch(() => undefined);
+    return run;
+  }
+
+  private async saveNext(
+    next: (saved: PipelineSettings) => unknown,
+    update: ConfigUpdate
+  ): Promise<ConfigSnapshot> {
+    // the change is diffed against what is saved now, not what this process saw last
+    await this.reload();
+    const baseVersion = this.latest?.version ?? 0;
+    if (update.expectedVersion !== undefined && update.expectedVersion !== baseVersion) {
+      throw new ConfigConflictError(update.expectedVersion, baseVersion);
+    }
+
+    const parsed = settingsSchema.safeParse(next(this.saved));
+    if (!parsed.success) {
+      throw new ConfigValidationError(describeIssues(parsed.error));
+    }
+    // an override that is valid on its own could still clash with the new settings
+    this.applyOverrides(parsed.data);
+
+    const changes = diffSettings(this.saved, parsed.data);
+    if (changes.length === 0) return this.snapshot();
+
+    const saved = await saveConfigVersion({
+      baseVersion,
+      settings: parsed.data,
+      changes,
+      changedBy: update.changedBy,
+      comment: update.comment ?? null,
+    });
+    if (!saved) {
+      throw new ConfigConflictError(baseVersion, (await loadLatestConfigVersion())?.version ?? 0);
+    }
+
+    this.apply(saved);
+    return this.snapshot();
+  }
+
+  // false unless the version is newer, the notification of a save can arrive after it returned
+  private apply(version: ConfigVersion): boolean {
+    if (version.version <= (this.latest?.version ?? 0)) return false;
+
+    const saved = parseSaved(version);
+    const settings = this.applyOverrides(saved);
+    const previous = this.settings;
+
+    this.latest = version;
+    this.saved = saved;
+    this.settings = settings;
+
+    if (diffSettings(previous, settings).length > 0) {
+      console.log(`Applied configuration version ${version.version}`);
+      this.emit('change', settings, previous);
+    }
+    return true;
+  }
+
+  private applyOverrides(saved: PipelineSettings): PipelineSettings {
+    const parsed = settingsSchema.safeParse(mergeSettings(saved, this.envOverrides));
+    if (!parsed.success) {
+      throw new ConfigValidationError(describeIssues(parsed.error, this.envByPath));
+    }
+    return parsed.data;
+  }
+
+  private tick(): void {
+    if (this.active) return;
+
+    this.active = this.reload()
+      .then(async () => {
+        if (!this.listener && this.timer) await this.listen();
+      })
+      .catch((error) => console.error('Failed to reload the configuration:', error))
+      .finally(() => {
+        this.active = null;
+      });
+  }
+
+  private async listen(): Promise<void> {
+    const listener = await pgPool.connect();
+    listener.on('notification', () => this.tick());
+    listener.on('error', (error) => {
+      console.error('Configuration listener failed, falling back to polling:', error);
+      if (this.listener === listener) this.listener = null;
+      listener.release(error);
+    });
+
+    await listener.query(`LISTEN ${CONFIG_CHANNEL}`);
+    this.listener = listener;
+  }
+
+  private async unlisten(): Promise<void> {
+    const listener = this.listener;
+    this.listener = null;
+    if (!listener) return;
+
+    await listener.query(`UNLISTEN ${CONFIG_CHANNEL}`).catch(() => undefined);
+    listener.release();
+  }
+}
+
+export const configStore = new ConfigStore();
+
+onShutdown(() => configStore.stop());
+
+// whether the room rules archive a room; network rules need the room itself
+export function archivesRoom(
+  roomId: string,
+  room?: Room | null,
+  rules: PipelineSettings['rooms'] = configStore.get().rooms
+): boolean {
+  const { includeRoomIds, includeNetworks, excludeRoomIds, excludeNetworks } = rules;
+  const network =
+    room && (includeNetworks.length > 0 || excludeNetworks.length > 0)
+      ? classifyRoomNetwork(room).network
+      : null;
+
+  if (excludeRoomIds.includes(roomId) || (network && excludeNetworks.includes(network))) {
+    return false;
+  }
+  if (includeRoomIds.length === 0 && includeNetworks.length === 0) return true;
+
+  return includeRoomIds.includes(roomId) || (network !== null && includeNetworks.includes(network));
+}
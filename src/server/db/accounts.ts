@@ -0,0 +1,193 @@
+import { LoginResponse, MatrixClient } from 'matrix-js-sdk';
+import { AccountRecord, AccountStatus, UserPayload } from '@/server/types';
+import { pgPool } from './client';
+
+export async function getExistingCredentials(userId: string) {
+  try {
+    const result = await pgPool.query(
+      'SELECT device_id, access_token, storage_key FROM auth_credentials WHERE user_id = $1',
+      [userId]
+    );
+    if (result.rows.length > 0) {
+      return result.rows[0];
+    } else {
+      return null;
+    }
+  } catch (error) {
+    console.error('Error fetching credentials:', error);
+    return null;
+  }
+}
+
+export async function setKeyBackupStatus(status: boolean) {
+  const query = `
+    INSERT INTO key_backup_status (
+      status,
+      created_at
+    ) VALUES ($1, $2)
+  `;
+
+  await pgPool.query(query, [status, new Date().toISOString()]);
+}
+
+export async function setAuthCredentials(
+  client: MatrixClient,
+  storageKey: Uint8Array,
+  authResponse: LoginResponse,
+  authConfig: UserPayload
+) {
+  const query = `
+      INSERT INTO auth_credentials (
+        user_id, device_id, access_token, refresh_token, domain, homeserver_url, expires_in_ms, storage_key, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `;
+
+  await pgPool.query(query, [
+    client.getUserId(),
+    authResponse.device_id,
+    authResponse.access_token,
+    authResponse.refresh_token,
+    authConfig.domain,
+    client.getUserId()?.split(':')[1],
+    authResponse.expires_in_ms,
+    storageKey,
+    new Date().toISOString(),
+  ]);
+}
+
+function toAccountRecord(row: any): AccountRecord {
+  return {
+    accountKey: row.account_key,
+    username: row.username,
+    domain: row.domain,
+    userId: row.user_id,
+    passwordHash: row.password_hash,
+    status: row.status,
+    lastStarted: row.last_started,
+  };
+}
+
+export async function saveAccount(account: {
+  accountKey: string;
+  username: string;
+  domain: string;
+  userId: string | null;
+  passwordHash: string | null;
+}): Promise<void> {
+  const now = new Date().toISOString();
+  const query = `
+    INSERT INTO accounts (
+      account_key, username, domain, user_id, password_hash, status, last_started, last_updated
+    ) VALUES ($1, $2, $3, $4, $5, 'running', $6, $6)
+    ON CONFLICT (account_key) DO UPDATE SET
+      user_id = COALESCE(EXCLUDED.user_id, accounts.user_id),
+      password_hash = COALESCE(EXCLUDED.password_hash, accounts.password_hash),
+      status = 'running',
+      last_started = EXCLUDED.last_started,
+      last_updated = EXCLUDED.last_updated
+  `;
+
+  await pgPool.query(query, [
+    account.accountKey,
+    account.username,
+    account.domain,
+    account.userId,
+    account.passwordHash,
+    now,
+  ]);
+}
+
+export async function getAccount(accountKey: string): Promise<AccountRecord | null> {
+  const result = await pgPool.query('SELECT * FROM accounts WHERE account_key = $1', [accountKey]);
+  return result.rows[0] ? toAccountRecord(result.rows[0]) : null;
+}
+
+export async function loadAccounts(status?: AccountStatus): Promise<AccountRecord[]> {
+  const result = await pgPool.query(
+    `SELECT * FROM accounts ${status ? 'WHERE status = $1' : ''} ORDER BY created_at`,
+    status ? [status] : []
+  );
+  return result.rows.map(toAccountRecord);
+}
+
+export async function setAccountStatus(accountKey: string, status: AccountStatus): Promise<void> {
+  await pgPool.query(
+    'UPDATE accounts SET status = $2, last_updated = $3 WHERE account_key = $1',
+    [accountKey, status, new Date().toISOString()]
+  );
+}
+
+// the credentials go too, their access token is revoked by the logout
+export async function deleteAccount(accountKey: string): Promise<void> {
+  await pgPool.query(
+    `WITH deleted AS (DELETE FROM accounts WHERE account_key = $1 RETURNING user_id)
+    DELETE FROM auth_credentials WHERE user_id IN (SELECT user_id FROM deleted)`,
+    [accountKey]
+  );
+}
+
+export async function updateDeviceId(
+  userId: string | undefined,
+  newDeviceId: string | null
+) {
+  if (!userId || !newDeviceId) {
+    console.log("Invalid user or device ID");
+    return;
+  }
+
+  const query = `
+    UPDATE auth_credentials
+    SET device_id = $1
+    WHERE user_id = $2
+  `;
+
+  try {
+    const result = await pgPool.query(query, [
+      newDeviceId,
+      userId
+    ]);
+
+    if (result.rowCount === 0) {
+      throw new Error(`No credentials found for user ID: ${userId}`);
+    }
+
+    return result.rowCount;
+  } catch (error: any) {
+    throw new Error(`Failed to update device ID: ${error.message}`);
+  }
+}
+
+// records that the account archives the room; the API shows an account only its own rooms
+export async function linkAccountRoom(accountKey: string, roomId: string): Promise<void> {
+  await pgPool.query(
+    `INSERT INTO account_rooms (account_key, room_id) VALUES ($1, $2)
+    ON CONFLICT DO NOTHING`,
+    [accountKey, roomId]
+  );
+}
+
+// links a room no account archives yet, as an upload may name any room ID; true if the
+// account archives the room afterwards
+export async function claimAccountRoom(accountKey: string, roomId: string): Promise<boolean> {
+  const query = `
+    WITH claimed AS (
+      INSERT INTO account_rooms (account_key, room_id)
+      SELECT $1, $2
+      WHERE NOT EXISTS (SELECT 1 FROM rooms WHERE id = $2)
+        AND NOT EXISTS (SELECT 1 FROM account_rooms WHERE room_id = $2)
+      ON CONFLICT DO NOTHING
+      RETURNING room_id
+    )
+    SELECT EXISTS (SELECT 1 FROM claimed)
+      OR EXISTS (SELECT 1 FROM account_rooms WHERE account_key = $1 AND room_id = $2) AS owned
+  `;
+  const result = await pgPool.query(query, [accountKey, roomId]);
+  return result.rows[0].owned;
+}
+
+// limits a query to the rooms of the account bound to the $param placeholder
+export function accountRoomCondition(roomColumn: string, param: number): string {
+  return `EXISTS (
+    SELECT 1 FROM account_rooms ar WHERE ar.room_id = ${roomColumn} AND ar.account_key = $${param}
+  )`;
+}
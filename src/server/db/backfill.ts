@@ -0,0 +1,86 @@
+import { BackfillState, BackfillStatus } from '@/server/types';
+import { pgPool } from './client';
+
+function toBackfillState(row: any): BackfillState {
+  return {
+    roomId: row.room_id,
+    paginationToken: row.pagination_token,
+    status: row.status,
+    eventsPersisted: Number(row.events_persisted),
+    oldestEventTs: row.oldest_event_ts === null ? null : Number(row.oldest_event_ts),
+    cutoffTs: row.cutoff_ts === null ? null : Number(row.cutoff_ts),
+    error: row.error,
+  };
+}
+
+export async function loadBackfillState(
+  accountKey: string,
+  roomId: string
+): Promise<BackfillState | null> {
+  const query = `
+    SELECT room_id, pagination_token, status, events_persisted, oldest_event_ts, cutoff_ts, error
+    FROM backfill_state
+    WHERE account_key = $1 AND room_id = $2
+  `;
+  const result = await pgPool.query(query, [accountKey, roomId]);
+  return result.rows[0] ? toBackfillState(result.rows[0]) : null;
+}
+
+// every account's states unless one is given
+export async function loadBackfillStates(
+  filters: { accountKey?: string; statuses?: BackfillStatus[] } = {}
+): Promise<BackfillState[]> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.accountKey) {
+    params.push(filters.accountKey);
+    conditions.push(`account_key = $${params.length}`);
+  }
+  if (filters.statuses) {
+    params.push(filters.statuses);
+    conditions.push(`status = ANY($${params.length})`);
+  }
+
+  const query = `
+    SELECT room_id, pagination_token, status, events_persisted, oldest_event_ts, cutoff_ts, error
+    FROM backfill_state
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY room_id
+  `;
+  const result = await pgPool.query(query, params);
+  return result.rows.map(toBackfillState);
+}
+
+export async function saveBackfillState(accountKey: string, state: BackfillState): Promise<void> {
+  const query = `
+    INSERT INTO backfill_state (
+      account_key, room_id, pagination_token, status, events_persisted,
+      oldest_event_ts, cutoff_ts, error, last_updated
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    ON CONFLICT (account_key, room_id) DO UPDATE SET
+      pagination_token = EXCLUDED.pagination_token,
+      status = EXCLUDED.status,
+      events_persisted = EXCLUDED.events_persisted,
+      oldest_event_ts = EXCLUDED.oldest_event_ts,
+      cutoff_ts = EXCLUDED.cutoff_ts,
+      error = EXCLUDED.error,
+      last_updated = EXCLUDED.last_updated
+  `;
+
+  try {
+    await pgPool.query(query, [
+      accountKey,
+      state.roomId,
+      state.paginationToken,
+      state.status,
+      state.eventsPersisted,
+      state.oldestEventTs,
+      state.cutoffTs,
+      state.error,
+      new Date().toISOString(),
+    ]);
+  } catch (error: any) {
+    throw new Error(`Failed to save backfill state: ${error.message}`);
+  }
+}
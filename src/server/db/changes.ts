@@ -0,0 +1,90 @@
+import { ArchiveChange, ChangeFilter } from '@/server/types';
+import { pgPool } from './client';
+import { accountRoomCondition } from './accounts';
+
+function toArchiveChange(row: any): ArchiveChange {
+  return {
+    seq: Number(row.seq),
+    entity: row.entity,
+    kind: row.kind,
+    roomId: row.room_id,
+    entityId: row.entity_id,
+    data: row.data,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Numbers committed changes in the order they become visible. A sequence
+ * value taken inside the writing transaction could commit after a higher one,
+ * and a reader resuming from the higher value would skip it; numbering under
+ * a lock once the rows are committed keeps `seq > cursor` complete.
+ */
+export async function sequenceChanges(limit: number): Promise<number> {
+  const client = await pgPool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query("SELECT pg_advisory_xact_lock(hashtext('change_log_seq'))");
+    const result = await client.query(
+      `UPDATE change_log SET seq = nextval('change_log_seq')
+      WHERE id IN (SELECT id FROM change_log WHERE seq IS NULL ORDER BY id LIMIT $1)`,
+      [limit]
+    );
+    await client.query('COMMIT');
+    return result.rowCount ?? 0;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function loadChanges(
+  afterSeq: number,
+  filter: ChangeFilter,
+  limit: number
+): Promise<ArchiveChange[]> {
+  const params: any[] = [afterSeq];
+  const conditions = ['seq > $1'];
+
+  if (filter.accountKey) {
+    params.push(filter.accountKey);
+    conditions.push(accountRoomCondition('room_id', params.length));
+  }
+  if (filter.roomIds?.length) {
+    params.push(filter.roomIds);
+    conditions.push(`room_id = ANY($${params.length})`);
+  }
+  if (filter.entities?.length) {
+    params.push(filter.entities);
+    conditions.push(`entity = ANY($${params.length})`);
+  }
+
+  params.push(limit);
+  const result = await pgPool.query(
+    `SELECT * FROM change_log
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY seq
+    LIMIT $${params.length}`,
+    params
+  );
+  return result.rows.map(toArchiveChange);
+}
+
+export async function changeLogBounds(): Promise<{ oldest: number | null; latest: number }> {
+  const result = await pgPool.query(
+    'SELECT min(seq) AS oldest, COALESCE(max(seq), 0) AS latest FROM change_log'
+  );
+  const row = result.rows[0];
+  return { oldest: row.oldest === null ? null : Number(row.oldest), latest: Number(row.latest) };
+}
+
+export async function pruneChangeLog(retentionDays: number): Promise<number> {
+  const result = await pgPool.query(
+    `DELETE FROM change_log
+    WHERE seq IS NOT NULL AND created_at < now() - interval '1 day' * $1`,
+    [retentionDays]
+  );
+  return result.rowCount ?? 0;
+}
@@ -1,11 +1,12 @@
 import pg from 'pg';
-import { schema } from './schema';
+import { Migrator } from './migrator';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
 
 if (!process.env.DATABASE_URL) {
-    throw new Error('Missing DATABASE_URL environment variable');
+    // also with SINKS=sqlite: accounts, sessions, the queues and the API are kept in Postgres
+    throw new Error('Missing DATABASE_URL environment variable, Postgres is required for every sink');
 }
 
 const pool = new pg.Pool({
@@ -17,52 +18,52 @@ const pool = new pg.Pool({
 export const pgPool = pool;
 
 export const initializeDatabase = async () => {
-    const client = await pool.connect();
     try {
-        await client.query('BEGIN');
+        const applied = await new Migrator(pool).up();
+        console.log(
+            applied.length > 0
+                ? `Applied ${applied.length} migration(s).`
+                : 'Database schema is up to date.'
+        );
+    } catch (error) {
+        console.error('Failed to initialize database:', error);
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Database initialization failed: ${message}`);
+    }
+};
 
-        const existingTablesResult = await client.query(`
-            SELECT table_name
-            FROM information_schema.tables
-            WHERE table_schema = 'public';
-        `);
-        const existingTables = new Set(existingTablesResult.rows.map(row => row.table_name));
+// work that must reach the database before the pool closes, such as buffered writes
+const shutdownHooks: (() => Promise<void>)[] = [];
 
-        for (const [tableName, schemaSQL] of Object.entries(schema)) {
-            if (tableName === 'indexes') continue;
+// hooks run in the order they were registered; `first` is for work that still
+// produces writes, such as a sync loop, and runs it before the buffers are flushed
+export const onShutdown = (hook: () => Promise<void>, opts: { first?: boolean } = {}) => {
+    if (opts.first) {
+        shutdownHooks.unshift(hook);
+    } else {
+        shutdownHooks.push(hook);
+    }
+};
 
-            if (!existingTables.has(tableName)) {
-                await client.query(schemaSQL);
-                console.log(`Table ${tableName} created.`);
-            } else {
-                console.log(`Table ${tableName} already exists. Skipping creation.`);
-            }
-        }
+let closing: Promise<void> | null = null;
 
-        if (schema.indexes) {
-            await client.query(schema.indexes);
-            console.log("Indexes created.");
+// runs the shutdown hooks and closes the pool, once however often it is called
+export const closeDatabase = (): Promise<void> => {
+    closing ??= (async () => {
+        for (const hook of shutdownHooks) {
+            await hook().catch((error) => console.error('Shutdown hook failed:', error));
         }
-
-        await client.query('COMMIT');
-        console.log("Database initialized successfully.");
-    } catch (error: any) {
-        await client.query('ROLLBACK');
-        console.error('Failed to initialize database:', error);
-        throw new Error(`Database initialization failed: ${error.message}`);
-    } finally {
-        client.release();
-    }
+        console.log('Closing database pool...');
+        await pool.end();
+    })();
+    return closing;
 };
 
-process.on('SIGINT', async () => {
-    console.log('Closing database pool...');
-    await pool.end();
+const closePool = async () => {
+    await closeDatabase();
     process.exit(0);
-});
+};
 
-process.on('SIGTERM', async () => {
-    console.log('Closing database pool...');
-    await pool.end();
-    process.exit(0);
-});
+process.on('SIGINT', closePool);
+
+process.on('SIGTERM', closePool);
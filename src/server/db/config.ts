@@ -0,0 +1,83 @@
+import { ConfigChange, ConfigVersion } from '@/server/types';
+import { pgPool } from './client';
+
+function toConfigVersion(row: any): ConfigVersion {
+  return {
+    version: row.version,
+    settings: row.settings,
+    changes: row.changes,
+    changedBy: row.changed_by,
+    comment: row.comment,
+    createdAt: row.created_at,
+  };
+}
+
+export async function loadLatestConfigVersion(): Promise<ConfigVersion | null> {
+  const result = await pgPool.query('SELECT * FROM config_versions ORDER BY version DESC LIMIT 1');
+  return result.rows[0] ? toConfigVersion(result.rows[0]) : null;
+}
+
+export async function getConfigVersion(version: number): Promise<ConfigVersion | null> {
+  const result = await pgPool.query('SELECT * FROM config_versions WHERE version = $1', [version]);
+  return result.rows[0] ? toConfigVersion(result.rows[0]) : null;
+}
+
+export async function listConfigVersions(opts: {
+  limit: number;
+  offset: number;
+}): Promise<ConfigVersion[]> {
+  const result = await pgPool.query(
+    'SELECT * FROM config_versions ORDER BY version DESC LIMIT $1 OFFSET $2',
+    [opts.limit, opts.offset]
+  );
+  return result.rows.map(toConfigVersion);
+}
+
+/**
+ * Saves the next version if the latest is still `baseVersion` (0 when none
+ * was saved yet), and returns null if another one was saved in between.
+ * Processes listening on `config_changes` reload once it commits.
+ */
+export async function saveConfigVersion(entry: {
+  baseVersion: number;
+  settings: Record<string, any>;
+  changes: ConfigChange[];
+  changedBy: string;
+  comment: string | null;
+}): Promise<ConfigVersion | null> {
+  const client = await pgPool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', ['config_versions']);
+
+    const latest = await client.query(
+      'SELECT COALESCE(max(version), 0) AS version FROM config_versions'
+    );
+    if (latest.rows[0].version !== entry.baseVersion) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const result = await client.query(
+      `INSERT INTO config_versions (version, settings, changes, changed_by, comment)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *`,
+      [
+        entry.baseVersion + 1,
+        JSON.stringify(entry.settings),
+        JSON.stringify(entry.changes),
+        entry.changedBy,
+        entry.comment,
+      ]
+    );
+    await client.query("SELECT pg_notify('config_changes', $1)", [String(entry.baseVersion + 1)]);
+    await client.query('COMMIT');
+
+    return toConfigVersion(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
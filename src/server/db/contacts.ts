@@ -0,0 +1,358 @@
+import pg from 'pg';
+import { Contact, ContactIdentity, ContactIdentityInput, ContactLinkSource } from '@/server/types';
+import { buildContactIdentity } from '@/server/utils/contacts.utils';
+import { pgPool } from './client';
+import { accountRoomCondition } from './accounts';
+
+const CONTACT_LINK_LOCK = 'contact_identities';
+
+async function findMatchingContact(
+  client: pg.PoolClient,
+  identity: ContactIdentityInput
+): Promise<{ contactId: string; source: ContactLinkSource } | null> {
+  if (identity.phoneNumber) {
+    const byPhone = await client.query(
+      'SELECT contact_id FROM contact_identities WHERE phone_number = $1 AND user_id <> $2 LIMIT 1',
+      [identity.phoneNumber, identity.userId]
+    );
+    if (byPhone.rows[0]) {
+      return { contactId: byPhone.rows[0].contact_id, source: 'phone' };
+    }
+  }
+
+  // names only link identities from different networks, and only when unambiguous
+  if (identity.normalizedName) {
+    const byName = await client.query(
+      `SELECT DISTINCT ci.contact_id
+      FROM contact_identities ci
+      WHERE ci.normalized_name = $1
+        AND ci.user_id <> $3
+        AND NOT EXISTS (
+          SELECT 1 FROM contact_identities other
+          WHERE other.contact_id = ci.contact_id AND other.network = $2
+        )
+      LIMIT 2`,
+      [identity.normalizedName, identity.network, identity.userId]
+    );
+    if (byName.rows.length === 1) {
+      return { contactId: byName.rows[0].contact_id, source: 'name' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Attaches a Matrix ID to a contact, creating one when nothing matches.
+ * Identities that already belong to a contact are only moved by manual merges and splits.
+ */
+export async function linkContactIdentity(identity: ContactIdentityInput): Promise<string> {
+  const client = await pgPool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [CONTACT_LINK_LOCK]);
+
+    const now = new Date().toISOString();
+    const existing = await client.query(
+      'SELECT contact_id, link_source FROM contact_identities WHERE user_id = $1',
+      [identity.userId]
+    );
+
+    let contactId: string | undefined = existing.rows[0]?.contact_id;
+    let linkSource: ContactLinkSource = existing.rows[0]?.link_source ?? 'new';
+
+    if (!contactId) {
+      const match = await findMatchingContact(client, identity);
+      if (match) {
+        contactId = match.contactId;
+        linkSource = match.source;
+      } else {
+        const created = await client.query(
+          'INSERT INTO contacts (display_name, last_updated) VALUES ($1, $2) RETURNING id',
+          [identity.displayName, now]
+        );
+        contactId = created.rows[0].id as string;
+      }
+    }
+
+    await client.query(
+      `INSERT INTO contact_identities (
+        user_id, contact_id, network, display_name, normalized_name, phone_number,
+        link_source, last_updated
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (user_id) DO UPDATE SET
+        network = EXCLUDED.network,
+        display_name = EXCLUDED.display_name,
+        normalized_name = EXCLUDED.normalized_name,
+        phone_number = COALESCE(EXCLUDED.phone_number, contact_identities.phone_number),
+        last_updated = EXCLUDED.last_updated`,
+      [
+        identity.userId,
+        contactId,
+        identity.network,
+        identity.displayName,
+        identity.normalizedName,
+        identity.phoneNumber,
+        linkSource,
+        now,
+      ]
+    );
+
+    await client.query(
+      'UPDATE contacts SET display_name = $2, last_updated = $3 WHERE id = $1 AND display_name IS NULL',
+      [contactId, identity.displayName, now]
+    );
+
+    await client.query('COMMIT');
+    return contactId;
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    throw new Error(`Failed to link contact identity: ${error.message}`);
+  } finally {
+    client.release();
+  }
+}
+
+// links participants that were stored before contacts existed, or while linking failed
+export async function linkUnassignedParticipants(): Promise<number> {
+  const query = `
+    SELECT DISTINCT ON (p.user_id) p.user_id, p.display_name, s.content AS member_content
+    FROM participants p
+    LEFT JOIN LATERAL (
+      SELECT content FROM state_events
+      WHERE event_type = 'm.room.member' AND state_key = p.user_id
+      ORDER BY timestamp DESC
+      LIMIT 1
+    ) s ON true
+    WHERE NOT EXISTS (SELECT 1 FROM contact_identities ci WHERE ci.user_id = p.user_id)
+    ORDER BY p.user_id, p.last_updated DESC
+  `;
+
+  const result = await pgPool.query(query);
+  let linked = 0;
+
+  for (const row of result.rows) {
+    const identity = buildContactIdentity(row.user_id, row.display_name, row.member_content);
+    if (identity) {
+      await linkContactIdentity(identity);
+      linked++;
+    }
+  }
+
+  return linked;
+}
+
+function toContactIdentity(row: any): ContactIdentity {
+  return {
+    userId: row.user_id,
+    contactId: row.contact_id,
+    network: row.network,
+    displayName: row.display_name,
+    normalizedName: row.normalized_name,
+    phoneNumber: row.phone_number,
+    linkSource: row.link_source,
+    locked: row.locked,
+  };
+}
+
+// an identity is visible to an account that has its user in one of its rooms
+function identityVisible(identity: string, param: number): string {
+  return `EXISTS (
+    SELECT 1 FROM participants vp
+    WHERE vp.user_id = ${identity}.user_id AND ${accountRoomCondition('vp.room_id', param)}
+  )`;
+}
+
+// a contact is visible through its visible identities, the others are left out
+function contactVisible(contactId: string, param: number): string {
+  return `EXISTS (
+    SELECT 1 FROM contact_identities vi
+    WHERE vi.contact_id = ${contactId} AND ${identityVisible('vi', param)}
+  )`;
+}
+
+// selects contacts as seen by the account bound to the $param placeholder
+function contactSelect(param: number): string {
+  return `
+    SELECT c.id, c.display_name,
+      COALESCE(
+        (SELECT json_agg(ci.* ORDER BY ci.network, ci.user_id)
+         FROM contact_identities ci
+         WHERE ci.contact_id = c.id AND ${identityVisible('ci', param)}),
+        '[]'
+      ) AS identities
+    FROM contacts c
+  `;
+}
+
+function toContact(row: any): Contact {
+  return {
+    id: row.id,
+    displayName: row.display_name,
+    identities: row.identities.map(toContactIdentity),
+  };
+}
+
+export async function getContact(contactId: string, accountKey: string): Promise<Contact | null> {
+  const result = await pgPool.query(
+    `${contactSelect(2)} WHERE c.id = $1 AND ${contactVisible('c.id', 2)}`,
+    [contactId, accountKey]
+  );
+  return result.rows[0] ? toContact(result.rows[0]) : null;
+}
+
+export async function getContactForUser(
+  userId: string,
+  accountKey: string
+): Promise<Contact | null> {
+  const result = await pgPool.query(
+    `${contactSelect(2)}
+    WHERE c.id = (SELECT contact_id FROM contact_identities WHERE user_id = $1)
+      AND ${contactVisible('c.id', 2)}`,
+    [userId, accountKey]
+  );
+  return result.rows[0] ? toContact(result.rows[0]) : null;
+}
+
+export async function listContacts(filters: {
+  accountKey: string;
+  search?: string;
+  network?: string;
+  limit: number;
+  offset: number;
+}): Promise<Contact[]> {
+  const conditions: string[] = [contactVisible('c.id', 1)];
+  const params: any[] = [filters.accountKey];
+
+  if (filters.search) {
+    params.push(`%${filters.search.toLowerCase()}%`);
+    conditions.push(`(
+      LOWER(c.display_name) LIKE $${params.length}
+      OR EXISTS (
+        SELECT 1 FROM contact_identities ci
+        WHERE ci.contact_id = c.id
+          AND (ci.normalized_name LIKE $${params.length} OR LOWER(ci.user_id) LIKE $${params.length})
+      )
+    )`);
+  }
+  if (filters.network) {
+    params.push(filters.network);
+    conditions.push(
+      `EXISTS (SELECT 1 FROM contact_identities ci WHERE ci.contact_id = c.id AND ci.network = $${params.length})`
+    );
+  }
+
+  params.push(filters.limit, filters.offset);
+  const query = `
+    ${contactSelect(1)}
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY c.display_name NULLS LAST, c.id
+    LIMIT $${params.length - 1} OFFSET $${params.length}
+  `;
+
+  const result = await pgPool.query(query, params);
+  return result.rows.map(toContact);
+}
+
+// manual merges and splits lock the identities involved so they stay where an operator put them
+// null if the target is not visible to the account; sources it cannot see are left alone
+export async function mergeContacts(
+  targetId: string,
+  sourceIds: string[],
+  accountKey: string
+): Promise<Contact | null> {
+  const client = await pgPool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [CONTACT_LINK_LOCK]);
+
+    const visible = await client.query(
+      `SELECT c.id FROM contacts c
+      WHERE c.id = ANY($1) AND ${contactVisible('c.id', 2)}
+      FOR UPDATE`,
+      [[targetId, ...sourceIds], accountKey]
+    );
+    const visibleIds = visible.rows.map((row) => row.id as string);
+    if (!visibleIds.includes(targetId)) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const sources = visibleIds.filter((id) => id !== targetId);
+    await client.query(
+      `UPDATE contact_identities
+      SET contact_id = $1, link_source = 'manual', locked = true, last_updated = $3
+      WHERE contact_id = ANY($2) OR contact_id = $1`,
+      [targetId, sources, new Date().toISOString()]
+    );
+    await client.query('DELETE FROM contacts WHERE id = ANY($1)', [sources]);
+
+    await client.query('COMMIT');
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    throw new Error(`Failed to merge contacts: ${error.message}`);
+  } finally {
+    client.release();
+  }
+
+  return getContact(targetId, accountKey);
+}
+
+// only identities visible to the account are moved
+export async function splitContact(
+  contactId: string,
+  userIds: string[],
+  accountKey: string
+): Promise<Contact | null> {
+  const client = await pgPool.connect();
+  let newContactId: string | null = null;
+
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [CONTACT_LINK_LOCK]);
+
+    const now = new Date().toISOString();
+    const moving = await client.query(
+      `SELECT ci.user_id, ci.display_name FROM contact_identities ci
+      WHERE ci.contact_id = $1 AND ci.user_id = ANY($2) AND ${identityVisible('ci', 3)}`,
+      [contactId, userIds, accountKey]
+    );
+    if (moving.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    const movingIds = moving.rows.map((row) => row.user_id as string);
+
+    const created = await client.query(
+      'INSERT INTO contacts (display_name, last_updated) VALUES ($1, $2) RETURNING id',
+      [moving.rows[0].display_name, now]
+    );
+    newContactId = created.rows[0].id as string;
+
+    await client.query(
+      `UPDATE contact_identities
+      SET contact_id = $3, link_source = 'manual', locked = true, last_updated = $4
+      WHERE contact_id = $1 AND user_id = ANY($2)`,
+      [contactId, movingIds, newContactId, now]
+    );
+    await client.query(
+      `UPDATE contact_identities SET link_source = 'manual', locked = true, last_updated = $2
+      WHERE contact_id = $1`,
+      [contactId, now]
+    );
+    await client.query(
+      `DELETE FROM contacts c WHERE c.id = $1
+        AND NOT EXISTS (SELECT 1 FROM contact_identities ci WHERE ci.contact_id = c.id)`,
+      [contactId]
+    );
+
+    await client.query('COMMIT');
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    throw new Error(`Failed to split contact: ${error.message}`);
+  } finally {
+    client.release();
+  }
+
+  return getContact(newContactId, accountKey);
+}
@@ -0,0 +1,179 @@
+import { DeadLetter, DeadLetterInput, DeadLetterKind, DeadLetterStatus } from '@/server/types';
+import { pgPool } from './client';
+
+function toDeadLetter(row: any): DeadLetter {
+  return {
+    id: row.id,
+    accountKey: row.account_key,
+    kind: row.kind,
+    targetTable: row.target_table,
+    sourceId: row.source_id,
+    roomId: row.room_id,
+    payload: row.payload,
+    error: row.error,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    firstFailedAt: row.first_failed_at,
+    lastFailedAt: row.last_failed_at,
+    resolvedAt: row.resolved_at,
+  };
+}
+
+// a write that failed again before its retry counts as another attempt
+export async function recordDeadLetter(letter: DeadLetterInput): Promise<DeadLetter> {
+  const query = `
+    INSERT INTO dead_letters (
+      account_key, kind, target_table, source_id, room_id, payload, error, next_attempt_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, now() + interval '1 minute')
+    ON CONFLICT (account_key, kind, source_id) DO UPDATE SET
+      target_table = EXCLUDED.target_table,
+      payload = EXCLUDED.payload,
+      error = EXCLUDED.error,
+      status = 'pending',
+      attempts = CASE WHEN dead_letters.status IN ('resolved', 'discarded')
+        THEN 1 ELSE dead_letters.attempts + 1 END,
+      next_attempt_at = now() + interval '1 minute' * power(2, CASE
+        WHEN dead_letters.status IN ('resolved', 'discarded') THEN 0 ELSE dead_letters.attempts END),
+      last_failed_at = now(),
+      resolved_at = NULL
+    RETURNING *
+  `;
+
+  const result = await pgPool.query(query, [
+    letter.accountKey,
+    letter.kind,
+    letter.targetTable,
+    letter.sourceId,
+    letter.roomId,
+    JSON.stringify(letter.payload),
+    letter.error,
+  ]);
+  return toDeadLetter(result.rows[0]);
+}
+
+export async function claimDeadLetters(accountKey: string, limit: number): Promise<DeadLetter[]> {
+  const query = `
+    UPDATE dead_letters SET status = 'replaying'
+    WHERE id IN (
+      SELECT id FROM dead_letters
+      WHERE account_key = $1 AND status = 'pending' AND next_attempt_at <= now()
+      ORDER BY next_attempt_at
+      LIMIT $2
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  const result = await pgPool.query(query, [accountKey, limit]);
+  return result.rows.map(toDeadLetter);
+}
+
+// replays on demand bypass the backoff, including letters that ran out of attempts
+export async function claimDeadLetter(id: string, accountKey: string): Promise<DeadLetter | null> {
+  const query = `
+    UPDATE dead_letters SET status = 'replaying'
+    WHERE id = $1 AND account_key = $2 AND status IN ('pending', 'failed')
+    RETURNING *
+  `;
+  const result = await pgPool.query(query, [id, accountKey]);
+  return result.rows[0] ? toDeadLetter(result.rows[0]) : null;
+}
+
+// replays interrupted by a restart go back into the queue
+export async function resetInterruptedDeadLetters(accountKey: string): Promise<void> {
+  await pgPool.query(
+    `UPDATE dead_letters SET status = 'pending' WHERE account_key = $1 AND status = 'replaying'`,
+    [accountKey]
+  );
+}
+
+export async function markDeadLetterResolved(id: string): Promise<DeadLetter | null> {
+  const result = await pgPool.query(
+    `UPDATE dead_letters SET status = 'resolved', resolved_at = now()
+    WHERE id = $1 AND status = 'replaying'
+    RETURNING *`,
+    [id]
+  );
+  return result.rows[0] ? toDeadLetter(result.rows[0]) : null;
+}
+
+export async function markDeadLetterFailed(
+  id: string,
+  error: string,
+  maxAttempts: number
+): Promise<DeadLetter | null> {
+  const query = `
+    UPDATE dead_letters SET
+      attempts = attempts + 1,
+      status = CASE WHEN attempts + 1 >= $3 THEN 'failed' ELSE 'pending' END,
+      error = $2,
+      last_failed_at = now(),
+      next_attempt_at = now() + interval '1 minute' * power(2, attempts)
+    WHERE id = $1 AND status = 'replaying'
+    RETURNING *
+  `;
+  const result = await pgPool.query(query, [id, error, maxAttempts]);
+  return result.rows[0] ? toDeadLetter(result.rows[0]) : null;
+}
+
+export async function discardDeadLetter(
+  id: string,
+  accountKey: string
+): Promise<DeadLetter | null> {
+  const query = `
+    UPDATE dead_letters SET status = 'discarded', next_attempt_at = NULL
+    WHERE id = $1 AND account_key = $2 AND status IN ('pending', 'failed')
+    RETURNING *
+  `;
+  const result = await pgPool.query(query, [id, accountKey]);
+  return result.rows[0] ? toDeadLetter(result.rows[0]) : null;
+}
+
+export async function getDeadLetter(id: string, accountKey: string): Promise<DeadLetter | null> {
+  const result = await pgPool.query(
+    'SELECT * FROM dead_letters WHERE id = $1 AND account_key = $2',
+    [id, accountKey]
+  );
+  return result.rows[0] ? toDeadLetter(result.rows[0]) : null;
+}
+
+export async function listDeadLetters(filters: {
+  accountKey: string;
+  status?: DeadLetterStatus;
+  kind?: DeadLetterKind;
+  targetTable?: string;
+  roomId?: string;
+  limit: number;
+  offset: number;
+}): Promise<DeadLetter[]> {
+  const conditions: string[] = ['account_key = $1'];
+  const params: any[] = [filters.accountKey];
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`status = $${params.length}`);
+  }
+  if (filters.kind) {
+    params.push(filters.kind);
+    conditions.push(`kind = $${params.length}`);
+  }
+  if (filters.targetTable) {
+    params.push(filters.targetTable);
+    conditions.push(`target_table = $${params.length}`);
+  }
+  if (filters.roomId) {
+    params.push(filters.roomId);
+    conditions.push(`room_id = $${params.length}`);
+  }
+
+  params.push(filters.limit, filters.offset);
+  const query = `
+    SELECT * FROM dead_letters
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY last_failed_at DESC
+    LIMIT $${params.length - 1} OFFSET $${params.length}
+  `;
+
+  const result = await pgPool.query(query, params);
+  return result.rows.map(toDeadLetter);
+}
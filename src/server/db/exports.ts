@@ -0,0 +1,323 @@
+import {
+  ExportFilters,
+  ExportFormat,
+  ExportJob,
+  ExportMessage,
+  ExportParticipant,
+  ExportProgress,
+  ExportRoom,
+  ExportStatus,
+} from '@/server/types';
+import { pgPool } from './client';
+import { accountRoomCondition } from './accounts';
+
+function toExportJob(row: any): ExportJob {
+  const messagesTotal = row.messages_total;
+  return {
+    id: row.id,
+    accountKey: row.account_key,
+    format: row.format,
+    filters: row.filters,
+    status: row.status,
+    roomsTotal: row.rooms_total,
+    roomsDone: row.rooms_done,
+    messagesTotal,
+    messagesExported: row.messages_exported,
+    progress:
+      row.status === 'completed'
+        ? 100
+        : messagesTotal > 0
+          ? Math.min(99, Math.floor((row.messages_exported / messagesTotal) * 100))
+          : 0,
+    currentRoomId: row.current_room_id,
+    filePath: row.file_path,
+    fileSize: row.file_size === null ? null : Number(row.file_size),
+    error: row.error,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
+
+export async function createExportJob(job: {
+  accountKey: string;
+  format: ExportFormat;
+  filters: ExportFilters;
+}): Promise<ExportJob> {
+  const result = await pgPool.query(
+    `INSERT INTO export_jobs (account_key, format, filters) VALUES ($1, $2, $3) RETURNING *`,
+    [job.accountKey, job.format, JSON.stringify(job.filters)]
+  );
+  return toExportJob(result.rows[0]);
+}
+
+// the oldest pending job, or the given one if it is still pending
+export async function claimExportJob(id?: string): Promise<ExportJob | null> {
+  const query = `
+    UPDATE export_jobs SET status = 'running', started_at = now()
+    WHERE id = (
+      SELECT id FROM export_jobs
+      WHERE status = 'pending' ${id ? 'AND id = $1' : ''}
+      ORDER BY created_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  const result = await pgPool.query(query, id ? [id] : []);
+  return result.rows[0] ? toExportJob(result.rows[0]) : null;
+}
+
+// exports interrupted by a restart start over, their partial files are discarded
+export async function resetInterruptedExportJobs(): Promise<void> {
+  await pgPool.query(
+    `UPDATE export_jobs SET status = 'pending', rooms_done = 0, messages_exported = 0,
+      current_room_id = NULL
+    WHERE status = 'running'`
+  );
+}
+
+// false once the job is no longer running, i.e. it was cancelled
+export async function updateExportProgress(id: string, progress: ExportProgress): Promise<boolean> {
+  const result = await pgPool.query(
+    `UPDATE export_jobs SET
+      rooms_total = COALESCE($2, rooms_total),
+      rooms_done = COALESCE($3, rooms_done),
+      messages_total = COALESCE($4, messages_total),
+      messages_exported = COALESCE($5, messages_exported),
+      current_room_id = CASE WHEN $6::boolean THEN $7 ELSE current_room_id END
+    WHERE id = $1 AND status = 'running'
+    RETURNING id`,
+    [
+      id,
+      progress.roomsTotal ?? null,
+      progress.roomsDone ?? null,
+      progress.messagesTotal ?? null,
+      progress.messagesExported ?? null,
+      progress.currentRoomId !== undefined,
+      progress.currentRoomId ?? null,
+    ]
+  );
+  return result.rows.length > 0;
+}
+
+export async function completeExportJob(
+  id: string,
+  file: { filePath: string; fileSize: number }
+): Promise<boolean> {
+  const result = await pgPool.query(
+    `UPDATE export_jobs SET
+      status = 'completed', file_path = $2, file_size = $3, current_room_id = NULL,
+      completed_at = now()
+    WHERE id = $1 AND status = 'running'
+    RETURNING id`,
+    [id, file.filePath, file.fileSize]
+  );
+  return result.rows.length > 0;
+}
+
+export async function failExportJob(id: string, error: string): Promise<void> {
+  await pgPool.query(
+    `UPDATE export_jobs SET status = 'failed', error = $2, completed_at = now()
+    WHERE id = $1 AND status = 'running'`,
+    [id, error]
+  );
+}
+
+export async function cancelExportJob(id: string, accountKey: string): Promise<ExportJob | null> {
+  const query = `
+    UPDATE export_jobs SET status = 'cancelled', completed_at = now()
+    WHERE id = $1 AND account_key = $2 AND status IN ('pending', 'running')
+    RETURNING *
+  `;
+  const result = await pgPool.query(query, [id, accountKey]);
+  return result.rows[0] ? toExportJob(result.rows[0]) : null;
+}
+
+// finished jobs only, a running export has to be cancelled first
+export async function deleteExportJob(id: string, accountKey: string): Promise<ExportJob | null> {
+  const result = await pgPool.query(
+    `DELETE FROM export_jobs
+    WHERE id = $1 AND account_key = $2 AND status NOT IN ('pending', 'running')
+    RETURNING *`,
+    [id, accountKey]
+  );
+  return result.rows[0] ? toExportJob(result.rows[0]) : null;
+}
+
+export async function getExportJob(id: string, accountKey: string): Promise<ExportJob | null> {
+  const result = await pgPool.query(
+    'SELECT * FROM export_jobs WHERE id = $1 AND account_key = $2',
+    [id, accountKey]
+  );
+  return result.rows[0] ? toExportJob(result.rows[0]) : null;
+}
+
+export async function listExportJobs(filters: {
+  accountKey: string;
+  status?: ExportStatus;
+  limit: number;
+  offset: number;
+}): Promise<ExportJob[]> {
+  const params: any[] = [filters.accountKey];
+  const conditions = ['account_key = $1'];
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`status = $${params.length}`);
+  }
+
+  params.push(filters.limit, filters.offset);
+  const query = `
+    SELECT * FROM export_jobs
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY created_at DESC
+    LIMIT $${params.length - 1} OFFSET $${params.length}
+  `;
+
+  const result = await pgPool.query(query, params);
+  return result.rows.map(toExportJob);
+}
+
+export async function loadExportRooms(
+  filters: ExportFilters,
+  accountKey: string
+): Promise<ExportRoom[]> {
+  const params: any[] = [accountKey];
+  const conditions: string[] = [accountRoomCondition('id', 1)];
+
+  if (filters.roomIds) {
+    params.push(filters.roomIds);
+    conditions.push(`id = ANY($${params.length})`);
+  }
+  if (filters.network) {
+    params.push(filters.network);
+    conditions.push(`network = $${params.length}`);
+  }
+
+  const query = `
+    SELECT id, name, topic, network, is_encrypted, created_ts FROM rooms
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY name NULLS LAST, id
+  `;
+
+  const result = await pgPool.query(query, params);
+  return result.rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    topic: row.topic,
+    network: row.network,
+    isEncrypted: row.is_encrypted,
+    createdTs: row.created_ts === null ? null : Number(row.created_ts),
+  }));
+}
+
+export async function loadExportParticipants(roomId: string): Promise<ExportParticipant[]> {
+  const result = await pgPool.query(
+    `SELECT user_id, display_name, membership, joined_ts FROM participants
+    WHERE room_id = $1
+    ORDER BY display_name NULLS LAST, user_id`,
+    [roomId]
+  );
+  return result.rows.map((row) => ({
+    userId: row.user_id,
+    displayName: row.display_name,
+    membership: row.membership,
+    joinedTs: row.joined_ts === null ? null : Number(row.joined_ts),
+  }));
+}
+
+function exportMessageConditions(filters: ExportFilters, params: any[]): string[] {
+  const conditions: string[] = [];
+
+  if (filters.fromTs !== undefined) {
+    params.push(filters.fromTs);
+    conditions.push(`m.timestamp >= $${params.length}`);
+  }
+  if (filters.toTs !== undefined) {
+    params.push(filters.toTs);
+    conditions.push(`m.timestamp <= $${params.length}`);
+  }
+
+  return conditions;
+}
+
+export async function countExportMessages(
+  roomIds: string[],
+  filters: ExportFilters
+): Promise<number> {
+  const params: any[] = [roomIds];
+  const conditions = ['m.room_id = ANY($1)', ...exportMessageConditions(filters, params)];
+
+  const result = await pgPool.query(
+    `SELECT COUNT(*) AS count FROM messages m WHERE ${conditions.join(' AND ')}`,
+    params
+  );
+  return Number(result.rows[0].count);
+}
+
+// one page of a room in timeline order, after the (timestamp, event ID) of the previous page
+export async function loadExportMessages(
+  roomId: string,
+  filters: ExportFilters,
+  after: { timestamp: number; eventId: string } | null,
+  limit: number
+): Promise<ExportMessage[]> {
+  const params: any[] = [roomId];
+  const conditions = ['m.room_id = $1', ...exportMessageConditions(filters, params)];
+
+  if (after) {
+    params.push(after.timestamp, after.eventId);
+    conditions.push(`(m.timestamp, m.event_id) > ($${params.length - 1}, $${params.length})`);
+  }
+
+  params.push(limit);
+  const query = `
+    SELECT
+      m.event_id, m.room_id, m.sender, m.event_type, m.timestamp, m.is_encrypted,
+      m.thread_root_id, m.last_edit_event_id, m.redaction_event_id,
+      COALESCE(m.current_content, m.content) AS content,
+      m.content->'m.relates_to'->'m.in_reply_to'->>'event_id' AS reply_event_id,
+      reply.sender AS reply_sender,
+      COALESCE(reply.current_content, reply.content)->>'body' AS reply_body,
+      COALESCE(
+        (
+          SELECT json_agg(json_build_object(
+            'id', md.id, 'mxcUrl', md.mxc_url, 'kind', md.kind, 'mimetype', md.mimetype,
+            'fileName', md.file_name, 'status', md.status, 'size', md.size,
+            'storagePath', md.storage_path
+          ) ORDER BY md.kind)
+          FROM media md
+          WHERE md.event_id = m.event_id
+        ),
+        '[]'
+      ) AS media
+    FROM messages m
+    LEFT JOIN messages reply
+      ON reply.event_id = m.content->'m.relates_to'->'m.in_reply_to'->>'event_id'
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY m.timestamp, m.event_id
+    LIMIT $${params.length}
+  `;
+
+  const result = await pgPool.query(query, params);
+  return result.rows.map((row) => ({
+    eventId: row.event_id,
+    roomId: row.room_id,
+    sender: row.sender,
+    eventType: row.event_type,
+    timestamp: Number(row.timestamp),
+    content: row.content,
+    isEncrypted: row.is_encrypted,
+    threadRootId: row.thread_root_id,
+    edited: row.last_edit_event_id !== null,
+    redacted: row.redaction_event_id !== null,
+    replyTo: row.reply_event_id
+      ? { eventId: row.reply_event_id, sender: row.reply_sender, body: row.reply_body }
+      : null,
+    media: row.media.map((media: any) => ({
+      ...media,
+      size: media.size === null ? null : Number(media.size),
+    })),
+  }));
+}
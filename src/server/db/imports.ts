@@ -0,0 +1,222 @@
+import { ImportProgress, ImportRecord, ImportSource, ImportStatus } from '@/server/types';
+import { accountRoomCondition } from './accounts';
+import { pgPool } from './client';
+
+function toImportRecord(row: any): ImportRecord {
+  return {
+    id: row.id,
+    accountKey: row.account_key,
+    source: row.source,
+    fileName: row.file_name,
+    status: row.status,
+    roomIds: row.room_ids,
+    eventsTotal: row.events_total,
+    eventsImported: row.events_imported,
+    eventsDuplicate: row.events_duplicate,
+    eventsFailed: row.events_failed,
+    errors: row.errors,
+    error: row.error,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+export async function createImport(run: {
+  accountKey: string | null;
+  source: ImportSource;
+  fileName: string | null;
+  roomIds: string[];
+  eventsTotal: number;
+}): Promise<ImportRecord> {
+  const query = `
+    INSERT INTO imports (account_key, source, file_name, room_ids, events_total)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *
+  `;
+  const result = await pgPool.query(query, [
+    run.accountKey,
+    run.source,
+    run.fileName,
+    run.roomIds,
+    run.eventsTotal,
+  ]);
+  return toImportRecord(result.rows[0]);
+}
+
+export async function updateImportProgress(id: string, progress: ImportProgress): Promise<void> {
+  await pgPool.query(
+    `UPDATE imports SET
+      events_imported = $2, events_duplicate = $3, events_failed = $4, errors = $5
+    WHERE id = $1`,
+    [
+      id,
+      progress.eventsImported,
+      progress.eventsDuplicate,
+      progress.eventsFailed,
+      JSON.stringify(progress.errors),
+    ]
+  );
+}
+
+export async function finishImport(
+  id: string,
+  status: Exclude<ImportStatus, 'running'>,
+  error: string | null = null
+): Promise<ImportRecord> {
+  const result = await pgPool.query(
+    `UPDATE imports SET status = $2, error = $3, completed_at = now() WHERE id = $1 RETURNING *`,
+    [id, status, error]
+  );
+  return toImportRecord(result.rows[0]);
+}
+
+// the uploaded file is gone after a restart, so an interrupted import cannot resume
+export async function failInterruptedImports(): Promise<void> {
+  await pgPool.query(
+    `UPDATE imports SET status = 'failed', error = 'Interrupted by a server restart',
+      completed_at = now()
+    WHERE status = 'running'`
+  );
+}
+
+export async function getImport(id: string, accountKey: string): Promise<ImportRecord | null> {
+  const result = await pgPool.query('SELECT * FROM imports WHERE id = $1 AND account_key = $2', [
+    id,
+    accountKey,
+  ]);
+  return result.rows[0] ? toImportRecord(result.rows[0]) : null;
+}
+
+export async function listImports(filters: {
+  accountKey: string;
+  limit: number;
+  offset: number;
+}): Promise<ImportRecord[]> {
+  const query = `
+    SELECT * FROM imports
+    WHERE account_key = $1
+    ORDER BY created_at DESC
+    LIMIT $2 OFFSET $3
+  `;
+  const result = await pgPool.query(query, [filters.accountKey, filters.limit, filters.offset]);
+  return result.rows.map(toImportRecord);
+}
+
+// rooms known from live sync keep their details, imports only fill in what is missing
+export async function persistImportedRoom(
+  room: {
+    id: string;
+    name: string | null;
+    topic: string | null;
+    isEncrypted: boolean;
+    createdTs: number | null;
+  },
+  importId: string
+): Promise<void> {
+  const query = `
+    INSERT INTO rooms (id, name, topic, is_encrypted, created_ts, import_id, last_updated)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (id) DO UPDATE SET
+      name = COALESCE(rooms.name, EXCLUDED.name),
+      topic = COALESCE(rooms.topic, EXCLUDED.topic),
+      is_encrypted = rooms.is_encrypted OR EXCLUDED.is_encrypted,
+      created_ts = COALESCE(rooms.created_ts, EXCLUDED.created_ts)
+  `;
+
+  try {
+    await pgPool.query(query, [
+      room.id,
+      room.name,
+      room.topic,
+      room.isEncrypted,
+      room.createdTs,
+      importId,
+      new Date().toISOString(),
+    ]);
+  } catch (error: any) {
+    throw new Error(`Failed to import room: ${error.message}`);
+  }
+}
+
+export async function persistImportedParticipants(
+  roomId: string,
+  participants: {
+    userId: string;
+    displayName: string | null;
+    avatarUrl: string | null;
+    membership: string;
+    joinedTs: number | null;
+  }[]
+): Promise<void> {
+  if (participants.length === 0) return;
+
+  const query = `
+    INSERT INTO participants (
+      user_id, room_id, display_name, avatar_url, membership, joined_ts, last_updated
+    )
+    SELECT p.user_id, $1, p.display_name, p.avatar_url, p.membership, p.joined_ts, $2
+    FROM jsonb_to_recordset($3) AS p(
+      user_id TEXT, display_name TEXT, avatar_url TEXT, membership TEXT, joined_ts BIGINT
+    )
+    ON CONFLICT (user_id, room_id) DO NOTHING
+  `;
+
+  try {
+    await pgPool.query(query, [
+      roomId,
+      new Date().toISOString(),
+      JSON.stringify(
+        participants.map((participant) => ({
+          user_id: participant.userId,
+          display_name: participant.displayName,
+          avatar_url: participant.avatarUrl,
+          membership: participant.membership,
+          joined_ts: participant.joinedTs,
+        }))
+      ),
+    ]);
+  } catch (error: any) {
+    throw new Error(`Failed to import participants: ${error.message}`);
+  }
+}
+
+// event IDs already stored by any of the event handlers
+export async function loadKnownEventIds(eventIds: string[]): Promise<Set<string>> {
+  const query = `
+    SELECT event_id FROM messages WHERE event_id = ANY($1)
+    UNION SELECT edit_event_id FROM message_versions WHERE edit_event_id = ANY($1)
+    UNION SELECT event_id FROM reactions WHERE event_id = ANY($1)
+    UNION SELECT event_id FROM redactions WHERE event_id = ANY($1)
+    UNION SELECT event_id FROM state_events WHERE event_id = ANY($1)
+    UNION SELECT event_id FROM raw_events WHERE event_id = ANY($1)
+  `;
+  const result = await pgPool.query(query, [eventIds]);
+  return new Set(result.rows.map((row) => row.event_id));
+}
+
+// archived events in rooms the account does not archive, which its imports may not edit or redact
+export async function loadForeignEventIds(
+  accountKey: string,
+  eventIds: string[]
+): Promise<Set<string>> {
+  const foreign = (table: string, column: string) =>
+    `SELECT ${column} AS event_id FROM ${table} t
+    WHERE ${column} = ANY($2) AND NOT ${accountRoomCondition('t.room_id', 1)}`;
+
+  const query = [
+    foreign('messages', 'event_id'),
+    foreign('message_versions', 'edit_event_id'),
+    foreign('reactions', 'event_id'),
+    foreign('state_events', 'event_id'),
+    foreign('raw_events', 'event_id'),
+  ].join('\n    UNION ');
+  const result = await pgPool.query(query, [accountKey, eventIds]);
+  return new Set(result.rows.map((row) => row.event_id));
+}
+
+export async function tagImportedMessages(importId: string, eventIds: string[]): Promise<void> {
+  await pgPool.query(
+    'UPDATE messages SET import_id = $1 WHERE event_id = ANY($2) AND import_id IS NULL',
+    [importId, eventIds]
+  );
+}
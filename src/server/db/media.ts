@@ -0,0 +1,202 @@
+import pg from 'pg';
+import { MediaRecord, MediaStatus } from '@/server/types';
+import { extractMediaReferences } from '@/server/utils/media.utils';
+import { pgPool } from './client';
+import { accountRoomCondition } from './accounts';
+
+export async function enqueueMedia(
+  roomId: string,
+  eventId: string,
+  eventType: string,
+  content: Record<string, any>,
+  db: pg.Pool | pg.PoolClient = pgPool
+): Promise<void> {
+  const references = extractMediaReferences(eventType, content);
+  if (references.length === 0) return;
+
+  const query = `
+    INSERT INTO media (
+      event_id, room_id, mxc_url, kind, mimetype, declared_size, file_name, encryption
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (event_id, mxc_url) DO NOTHING
+  `;
+
+  try {
+    for (const reference of references) {
+      await db.query(query, [
+        eventId,
+        roomId,
+        reference.mxcUrl,
+        reference.kind,
+        reference.mimetype,
+        reference.declaredSize,
+        reference.fileName,
+        reference.encryption ? JSON.stringify(reference.encryption) : null,
+      ]);
+    }
+  } catch (error: any) {
+    throw new Error(`Failed to enqueue media: ${error.message}`);
+  }
+}
+
+function toMediaRecord(row: any): MediaRecord {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    roomId: row.room_id,
+    mxcUrl: row.mxc_url,
+    kind: row.kind,
+    mimetype: row.mimetype,
+    declaredSize: row.declared_size === null ? null : Number(row.declared_size),
+    fileName: row.file_name,
+    encryption: row.encryption,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    sha256: row.sha256,
+    size: row.size === null ? null : Number(row.size),
+    storagePath: row.storage_path,
+    downloadedAt: row.downloaded_at,
+  };
+}
+
+// media in the account's rooms, downloaded with its own access token
+export async function claimPendingMedia(accountKey: string, limit: number): Promise<MediaRecord[]> {
+  const query = `
+    UPDATE media SET status = 'downloading', attempts = attempts + 1, claimed_by = $1
+    WHERE id IN (
+      SELECT id FROM media
+      WHERE status = 'pending' AND next_attempt_at <= now() AND ${accountRoomCondition('room_id', 1)}
+      ORDER BY next_attempt_at
+      LIMIT $2
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  const result = await pgPool.query(query, [accountKey, limit]);
+  return result.rows.map(toMediaRecord);
+}
+
+// downloads interrupted by a restart go back into the queue
+export async function resetInterruptedMedia(accountKey: string): Promise<void> {
+  await pgPool.query(
+    `UPDATE media SET status = 'pending' WHERE claimed_by = $1 AND status = 'downloading'`,
+    [accountKey]
+  );
+}
+
+export async function markMediaDownloaded(
+  id: string,
+  file: { sha256: string; size: number; storagePath: string }
+): Promise<void> {
+  const query = `
+    UPDATE media SET
+      status = 'downloaded', sha256 = $2, size = $3, storage_path = $4,
+      last_error = NULL, downloaded_at = $5
+    WHERE id = $1 AND status = 'downloading'
+  `;
+  await pgPool.query(query, [
+    id,
+    file.sha256,
+    file.size,
+    file.storagePath,
+    new Date().toISOString(),
+  ]);
+}
+
+export async function markMediaSkipped(id: string, reason: string): Promise<void> {
+  await pgPool.query(
+    `UPDATE media SET status = 'skipped', last_error = $2 WHERE id = $1 AND status = 'downloading'`,
+    [id, reason]
+  );
+}
+
+// retries back off exponentially, starting at one minute
+export async function markMediaFailed(
+  id: string,
+  error: string,
+  maxAttempts: number
+): Promise<void> {
+  const query = `
+    UPDATE media SET
+      status = CASE WHEN attempts >= $3 THEN 'failed' ELSE 'pending' END,
+      last_error = $2,
+      next_attempt_at = now() + interval '1 minute' * power(2, attempts - 1)
+    WHERE id = $1 AND status = 'downloading'
+  `;
+  await pgPool.query(query, [id, error, maxAttempts]);
+}
+
+export async function retryMedia(id: string, accountKey: string): Promise<MediaRecord | null> {
+  const query = `
+    UPDATE media SET status = 'pending', attempts = 0, next_attempt_at = now()
+    WHERE id = $1 AND status IN ('failed', 'skipped') AND ${accountRoomCondition('room_id', 2)}
+    RETURNING *
+  `;
+  const result = await pgPool.query(query, [id, accountKey]);
+  return result.rows[0] ? toMediaRecord(result.rows[0]) : null;
+}
+
+export async function getMedia(id: string, accountKey: string): Promise<MediaRecord | null> {
+  const result = await pgPool.query(
+    `SELECT * FROM media WHERE id = $1 AND ${accountRoomCondition('room_id', 2)}`,
+    [id, accountKey]
+  );
+  return result.rows[0] ? toMediaRecord(result.rows[0]) : null;
+}
+
+export async function listMedia(filters: {
+  accountKey: string;
+  roomId?: string;
+  eventId?: string;
+  status?: MediaStatus;
+  limit: number;
+  offset: number;
+}): Promise<MediaRecord[]> {
+  const conditions: string[] = [accountRoomCondition('room_id', 1)];
+  const params: any[] = [filters.accountKey];
+
+  if (filters.roomId) {
+    params.push(filters.roomId);
+    conditions.push(`room_id = $${params.length}`);
+  }
+  if (filters.eventId) {
+    params.push(filters.eventId);
+    conditions.push(`event_id = $${params.length}`);
+  }
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`status = $${params.length}`);
+  }
+
+  params.push(filters.limit, filters.offset);
+  const query = `
+    SELECT * FROM media
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY created_at DESC
+    LIMIT $${params.length - 1} OFFSET $${params.length}
+  `;
+
+  const result = await pgPool.query(query, params);
+  return result.rows.map(toMediaRecord);
+}
+
+// files of redacted media that no unredacted row still points at
+export async function loadPurgeableMedia(): Promise<{ id: string; storagePath: string }[]> {
+  const query = `
+    SELECT m.id, m.storage_path
+    FROM media m
+    WHERE m.status = 'redacted'
+      AND m.storage_path IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM media other
+        WHERE other.sha256 = m.sha256 AND other.status <> 'redacted'
+      )
+  `;
+  const result = await pgPool.query(query);
+  return result.rows.map((row) => ({ id: row.id, storagePath: row.storage_path }));
+}
+
+export async function clearMediaFile(id: string): Promise<void> {
+  await pgPool.query('UPDATE media SET storage_path = NULL, sha256 = NULL WHERE id = $1', [id]);
+}
@@ -0,0 +1,337 @@
+import pg from 'pg';
+import { MatrixEvent, RelationType, THREAD_RELATION_TYPE } from 'matrix-js-sdk';
+import { pgPool } from './client';
+import { writeBuffer } from './write-buffer';
+import { enqueueMedia } from './media';
+import { enqueueWebhookDeliveries } from './webhooks';
+
+export function threadRootOf(event: MatrixEvent): string | null {
+  const relation = event.getRelation();
+  return relation?.rel_type && THREAD_RELATION_TYPE.matches(relation.rel_type)
+    ? (relation.event_id ?? null)
+    : null;
+}
+
+interface BufferedEvent {
+  roomId: string;
+  event: MatrixEvent;
+}
+
+// a redacted row keeps its scrubbed content even if an older copy of the event is re-ingested
+const enqueueMessage = writeBuffer.register<{ roomId: string | undefined; event: MatrixEvent }>({
+  table: 'messages',
+  columns: [
+    'event_id',
+    'room_id',
+    'sender',
+    'content',
+    'event_type',
+    'timestamp',
+    'is_encrypted',
+    'relates_to',
+    'error',
+    'redaction_event_id',
+    'redacted_by',
+    'redacted_ts',
+    'redaction_reason',
+    'thread_root_id',
+  ],
+  onConflict: `
+    ON CONFLICT (event_id) DO UPDATE SET
+      room_id = EXCLUDED.room_id,
+      sender = EXCLUDED.sender,
+      content = CASE WHEN messages.redaction_event_id IS NULL
+        THEN EXCLUDED.content ELSE messages.content END,
+      event_type = EXCLUDED.event_type,
+      timestamp = EXCLUDED.timestamp,
+      is_encrypted = EXCLUDED.is_encrypted,
+      relates_to = CASE WHEN messages.redaction_event_id IS NULL
+        THEN EXCLUDED.relates_to ELSE messages.relates_to END,
+      thread_root_id = COALESCE(EXCLUDED.thread_root_id, messages.thread_root_id),
+      error = EXCLUDED.error,
+      redaction_event_id = COALESCE(messages.redaction_event_id, EXCLUDED.redaction_event_id),
+      redacted_by = COALESCE(messages.redacted_by, EXCLUDED.redacted_by),
+      redacted_ts = COALESCE(messages.redacted_ts, EXCLUDED.redacted_ts),
+      redaction_reason = COALESCE(messages.redaction_reason, EXCLUDED.redaction_reason)
+  `,
+  key: ({ event }) => event.getId()!,
+  values: ({ roomId, event }) => {
+    // events fetched after they were redacted arrive pruned, with the redaction in unsigned
+    const redactedBecause = event.isRedacted() ? event.getUnsigned().redacted_because : undefined;
+
+    return [
+      event.getId(),
+      roomId,
+      event.sender,
+      JSON.stringify(event.getContent()),
+      event.getType(),
+      event.getTs(),
+      event.isEncrypted(),
+      JSON.stringify(event.getRelation()),
+      event.error?.message ?? null,
+      redactedBecause?.event_id ?? null,
+      redactedBecause?.sender ?? null,
+      redactedBecause?.origin_server_ts ?? null,
+      redactedBecause?.content?.reason ?? null,
+      threadRootOf(event),
+    ];
+  },
+  afterInsert: async (client, rows) => {
+    // edits may have been stored before the event they replace
+    await refreshCurrentContent(
+      client,
+      rows.map(({ event }) => event.getId()!)
+    );
+
+    const threads = new Map<string, { roomId: string; rootId: string }>();
+    for (const { roomId, event } of rows) {
+      if (!roomId) continue;
+
+      await enqueueMedia(roomId, event.getId()!, event.getType(), event.getContent(), client);
+
+      const rootId = threadRootOf(event);
+      if (rootId) threads.set(`${roomId}|${rootId}`, { roomId, rootId });
+    }
+
+    for (const { roomId, rootId } of threads.values()) {
+      await refreshThread(client, roomId, rootId);
+    }
+
+    await client.query(
+      `UPDATE rooms r SET last_message_timestamp = GREATEST(r.last_message_timestamp, m.last_ts)
+      FROM (
+        SELECT room_id, MAX(timestamp) AS last_ts FROM messages
+        WHERE event_id = ANY($1) GROUP BY room_id
+      ) m
+      WHERE m.room_id = r.id`,
+      [rows.map(({ event }) => event.getId())]
+    );
+  },
+  // a webhook that cannot be queued is logged by the buffer and never fails the write
+  afterCommit: async (rows) => {
+    await enqueueWebhookDeliveries(rows.map(({ event }) => event.getId()!));
+  },
+});
+
+export async function persistMessage(
+  roomId: string | undefined,
+  event: MatrixEvent
+): Promise<void> {
+  try {
+    await enqueueMessage({ roomId, event });
+  } catch (error) {
+    console.error('Error persisting message:', error);
+    throw error;
+  }
+}
+
+// points the original message at its latest valid edit, or back at its own content
+export async function refreshCurrentContent(
+  db: pg.Pool | pg.PoolClient,
+  originalEventIds: string[]
+): Promise<void> {
+  const query = `
+    UPDATE messages m SET (current_content, last_edit_event_id, edited_ts) = (
+      SELECT v.content, v.edit_event_id, v.timestamp
+      FROM message_versions v
+      WHERE v.original_event_id = m.event_id
+        AND v.room_id = m.room_id
+        AND v.sender = m.sender
+        AND NOT v.redacted
+      ORDER BY v.timestamp DESC, v.edit_event_id DESC
+      LIMIT 1
+    )
+    WHERE m.event_id = ANY($1) AND m.redaction_event_id IS NULL
+  `;
+  await db.query(query, [originalEventIds]);
+}
+
+// recomputed from the stored replies so out-of-order and backfilled events converge
+export async function refreshThread(
+  db: pg.Pool | pg.PoolClient,
+  roomId: string,
+  rootEventId: string
+): Promise<void> {
+  const query = `
+    INSERT INTO threads (
+      root_event_id, room_id, reply_count, last_reply_event_id, last_reply_ts,
+      participants, last_updated
+    )
+    SELECT $1, $2,
+      COUNT(*),
+      (array_agg(r.event_id ORDER BY r.timestamp DESC))[1],
+      MAX(r.timestamp),
+      ARRAY(
+        SELECT DISTINCT sender FROM messages
+        WHERE (event_id = $1 OR thread_root_id = $1) AND room_id = $2
+        ORDER BY sender
+      ),
+      $3
+    FROM messages r
+    WHERE r.thread_root_id = $1 AND r.room_id = $2 AND r.redaction_event_id IS NULL
+    ON CONFLICT (root_event_id) DO UPDATE SET
+      reply_count = EXCLUDED.reply_count,
+      last_reply_event_id = EXCLUDED.last_reply_event_id,
+      last_reply_ts = EXCLUDED.last_reply_ts,
+      participants = EXCLUDED.participants,
+      last_updated = EXCLUDED.last_updated
+  `;
+  await db.query(query, [rootEventId, roomId, new Date().toISOString()]);
+}
+
+export async function persistMessageEdit(roomId: string, event: MatrixEvent): Promise<void> {
+  const relation = event.getRelation();
+  if (relation?.rel_type !== RelationType.Replace || !relation.event_id) {
+    throw new Error(`Event ${event.getId()} is not an edit`);
+  }
+
+  const query = `
+    INSERT INTO message_versions (
+      edit_event_id, original_event_id, room_id, sender, content, timestamp
+    ) VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (edit_event_id) DO UPDATE SET
+      content = CASE WHEN message_versions.redacted
+        THEN message_versions.content ELSE EXCLUDED.content END
+  `;
+
+  const client = await pgPool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(query, [
+      event.getId(),
+      relation.event_id,
+      roomId,
+      event.getSender(),
+      JSON.stringify(event.getContent()['m.new_content'] ?? {}),
+      event.getTs(),
+    ]);
+    await refreshCurrentContent(client, [relation.event_id]);
+    await client.query('COMMIT');
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    throw new Error(`Failed to sync message edit: ${error.message}`);
+  } finally {
+    client.release();
+  }
+}
+
+export async function persistReaction(roomId: string, event: MatrixEvent): Promise<void> {
+  const relation = event.getRelation();
+  if (!relation?.event_id || !relation.key) {
+    throw new Error(`Reaction ${event.getId()} has no target or key`);
+  }
+
+  const query = `
+    INSERT INTO reactions (event_id, room_id, sender, target_event_id, key, timestamp)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (event_id) DO NOTHING
+  `;
+
+  try {
+    await pgPool.query(query, [
+      event.getId(),
+      roomId,
+      event.getSender(),
+      relation.event_id,
+      relation.key,
+      event.getTs(),
+    ]);
+  } catch (error: any) {
+    throw new Error(`Failed to sync reaction: ${error.message}`);
+  }
+}
+
+// events fetched after they were redacted arrive pruned, with the redaction in unsigned
+function redactedBy(event: MatrixEvent): string | null {
+  return event.isRedacted() ? (event.getUnsigned().redacted_because?.event_id ?? null) : null;
+}
+
+const enqueueStateEvent = writeBuffer.register<BufferedEvent>({
+  table: 'state_events',
+  columns: [
+    'event_id',
+    'room_id',
+    'sender',
+    'event_type',
+    'state_key',
+    'content',
+    'prev_content',
+    'timestamp',
+    'redaction_event_id',
+  ],
+  // like messages, a redacted row keeps its scrubbed content
+  onConflict: `
+    ON CONFLICT (event_id) DO UPDATE SET
+      content = CASE WHEN state_events.redaction_event_id IS NULL
+        THEN EXCLUDED.content ELSE state_events.content END,
+      prev_content = EXCLUDED.prev_content,
+      redaction_event_id = COALESCE(state_events.redaction_event_id, EXCLUDED.redaction_event_id)
+  `,
+  key: ({ event }) => event.getId()!,
+  values: ({ roomId, event }) => [
+    event.getId(),
+    roomId,
+    event.getSender(),
+    event.getType(),
+    event.getStateKey() ?? '',
+    JSON.stringify(event.getContent()),
+    JSON.stringify(event.getPrevContent()),
+    event.getTs(),
+    redactedBy(event),
+  ],
+  afterInsert: async (client, rows) => {
+    for (const { roomId, event } of rows) {
+      await enqueueMedia(roomId, event.getId()!, event.getType(), event.getContent(), client);
+    }
+  },
+});
+
+export async function persistStateEvent(roomId: string, event: MatrixEvent): Promise<void> {
+  try {
+    await enqueueStateEvent({ roomId, event });
+  } catch (error: any) {
+    throw new Error(`Failed to sync state event: ${error.message}`);
+  }
+}
+
+const enqueueRawEvent = writeBuffer.register<BufferedEvent>({
+  table: 'raw_events',
+  columns: [
+    'event_id',
+    'room_id',
+    'sender',
+    'event_type',
+    'content',
+    'raw',
+    'timestamp',
+    'redaction_event_id',
+  ],
+  onConflict: `
+    ON CONFLICT (event_id) DO UPDATE SET
+      event_type = EXCLUDED.event_type,
+      content = CASE WHEN raw_events.redaction_event_id IS NULL
+        THEN EXCLUDED.content ELSE raw_events.content END,
+      raw = CASE WHEN raw_events.redaction_event_id IS NULL
+        THEN EXCLUDED.raw ELSE raw_events.raw END,
+      redaction_event_id = COALESCE(raw_events.redaction_event_id, EXCLUDED.redaction_event_id)
+  `,
+  key: ({ event }) => event.getId()!,
+  values: ({ roomId, event }) => [
+    event.getId(),
+    roomId,
+    event.getSender(),
+    event.getType(),
+    JSON.stringify(event.getContent()),
+    JSON.stringify(event.getEffectiveEvent()),
+    event.getTs(),
+    redactedBy(event),
+  ],
+});
+
+export async function persistRawEvent(roomId: string, event: MatrixEvent): Promise<void> {
+  try {
+    await enqueueRawEvent({ roomId, event });
+  } catch (error: any) {
+    throw new Error(`Failed to sync raw event: ${error.message}`);
+  }
+}
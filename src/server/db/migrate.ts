@@ -0,0 +1,69 @@
+import { pgPool } from './client';
+import { MigrationStatus, Migrator } from './migrator';
+
+const USAGE = 'Usage: npm run db:migrate -- <status | up [version] | down [steps]>';
+
+function print(statuses: MigrationStatus[]): void {
+  console.table(
+    statuses.map((status) => ({
+      version: status.version,
+      name: status.name,
+      state: status.state,
+      appliedAt: status.appliedAt ?? '',
+      ms: status.executionMs ?? '',
+    }))
+  );
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Expected a non-negative integer, got "${value}"\n${USAGE}`);
+  }
+  return parsed;
+}
+
+async function main(): Promise<void> {
+  const [command = 'status', arg] = process.argv.slice(2);
+  const migrator = new Migrator(pgPool);
+
+  switch (command) {
+    case 'status': {
+      const statuses = await migrator.status();
+      print(statuses);
+
+      const pending = statuses.filter((status) => status.state === 'pending').length;
+      console.log(pending > 0 ? `${pending} pending migration(s).` : 'Schema is up to date.');
+      break;
+    }
+    case 'up': {
+      const applied = await migrator.up(parseNumber(arg));
+      if (applied.length > 0) {
+        print(applied);
+      } else {
+        console.log('Nothing to apply.');
+      }
+      break;
+    }
+    case 'down': {
+      const reverted = await migrator.down(parseNumber(arg) ?? 1);
+      if (reverted.length > 0) {
+        print(reverted);
+      } else {
+        console.log('Nothing to revert.');
+      }
+      break;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pgPool.end());
@@ -0,0 +1,191 @@
+import { Migration } from './migration';
+
+// backfill, typed event tables, redactions, edits, threads, undecryptable events and media
+export const eventModel: Migration = {
+  version: 2,
+  name: 'event_model',
+  up: `
+    ALTER TABLE messages
+      ADD COLUMN IF NOT EXISTS thread_root_id TEXT,
+      ADD COLUMN IF NOT EXISTS redaction_event_id TEXT,
+      ADD COLUMN IF NOT EXISTS redacted_by TEXT,
+      ADD COLUMN IF NOT EXISTS redacted_ts BIGINT,
+      ADD COLUMN IF NOT EXISTS redaction_reason TEXT,
+      ADD COLUMN IF NOT EXISTS current_content JSONB,
+      ADD COLUMN IF NOT EXISTS last_edit_event_id TEXT,
+      ADD COLUMN IF NOT EXISTS edited_ts BIGINT;
+
+    CREATE TABLE IF NOT EXISTS message_versions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      edit_event_id TEXT NOT NULL UNIQUE,
+      original_event_id TEXT NOT NULL,
+      room_id TEXT NOT NULL,
+      sender TEXT NOT NULL,
+      content JSONB NOT NULL,
+      timestamp BIGINT NOT NULL,
+      redacted BOOLEAN NOT NULL DEFAULT false,
+      processed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS threads (
+      root_event_id TEXT PRIMARY KEY,
+      room_id TEXT NOT NULL,
+      reply_count INTEGER NOT NULL DEFAULT 0,
+      last_reply_event_id TEXT,
+      last_reply_ts BIGINT,
+      participants TEXT[] NOT NULL DEFAULT '{}',
+      last_updated TIMESTAMP WITH TIME ZONE NOT NULL,
+      FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS reactions (
+      event_id TEXT PRIMARY KEY,
+      room_id TEXT NOT NULL,
+      sender TEXT NOT NULL,
+      target_event_id TEXT NOT NULL,
+      key TEXT NOT NULL,
+      timestamp BIGINT NOT NULL,
+      processed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS redactions (
+      event_id TEXT PRIMARY KEY,
+      room_id TEXT NOT NULL,
+      sender TEXT NOT NULL,
+      redacts TEXT NOT NULL,
+      reason TEXT,
+      timestamp BIGINT NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE,
+      processed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS redaction_audit (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      redaction_event_id TEXT NOT NULL,
+      target_event_id TEXT NOT NULL,
+      room_id TEXT NOT NULL,
+      target_table TEXT NOT NULL,
+      redacted_by TEXT NOT NULL,
+      reason TEXT,
+      redacted_ts BIGINT NOT NULL,
+      removed_keys TEXT[] NOT NULL DEFAULT '{}',
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS state_events (
+      event_id TEXT PRIMARY KEY,
+      room_id TEXT NOT NULL,
+      sender TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      state_key TEXT NOT NULL,
+      content JSONB NOT NULL,
+      prev_content JSONB,
+      timestamp BIGINT NOT NULL,
+      processed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS raw_events (
+      event_id TEXT PRIMARY KEY,
+      room_id TEXT NOT NULL,
+      sender TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      content JSONB NOT NULL,
+      raw JSONB NOT NULL,
+      timestamp BIGINT NOT NULL,
+      processed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS undecryptable_events (
+      event_id TEXT PRIMARY KEY,
+      room_id TEXT NOT NULL,
+      sender TEXT NOT NULL,
+      session_id TEXT,
+      sender_key TEXT,
+      failure_reason TEXT,
+      attempts INTEGER NOT NULL DEFAULT 1,
+      first_seen TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      last_attempt TIMESTAMP WITH TIME ZONE NOT NULL,
+      resolved_at TIMESTAMP WITH TIME ZONE,
+      FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS media (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      event_id TEXT NOT NULL,
+      room_id TEXT NOT NULL,
+      mxc_url TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      mimetype TEXT,
+      declared_size BIGINT,
+      file_name TEXT,
+      encryption JSONB,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      sha256 TEXT,
+      size BIGINT,
+      storage_path TEXT,
+      downloaded_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (event_id, mxc_url),
+      FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS backfill_state (
+      room_id TEXT PRIMARY KEY,
+      pagination_token TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      events_persisted INTEGER NOT NULL DEFAULT 0,
+      oldest_event_ts BIGINT,
+      cutoff_ts BIGINT,
+      error TEXT,
+      last_updated TIMESTAMP WITH TIME ZONE NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_messages_thread_root ON messages(thread_root_id, timestamp) WHERE thread_root_id IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_threads_room_last_reply ON threads(room_id, last_reply_ts);
+    CREATE INDEX IF NOT EXISTS idx_message_versions_original ON message_versions(original_event_id, timestamp);
+    CREATE INDEX IF NOT EXISTS idx_reactions_target ON reactions(target_event_id);
+    CREATE INDEX IF NOT EXISTS idx_redactions_redacts ON redactions(redacts);
+    CREATE INDEX IF NOT EXISTS idx_redactions_pending ON redactions(redacts) WHERE applied_at IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_redaction_audit_target ON redaction_audit(target_event_id);
+    CREATE INDEX IF NOT EXISTS idx_state_events_room_type ON state_events(room_id, event_type, state_key);
+    CREATE INDEX IF NOT EXISTS idx_raw_events_room_type ON raw_events(room_id, event_type);
+    CREATE INDEX IF NOT EXISTS idx_undecryptable_pending ON undecryptable_events(room_id, session_id) WHERE resolved_at IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_media_pending ON media(next_attempt_at) WHERE status = 'pending';
+    CREATE INDEX IF NOT EXISTS idx_media_event ON media(event_id);
+    CREATE INDEX IF NOT EXISTS idx_media_sha256 ON media(sha256);
+    CREATE INDEX IF NOT EXISTS idx_backfill_state_status ON backfill_state(status);
+  `,
+  down: `
+    DROP TABLE IF EXISTS backfill_state;
+    DROP TABLE IF EXISTS media;
+    DROP TABLE IF EXISTS undecryptable_events;
+    DROP TABLE IF EXISTS raw_events;
+    DROP TABLE IF EXISTS state_events;
+    DROP TABLE IF EXISTS redaction_audit;
+    DROP TABLE IF EXISTS redactions;
+    DROP TABLE IF EXISTS reactions;
+    DROP TABLE IF EXISTS threads;
+    DROP TABLE IF EXISTS message_versions;
+
+    DROP INDEX IF EXISTS idx_messages_thread_root;
+    ALTER TABLE messages
+      DROP COLUMN IF EXISTS thread_root_id,
+      DROP COLUMN IF EXISTS redaction_event_id,
+      DROP COLUMN IF EXISTS redacted_by,
+      DROP COLUMN IF EXISTS redacted_ts,
+      DROP COLUMN IF EXISTS redaction_reason,
+      DROP COLUMN IF EXISTS current_content,
+      DROP COLUMN IF EXISTS last_edit_event_id,
+      DROP COLUMN IF EXISTS edited_ts;
+  `,
+};
@@ -0,0 +1,50 @@
+import { Migration } from './migration';
+
+// bridged network classification of rooms and contacts unified across networks
+export const bridgesAndContacts: Migration = {
+  version: 3,
+  name: 'bridges_and_contacts',
+  up: `
+    ALTER TABLE rooms
+      ADD COLUMN IF NOT EXISTS network TEXT,
+      ADD COLUMN IF NOT EXISTS bridge_bot TEXT,
+      ADD COLUMN IF NOT EXISTS remote_room_id TEXT,
+      ADD COLUMN IF NOT EXISTS bridge_detected_by TEXT;
+
+    CREATE TABLE IF NOT EXISTS contacts (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      display_name TEXT,
+      last_updated TIMESTAMP WITH TIME ZONE NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS contact_identities (
+      user_id TEXT PRIMARY KEY,
+      contact_id UUID NOT NULL,
+      network TEXT NOT NULL,
+      display_name TEXT,
+      normalized_name TEXT,
+      phone_number TEXT,
+      link_source TEXT NOT NULL,
+      locked BOOLEAN NOT NULL DEFAULT false,
+      last_updated TIMESTAMP WITH TIME ZONE NOT NULL,
+      FOREIGN KEY (contact_id) REFERENCES contacts(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_rooms_network ON rooms(network);
+    CREATE INDEX IF NOT EXISTS idx_contact_identities_contact ON contact_identities(contact_id);
+    CREATE INDEX IF NOT EXISTS idx_contact_identities_phone ON contact_identities(phone_number) WHERE phone_number IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_contact_identities_name ON contact_identities(normalized_name) WHERE normalized_name IS NOT NULL;
+  `,
+  down: `
+    DROP TABLE IF EXISTS contact_identities;
+    DROP TABLE IF EXISTS contacts;
+
+    DROP INDEX IF EXISTS idx_rooms_network;
+    ALTER TABLE rooms
+      DROP COLUMN IF EXISTS network,
+      DROP COLUMN IF EXISTS bridge_bot,
+      DROP COLUMN IF EXISTS remote_room_id,
+      DROP COLUMN IF EXISTS bridge_detected_by;
+  `,
+};
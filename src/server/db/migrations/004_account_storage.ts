@@ -0,0 +1,62 @@
+import { Migration } from './migration';
+
+// registered accounts and the per-account local storage, crypto store and sync store
+export const accountStorage: Migration = {
+  version: 4,
+  name: 'account_storage',
+  up: `
+    CREATE TABLE IF NOT EXISTS accounts (
+      account_key TEXT PRIMARY KEY,
+      username TEXT NOT NULL,
+      domain TEXT NOT NULL,
+      user_id TEXT,
+      password_hash TEXT,
+      status TEXT NOT NULL DEFAULT 'running',
+      last_started TIMESTAMP WITH TIME ZONE,
+      last_updated TIMESTAMP WITH TIME ZONE NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS storage_items (
+      account_key TEXT NOT NULL,
+      key TEXT NOT NULL,
+      value TEXT NOT NULL,
+      last_updated TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY (account_key, key)
+    );
+
+    CREATE TABLE IF NOT EXISTS indexeddb_snapshots (
+      account_key TEXT NOT NULL,
+      db_name TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      snapshot BYTEA NOT NULL,
+      checksum TEXT NOT NULL,
+      last_updated TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY (account_key, db_name)
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_store (
+      account_key TEXT PRIMARY KEY,
+      next_batch TEXT,
+      rooms_data JSONB,
+      account_data JSONB,
+      client_options JSONB,
+      last_saved TIMESTAMP WITH TIME ZONE NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_oob_members (
+      account_key TEXT NOT NULL,
+      room_id TEXT NOT NULL,
+      events JSONB NOT NULL,
+      last_updated TIMESTAMP WITH TIME ZONE NOT NULL,
+      PRIMARY KEY (account_key, room_id)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS sync_oob_members;
+    DROP TABLE IF EXISTS sync_store;
+    DROP TABLE IF EXISTS indexeddb_snapshots;
+    DROP TABLE IF EXISTS storage_items;
+    DROP TABLE IF EXISTS accounts;
+  `,
+};
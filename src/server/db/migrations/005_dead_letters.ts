@@ -0,0 +1,31 @@
+import { Migration } from './migration';
+
+export const deadLetters: Migration = {
+  version: 5,
+  name: 'dead_letters',
+  up: `
+    CREATE TABLE IF NOT EXISTS dead_letters (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      account_key TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      target_table TEXT NOT NULL,
+      source_id TEXT NOT NULL,
+      room_id TEXT,
+      payload JSONB NOT NULL,
+      error TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 1,
+      next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      first_failed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      last_failed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      resolved_at TIMESTAMP WITH TIME ZONE,
+      UNIQUE (account_key, kind, source_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_dead_letters_pending ON dead_letters(account_key, next_attempt_at) WHERE status = 'pending';
+    CREATE INDEX IF NOT EXISTS idx_dead_letters_status ON dead_letters(status, last_failed_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS dead_letters;
+  `,
+};
@@ -0,0 +1,52 @@
+import { Migration } from './migration';
+
+// tables and columns the API routes were already querying but no schema ever created
+export const routeTables: Migration = {
+  version: 6,
+  name: 'route_tables',
+  up: `
+    ALTER TABLE rooms ADD COLUMN IF NOT EXISTS last_message_timestamp BIGINT;
+
+    UPDATE rooms r SET last_message_timestamp = m.last_ts
+    FROM (SELECT room_id, MAX(timestamp) AS last_ts FROM messages GROUP BY room_id) m
+    WHERE m.room_id = r.id;
+
+    CREATE INDEX IF NOT EXISTS idx_rooms_last_message ON rooms(last_message_timestamp DESC NULLS LAST);
+
+    -- one row per user, with the most recently updated membership profile
+    CREATE OR REPLACE VIEW users AS
+      SELECT DISTINCT ON (user_id) user_id, display_name, avatar_url, last_updated
+      FROM participants
+      ORDER BY user_id, last_updated DESC;
+
+    -- the latest saved sync of each account
+    CREATE OR REPLACE VIEW sync_status AS
+      SELECT account_key, next_batch, last_saved AS last_sync, last_saved AS created_at
+      FROM sync_store;
+
+    CREATE TABLE IF NOT EXISTS logs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      level TEXT NOT NULL,
+      message TEXT NOT NULL,
+      context JSONB,
+      timestamp TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_logs_timestamp ON logs(timestamp DESC);
+
+    -- a single row of settings
+    CREATE TABLE IF NOT EXISTS config (
+      id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+      settings JSONB NOT NULL DEFAULT '{}',
+      last_updated TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS config;
+    DROP TABLE IF EXISTS logs;
+    DROP VIEW IF EXISTS sync_status;
+    DROP VIEW IF EXISTS users;
+    DROP INDEX IF EXISTS idx_rooms_last_message;
+    ALTER TABLE rooms DROP COLUMN IF EXISTS last_message_timestamp;
+  `,
+};
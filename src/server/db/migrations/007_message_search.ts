@@ -0,0 +1,59 @@
+import { Migration } from './migration';
+
+// full-text search over message bodies, indexed once per configured text search language
+export const messageSearch: Migration = {
+  version: 7,
+  name: 'message_search',
+  up: `
+    CREATE TABLE IF NOT EXISTS search_languages (
+      config REGCONFIG PRIMARY KEY,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    INSERT INTO search_languages (config) VALUES ('simple'), ('english') ON CONFLICT DO NOTHING;
+
+    ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+    -- the plain body outranks the formatted one, which mostly repeats it with markup
+    CREATE OR REPLACE FUNCTION message_search_vector(content JSONB) RETURNS TSVECTOR AS $$
+    DECLARE
+      body TEXT := COALESCE(content->>'body', '');
+      formatted TEXT := regexp_replace(COALESCE(content->>'formatted_body', ''), '<[^>]*>', ' ', 'g');
+      search_config REGCONFIG;
+      vector TSVECTOR := ''::tsvector;
+    BEGIN
+      FOR search_config IN SELECT config FROM search_languages LOOP
+        vector := vector
+          || setweight(to_tsvector(search_config, body), 'A')
+          || setweight(to_tsvector(search_config, formatted), 'B');
+      END LOOP;
+      RETURN vector;
+    END
+    $$ LANGUAGE plpgsql STABLE;
+
+    CREATE OR REPLACE FUNCTION update_message_search_vector() RETURNS TRIGGER AS $$
+    BEGIN
+      -- edits are searched by their latest text
+      NEW.search_vector := message_search_vector(COALESCE(NEW.current_content, NEW.content));
+      RETURN NEW;
+    END
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS messages_search_vector ON messages;
+    CREATE TRIGGER messages_search_vector
+      BEFORE INSERT OR UPDATE OF content, current_content ON messages
+      FOR EACH ROW EXECUTE FUNCTION update_message_search_vector();
+
+    UPDATE messages SET search_vector = message_search_vector(COALESCE(current_content, content));
+
+    CREATE INDEX IF NOT EXISTS idx_messages_search ON messages USING GIN (search_vector);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_messages_search;
+    DROP TRIGGER IF EXISTS messages_search_vector ON messages;
+    DROP FUNCTION IF EXISTS update_message_search_vector();
+    DROP FUNCTION IF EXISTS message_search_vector(JSONB);
+    ALTER TABLE messages DROP COLUMN IF EXISTS search_vector;
+    DROP TABLE IF EXISTS search_languages;
+  `,
+};
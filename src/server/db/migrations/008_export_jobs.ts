@@ -0,0 +1,32 @@
+import { Migration } from './migration';
+
+export const exportJobs: Migration = {
+  version: 8,
+  name: 'export_jobs',
+  up: `
+    CREATE TABLE IF NOT EXISTS export_jobs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      account_key TEXT NOT NULL,
+      format TEXT NOT NULL,
+      filters JSONB NOT NULL DEFAULT '{}',
+      status TEXT NOT NULL DEFAULT 'pending',
+      rooms_total INTEGER NOT NULL DEFAULT 0,
+      rooms_done INTEGER NOT NULL DEFAULT 0,
+      messages_total INTEGER NOT NULL DEFAULT 0,
+      messages_exported INTEGER NOT NULL DEFAULT 0,
+      current_room_id TEXT,
+      file_path TEXT,
+      file_size BIGINT,
+      error TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      started_at TIMESTAMP WITH TIME ZONE,
+      completed_at TIMESTAMP WITH TIME ZONE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_export_jobs_pending ON export_jobs(created_at) WHERE status = 'pending';
+    CREATE INDEX IF NOT EXISTS idx_export_jobs_account ON export_jobs(account_key, created_at DESC);
+  `,
+  down: `
+    DROP TABLE IF EXISTS export_jobs;
+  `,
+};
@@ -0,0 +1,36 @@
+import { Migration } from './migration';
+
+export const imports: Migration = {
+  version: 9,
+  name: 'imports',
+  up: `
+    CREATE TABLE IF NOT EXISTS imports (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      account_key TEXT,
+      source TEXT NOT NULL,
+      file_name TEXT,
+      status TEXT NOT NULL DEFAULT 'running',
+      room_ids TEXT[] NOT NULL DEFAULT '{}',
+      events_total INTEGER NOT NULL DEFAULT 0,
+      events_imported INTEGER NOT NULL DEFAULT 0,
+      events_duplicate INTEGER NOT NULL DEFAULT 0,
+      events_failed INTEGER NOT NULL DEFAULT 0,
+      errors JSONB NOT NULL DEFAULT '[]',
+      error TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      completed_at TIMESTAMP WITH TIME ZONE
+    );
+
+    ALTER TABLE rooms ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES imports(id) ON DELETE SET NULL;
+    ALTER TABLE messages ADD COLUMN IF NOT EXISTS import_id UUID REFERENCES imports(id) ON DELETE SET NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_imports_account ON imports(account_key, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_messages_import ON messages(import_id) WHERE import_id IS NOT NULL;
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_messages_import;
+    ALTER TABLE messages DROP COLUMN IF EXISTS import_id;
+    ALTER TABLE rooms DROP COLUMN IF EXISTS import_id;
+    DROP TABLE IF EXISTS imports;
+  `,
+};
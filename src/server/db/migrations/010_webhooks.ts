@@ -0,0 +1,50 @@
+import { Migration } from './migration';
+
+export const webhooks: Migration = {
+  version: 10,
+  name: 'webhooks',
+  up: `
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      account_key TEXT NOT NULL,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      description TEXT,
+      event_types TEXT[],
+      room_ids TEXT[],
+      senders TEXT[],
+      enabled BOOLEAN NOT NULL DEFAULT true,
+      consecutive_failures INTEGER NOT NULL DEFAULT 0,
+      disabled_reason TEXT,
+      disabled_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+      event_id TEXT NOT NULL,
+      payload JSONB NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      response_status INTEGER,
+      response_body TEXT,
+      error TEXT,
+      duration_ms INTEGER,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      last_attempt_at TIMESTAMP WITH TIME ZONE,
+      delivered_at TIMESTAMP WITH TIME ZONE,
+      UNIQUE (webhook_id, event_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_webhooks_account ON webhooks(account_key);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+  `,
+  down: `
+    DROP TABLE IF EXISTS webhook_deliveries;
+    DROP TABLE IF EXISTS webhooks;
+  `,
+};
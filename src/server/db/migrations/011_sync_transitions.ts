@@ -0,0 +1,24 @@
+import { Migration } from './migration';
+
+// every state change of an account's sync lifecycle, newest last
+export const syncTransitions: Migration = {
+  version: 11,
+  name: 'sync_transitions',
+  up: `
+    CREATE TABLE IF NOT EXISTS sync_transitions (
+      id BIGSERIAL PRIMARY KEY,
+      account_key TEXT NOT NULL,
+      from_state TEXT NOT NULL,
+      to_state TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      error TEXT,
+      created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sync_transitions_account
+      ON sync_transitions (account_key, id DESC);
+  `,
+  down: `
+    DROP TABLE IF EXISTS sync_transitions;
+  `,
+};
@@ -0,0 +1,92 @@
+import { Migration } from './migration';
+
+// every insert and update of messages, rooms and participants, for the live event stream
+export const changeLog: Migration = {
+  version: 12,
+  name: 'change_log',
+  up: `
+    CREATE SEQUENCE IF NOT EXISTS change_log_seq;
+
+    -- seq is assigned once the writing transaction has committed, see sequenceChanges()
+    CREATE TABLE IF NOT EXISTS change_log (
+      id BIGSERIAL PRIMARY KEY,
+      seq BIGINT UNIQUE,
+      entity TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      room_id TEXT NOT NULL,
+      entity_id TEXT NOT NULL,
+      data JSONB NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_change_log_unsequenced ON change_log (id) WHERE seq IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_change_log_room_seq ON change_log (room_id, seq);
+
+    -- upserts that only touch bookkeeping columns are not changes
+    CREATE OR REPLACE FUNCTION record_archive_change() RETURNS TRIGGER AS $$
+    DECLARE
+      ignored TEXT[] := ARRAY['last_updated', 'processed_at', 'search_vector'];
+      entity TEXT := TG_ARGV[0];
+      new_row JSONB := to_jsonb(NEW) - ignored;
+      old_row JSONB;
+      kind TEXT := 'created';
+    BEGIN
+      IF TG_OP = 'UPDATE' THEN
+        old_row := to_jsonb(OLD) - ignored;
+        IF old_row = new_row THEN
+          RETURN NULL;
+        END IF;
+
+        kind := 'updated';
+        IF entity = 'message' AND old_row->>'redaction_event_id' IS NULL
+          AND new_row->>'redaction_event_id' IS NOT NULL THEN
+          kind := 'redacted';
+        ELSIF entity = 'message'
+          AND old_row->>'last_edit_event_id' IS DISTINCT FROM new_row->>'last_edit_event_id' THEN
+          kind := 'edited';
+        END IF;
+      END IF;
+
+      INSERT INTO change_log (entity, kind, room_id, entity_id, data)
+      VALUES (
+        entity,
+        kind,
+        CASE WHEN entity = 'room' THEN new_row->>'id' ELSE new_row->>'room_id' END,
+        CASE entity
+          WHEN 'message' THEN new_row->>'event_id'
+          WHEN 'room' THEN new_row->>'id'
+          ELSE new_row->>'user_id'
+        END,
+        new_row
+      );
+
+      -- identical payloads are folded into one notification per transaction
+      PERFORM pg_notify('archive_changes', '');
+      RETURN NULL;
+    END
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS messages_change_log ON messages;
+    CREATE TRIGGER messages_change_log
+      AFTER INSERT OR UPDATE ON messages
+      FOR EACH ROW EXECUTE FUNCTION record_archive_change('message');
+
+    DROP TRIGGER IF EXISTS rooms_change_log ON rooms;
+    CREATE TRIGGER rooms_change_log
+      AFTER INSERT OR UPDATE ON rooms
+      FOR EACH ROW EXECUTE FUNCTION record_archive_change('room');
+
+    DROP TRIGGER IF EXISTS participants_change_log ON participants;
+    CREATE TRIGGER participants_change_log
+      AFTER INSERT OR UPDATE ON participants
+      FOR EACH ROW EXECUTE FUNCTION record_archive_change('participant');
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS participants_change_log ON participants;
+    DROP TRIGGER IF EXISTS rooms_change_log ON rooms;
+    DROP TRIGGER IF EXISTS messages_change_log ON messages;
+    DROP FUNCTION IF EXISTS record_archive_change();
+    DROP TABLE IF EXISTS change_log;
+    DROP SEQUENCE IF EXISTS change_log_seq;
+  `,
+};
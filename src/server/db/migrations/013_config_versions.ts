@@ -0,0 +1,28 @@
+import { Migration } from './migration';
+
+// every saved version of the pipeline settings, replacing the free-form config row nothing read
+export const configVersions: Migration = {
+  version: 13,
+  name: 'config_versions',
+  up: `
+    CREATE TABLE IF NOT EXISTS config_versions (
+      version INTEGER PRIMARY KEY,
+      settings JSONB NOT NULL,
+      changes JSONB NOT NULL DEFAULT '[]',
+      changed_by TEXT NOT NULL,
+      comment TEXT,
+      created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    DROP TABLE IF EXISTS config;
+  `,
+  down: `
+    CREATE TABLE IF NOT EXISTS config (
+      id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+      settings JSONB NOT NULL DEFAULT '{}',
+      last_updated TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    DROP TABLE IF EXISTS config_versions;
+  `,
+};
@@ -0,0 +1,23 @@
+import { Migration } from './migration';
+
+// marks redacted state and raw events, so re-ingesting one does not restore its content
+export const redactedStateAndRawEvents: Migration = {
+  version: 14,
+  name: 'redacted_state_and_raw_events',
+  up: `
+    ALTER TABLE state_events ADD COLUMN IF NOT EXISTS redaction_event_id TEXT;
+    ALTER TABLE raw_events ADD COLUMN IF NOT EXISTS redaction_event_id TEXT;
+
+    UPDATE state_events s SET redaction_event_id = a.redaction_event_id
+    FROM redaction_audit a
+    WHERE a.target_table = 'state_events' AND a.target_event_id = s.event_id;
+
+    UPDATE raw_events r SET redaction_event_id = a.redaction_event_id
+    FROM redaction_audit a
+    WHERE a.target_table = 'raw_events' AND a.target_event_id = r.event_id;
+  `,
+  down: `
+    ALTER TABLE raw_events DROP COLUMN IF EXISTS redaction_event_id;
+    ALTER TABLE state_events DROP COLUMN IF EXISTS redaction_event_id;
+  `,
+};
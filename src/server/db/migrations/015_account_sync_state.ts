@@ -0,0 +1,20 @@
+import { Migration } from './migration';
+
+// one sync token per account; the tokens written before cannot be told apart and are dropped
+export const accountSyncState: Migration = {
+  version: 15,
+  name: 'account_sync_state',
+  up: `
+    ALTER TABLE sync_state ADD COLUMN IF NOT EXISTS account_key TEXT;
+    DELETE FROM sync_state WHERE account_key IS NULL;
+    ALTER TABLE sync_state ALTER COLUMN account_key SET NOT NULL;
+    ALTER TABLE sync_state DROP CONSTRAINT IF EXISTS sync_state_next_batch_key;
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_state_account ON sync_state (account_key);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_sync_state_account;
+    ALTER TABLE sync_state DROP COLUMN IF EXISTS account_key;
+    ALTER TABLE sync_state ADD CONSTRAINT sync_state_next_batch_key UNIQUE (next_batch);
+  `,
+};
@@ -0,0 +1,48 @@
+import { Migration } from './migration';
+
+// which account archived which room, so the API shows an account only its own rooms;
+// no foreign key to rooms, the room itself may be stored by another sink
+export const accountRooms: Migration = {
+  version: 16,
+  name: 'account_rooms',
+  up: `
+    CREATE TABLE IF NOT EXISTS account_rooms (
+      account_key TEXT NOT NULL,
+      room_id TEXT NOT NULL,
+      linked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (account_key, room_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_account_rooms_room ON account_rooms (room_id);
+
+    -- the rooms in each account's saved sync
+    INSERT INTO account_rooms (account_key, room_id)
+    SELECT s.account_key, r.room_id
+    FROM sync_store s
+    CROSS JOIN LATERAL (
+      SELECT jsonb_object_keys(COALESCE(s.rooms_data->'join', '{}'::jsonb)) AS room_id
+      UNION SELECT jsonb_object_keys(COALESCE(s.rooms_data->'invite', '{}'::jsonb))
+      UNION SELECT jsonb_object_keys(COALESCE(s.rooms_data->'leave', '{}'::jsonb))
+    ) r
+    WHERE jsonb_typeof(s.rooms_data) = 'object'
+    ON CONFLICT DO NOTHING;
+
+    -- the rooms an account's user is a member of
+    INSERT INTO account_rooms (account_key, room_id)
+    SELECT DISTINCT a.account_key, p.room_id
+    FROM accounts a
+    JOIN participants p ON p.user_id = a.user_id
+    ON CONFLICT DO NOTHING;
+
+    -- with a single account, everything archived so far is its own
+    INSERT INTO account_rooms (account_key, room_id)
+    SELECT a.account_key, r.id
+    FROM rooms r
+    CROSS JOIN accounts a
+    WHERE (SELECT COUNT(*) FROM accounts) = 1
+    ON CONFLICT DO NOTHING;
+  `,
+  down: `
+    DROP TABLE IF EXISTS account_rooms;
+  `,
+};
@@ -0,0 +1,15 @@
+import { Migration } from './migration';
+
+// which account's worker is downloading a file, so a worker that starts resets only its own;
+// downloads in flight before cannot be told apart and go back into the queue
+export const mediaClaims: Migration = {
+  version: 17,
+  name: 'media_claims',
+  up: `
+    ALTER TABLE media ADD COLUMN IF NOT EXISTS claimed_by TEXT;
+    UPDATE media SET status = 'pending' WHERE status = 'downloading';
+  `,
+  down: `
+    ALTER TABLE media DROP COLUMN IF EXISTS claimed_by;
+  `,
+};
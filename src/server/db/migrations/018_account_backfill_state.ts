@@ -0,0 +1,36 @@
+import { Migration } from './migration';
+
+// one backfill cursor per account and room, so accounts in the same room do not overwrite
+// each other's; a cursor saved before is copied to every account that archives its room
+export const accountBackfillState: Migration = {
+  version: 18,
+  name: 'account_backfill_state',
+  up: `
+    ALTER TABLE backfill_state ADD COLUMN IF NOT EXISTS account_key TEXT;
+    ALTER TABLE backfill_state DROP CONSTRAINT IF EXISTS backfill_state_pkey;
+
+    INSERT INTO backfill_state (
+      account_key, room_id, pagination_token, status, events_persisted,
+      oldest_event_ts, cutoff_ts, error, last_updated, created_at
+    )
+    SELECT ar.account_key, b.room_id, b.pagination_token, b.status, b.events_persisted,
+      b.oldest_event_ts, b.cutoff_ts, b.error, b.last_updated, b.created_at
+    FROM backfill_state b
+    JOIN account_rooms ar ON ar.room_id = b.room_id
+    WHERE b.account_key IS NULL;
+
+    DELETE FROM backfill_state WHERE account_key IS NULL;
+    ALTER TABLE backfill_state ALTER COLUMN account_key SET NOT NULL;
+    ALTER TABLE backfill_state ADD PRIMARY KEY (account_key, room_id);
+  `,
+  down: `
+    DELETE FROM backfill_state b
+    WHERE EXISTS (
+      SELECT 1 FROM backfill_state other
+      WHERE other.room_id = b.room_id AND other.account_key < b.account_key
+    );
+    ALTER TABLE backfill_state DROP CONSTRAINT IF EXISTS backfill_state_pkey;
+    ALTER TABLE backfill_state DROP COLUMN IF EXISTS account_key;
+    ALTER TABLE backfill_state ADD PRIMARY KEY (room_id);
+  `,
+};
@@ -0,0 +1,43 @@
+import { initialSchema } from './001_initial_schema';
+import { eventModel } from './002_event_model';
+import { bridgesAndContacts } from './003_bridges_and_contacts';
+import { accountStorage } from './004_account_storage';
+import { deadLetters } from './005_dead_letters';
+import { routeTables } from './006_route_tables';
+import { messageSearch } from './007_message_search';
+import { exportJobs } from './008_export_jobs';
+import { imports } from './009_imports';
+import { webhooks } from './010_webhooks';
+import { syncTransitions } from './011_sync_transitions';
+import { changeLog } from './012_change_log';
+import { configVersions } from './013_config_versions';
+import { redactedStateAndRawEvents } from './014_redacted_state_and_raw_events';
+import { accountSyncState } from './015_account_sync_state';
+import { accountRooms } from './016_account_rooms';
+import { mediaClaims } from './017_media_claims';
+import { accountBackfillState } from './018_account_backfill_state';
+import { Migration } from './migration';
+
+export type { Migration };
+
+// append only: an applied migration must never change, add a new one instead
+export const migrations: Migration[] = [
+  initialSchema,
+  eventModel,
+  bridgesAndContacts,
+  accountStorage,
+  deadLetters,
+  routeTables,
+  messageSearch,
+  exportJobs,
+  imports,
+  webhooks,
+  syncTransitions,
+  changeLog,
+  configVersions,
+  redactedStateAndRawEvents,
+  accountSyncState,
+  accountRooms,
+  mediaClaims,
+  accountBackfillState,
+];
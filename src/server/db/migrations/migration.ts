@@ -0,0 +1,6 @@
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
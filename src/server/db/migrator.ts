@@ -0,0 +1,246 @@
+import pg from 'pg';
+import { createHash } from 'crypto';
+import { Migration, migrations as allMigrations } from './migrations';
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'unknown';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  checksum: string | null;
+  appliedAt: string | null;
+  executionMs: number | null;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// serialises migration runs across every server sharing the database
+const MIGRATION_LOCK_KEY = 'schema_migrations';
+
+const CREATE_MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    execution_ms INTEGER NOT NULL,
+    applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+export function migrationChecksum(migration: Migration): string {
+  return createHash('sha256')
+    .update(migration.up)
+    .update('\0')
+    .update(migration.down)
+    .digest('hex');
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  execution_ms: number;
+  applied_at: string;
+}
+
+/**
+ * Applies and reverts the ordered migrations in `./migrations`. Every run
+ * holds an advisory lock, each migration runs in its own transaction, and a
+ * migration whose SQL changed after it was applied stops the run instead of
+ * leaving the schema in an unknown state.
+ */
+export class Migrator {
+  private pool: pg.Pool;
+  private migrations: Migration[];
+
+  constructor(pool: pg.Pool, migrations: Migration[] = allMigrations) {
+    this.pool = pool;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+    const versions = new Set(this.migrations.map((migration) => migration.version));
+    if (versions.size !== this.migrations.length) {
+      throw new MigrationError('Migration versions must be unique');
+    }
+  }
+
+  public async status(): Promise<MigrationStatus[]> {
+    return this.withClient(async (client) => this.describe(await this.loadApplied(client)));
+  }
+
+  // applies pending migrations up to and including `target`, all of them by default
+  public async up(target?: number): Promise<MigrationStatus[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.loadApplied(client);
+      this.verify(applied);
+
+      const pending = this.migrations.filter(
+        (migration) =>
+          !applied.has(migration.version) && (target === undefined || migration.version <= target)
+      );
+
+      const ran: MigrationStatus[] = [];
+      for (const migration of pending) {
+        ran.push(await this.apply(client, migration));
+      }
+      return ran;
+    });
+  }
+
+  // reverts the latest `steps` applied migrations, newest first
+  public async down(steps = 1): Promise<MigrationStatus[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.loadApplied(client);
+      this.verify(applied);
+
+      const latest = this.migrations
+        .filter((migration) => applied.has(migration.version))
+        .reverse()
+        .slice(0, steps);
+
+      const reverted: MigrationStatus[] = [];
+      for (const migration of latest) {
+        reverted.push(await this.revert(client, migration));
+      }
+      return reverted;
+    });
+  }
+
+  private describe(applied: Map<number, AppliedMigration>): MigrationStatus[] {
+    const known: MigrationStatus[] = this.migrations.map((migration) => {
+      const record = applied.get(migration.version);
+      const checksum = migrationChecksum(migration);
+
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: !record ? 'pending' : record.checksum === checksum ? 'applied' : 'modified',
+        checksum: record?.checksum ?? checksum,
+        appliedAt: record?.applied_at ?? null,
+        executionMs: record?.execution_ms ?? null,
+      };
+    });
+
+    // applied by a newer build, or a migration that was removed from the code
+    const unknown: MigrationStatus[] = [...applied.values()]
+      .filter(
+        (record) => !this.migrations.some((migration) => migration.version === record.version)
+      )
+      .map((record) => ({
+        version: record.version,
+        name: record.name,
+        state: 'unknown',
+        checksum: record.checksum,
+        appliedAt: record.applied_at,
+        executionMs: record.execution_ms,
+      }));
+
+    return [...known, ...unknown].sort((a, b) => a.version - b.version);
+  }
+
+  private verify(applied: Map<number, AppliedMigration>): void {
+    const modified = this.describe(applied).filter((status) => status.state === 'modified');
+    if (modified.length > 0) {
+      throw new MigrationError(
+        `Applied migrations were modified: ${modified
+          .map((status) => `${status.version}_${status.name}`)
+          .join(', ')}`
+      );
+    }
+  }
+
+  private async apply(client: pg.PoolClient, migration: Migration): Promise<MigrationStatus> {
+    const started = Date.now();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(migration.up);
+
+      const executionMs = Date.now() - started;
+      const result = await client.query(
+        `INSERT INTO schema_migrations (version, name, checksum, execution_ms)
+        VALUES ($1, $2, $3, $4)
+        RETURNING applied_at`,
+        [migration.version, migration.name, migrationChecksum(migration), executionMs]
+      );
+      await client.query('COMMIT');
+
+      console.log(`Applied migration ${migration.version}_${migration.name} in ${executionMs}ms`);
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: 'applied',
+        checksum: migrationChecksum(migration),
+        appliedAt: result.rows[0].applied_at,
+        executionMs,
+      };
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      throw new MigrationError(
+        `Migration ${migration.version}_${migration.name} failed: ${error.message}`
+      );
+    }
+  }
+
+  private async revert(client: pg.PoolClient, migration: Migration): Promise<MigrationStatus> {
+    try {
+      await client.query('BEGIN');
+      await client.query(migration.down);
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+      await client.query('COMMIT');
+
+      console.log(`Reverted migration ${migration.version}_${migration.name}`);
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: 'pending',
+        checksum: migrationChecksum(migration),
+        appliedAt: null,
+        executionMs: null,
+      };
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      throw new MigrationError(
+        `Reverting migration ${migration.version}_${migration.name} failed: ${error.message}`
+      );
+    }
+  }
+
+  private async loadApplied(client: pg.PoolClient): Promise<Map<number, AppliedMigration>> {
+    const exists = await client.query(
+      `SELECT to_regclass('schema_migrations') IS NOT NULL AS exists`
+    );
+    if (!exists.rows[0].exists) return new Map();
+
+    const result = await client.query<AppliedMigration>(
+      'SELECT version, name, checksum, execution_ms, applied_at FROM schema_migrations'
+    );
+    return new Map(result.rows.map((row) => [row.version, row]));
+  }
+
+  private async withClient<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      return await fn(client);
+    } finally {
+      client.release();
+    }
+  }
+
+  private async withLock<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    return this.withClient(async (client) => {
+      await client.query('SELECT pg_advisory_lock(hashtext($1))', [MIGRATION_LOCK_KEY]);
+      try {
+        await client.query(CREATE_MIGRATIONS_TABLE);
+        return await fn(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock(hashtext($1))', [MIGRATION_LOCK_KEY]);
+      }
+    });
+  }
+}
@@ -0,0 +1,231 @@
+import pg from 'pg';
+import { MatrixEvent } from 'matrix-js-sdk';
+import { pruneRedactedContent } from '@/server/utils/redaction.utils';
+import { accountRoomCondition } from './accounts';
+import { pgPool } from './client';
+import { writeBuffer } from './write-buffer';
+import { refreshCurrentContent, refreshThread } from './messages';
+
+export async function persistRedaction(roomId: string, event: MatrixEvent): Promise<void> {
+  const redacts = event.event.redacts ?? event.getContent().redacts;
+  if (!redacts) {
+    throw new Error(`Redaction ${event.getId()} has no target`);
+  }
+
+  const query = `
+    INSERT INTO redactions (event_id, room_id, sender, redacts, reason, timestamp)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (event_id) DO NOTHING
+  `;
+
+  try {
+    await pgPool.query(query, [
+      event.getId(),
+      roomId,
+      event.getSender(),
+      redacts,
+      event.getContent().reason ?? null,
+      event.getTs(),
+    ]);
+  } catch (error: any) {
+    throw new Error(`Failed to sync redaction: ${error.message}`);
+  }
+
+  // a target still sitting in the write buffer is written first; one that has not been
+  // received yet stays pending until it shows up
+  await Promise.all(REDACTABLE_TABLES.map((table) => writeBuffer.flush(table)));
+  await applyRedaction(event.getId()!);
+}
+
+interface RedactionRow {
+  event_id: string;
+  room_id: string;
+  sender: string;
+  redacts: string;
+  reason: string | null;
+  timestamp: string;
+}
+
+// tables whose content is scrubbed in place; reactions are deleted instead
+const REDACTABLE_TABLES = ['messages', 'state_events', 'raw_events'] as const;
+
+async function redactTarget(client: pg.PoolClient, redaction: RedactionRow): Promise<boolean> {
+  let applied = false;
+
+  const audit = (table: string, removedKeys: string[]) =>
+    client.query(
+      `INSERT INTO redaction_audit (
+        redaction_event_id, target_event_id, room_id, target_table,
+        redacted_by, reason, redacted_ts, removed_keys
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        redaction.event_id,
+        redaction.redacts,
+        redaction.room_id,
+        table,
+        redaction.sender,
+        redaction.reason,
+        redaction.timestamp,
+        removedKeys,
+      ]
+    );
+
+  for (const table of REDACTABLE_TABLES) {
+    const target = await client.query(
+      `SELECT event_type, content FROM ${table} WHERE event_id = $1 AND room_id = $2 FOR UPDATE`,
+      [redaction.redacts, redaction.room_id]
+    );
+    if (target.rows.length === 0) continue;
+
+    const { content, removedKeys } = pruneRedactedContent(
+      target.rows[0].event_type,
+      target.rows[0].content
+    );
+
+    if (table === 'messages') {
+      const updated = await client.query(
+        `UPDATE messages SET
+          content = $2, relates_to = NULL, redaction_event_id = $3,
+          redacted_by = $4, redacted_ts = $5, redaction_reason = $6,
+          current_content = NULL, last_edit_event_id = NULL, edited_ts = NULL
+        WHERE event_id = $1
+        RETURNING thread_root_id`,
+        [
+          redaction.redacts,
+          JSON.stringify(content),
+          redaction.event_id,
+          redaction.sender,
+          redaction.timestamp,
+          redaction.reason,
+        ]
+      );
+
+      const threadRootId = updated.rows[0]?.thread_root_id;
+      if (threadRootId) {
+        await refreshThread(client, redaction.room_id, threadRootId);
+      }
+    } else if (table === 'raw_events') {
+      await client.query(
+        `UPDATE raw_events SET
+          content = $2, raw = jsonb_set(raw, '{content}', $2), redaction_event_id = $3
+        WHERE event_id = $1`,
+        [redaction.redacts, JSON.stringify(content), redaction.event_id]
+      );
+    } else {
+      await client.query(
+        `UPDATE ${table} SET content = $2, redaction_event_id = $3 WHERE event_id = $1`,
+        [redaction.redacts, JSON.stringify(content), redaction.event_id]
+      );
+    }
+
+    await audit(table, removedKeys);
+    applied = true;
+  }
+
+  // the media worker deletes files that are no longer referenced by unredacted events
+  const media = await client.query(
+    `UPDATE media SET status = 'redacted', encryption = NULL, file_name = NULL
+    WHERE event_id = $1 AND room_id = $2 AND status <> 'redacted'`,
+    [redaction.redacts, redaction.room_id]
+  );
+  if (media.rowCount) {
+    await audit('media', ['file']);
+  }
+
+  // redacting a message also scrubs every edit of it
+  const history = await client.query(
+    `UPDATE message_versions SET content = '{}', redacted = true
+    WHERE original_event_id = $1 AND room_id = $2 AND NOT redacted`,
+    [redaction.redacts, redaction.room_id]
+  );
+  if (history.rowCount) {
+    await audit('message_versions', ['m.new_content']);
+  }
+
+  const edit = await client.query(
+    `UPDATE message_versions SET content = '{}', redacted = true
+    WHERE edit_event_id = $1 AND room_id = $2
+    RETURNING original_event_id`,
+    [redaction.redacts, redaction.room_id]
+  );
+  if (edit.rows.length > 0) {
+    await refreshCurrentContent(client, [edit.rows[0].original_event_id]);
+    await audit('message_versions', ['m.new_content']);
+    applied = true;
+  }
+
+  const reaction = await client.query(
+    'DELETE FROM reactions WHERE event_id = $1 AND room_id = $2 RETURNING event_id',
+    [redaction.redacts, redaction.room_id]
+  );
+  if (reaction.rows.length > 0) {
+    await audit('reactions', ['m.relates_to']);
+    applied = true;
+  }
+
+  return applied;
+}
+
+export async function applyRedaction(redactionEventId: string): Promise<boolean> {
+  const client = await pgPool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      'SELECT * FROM redactions WHERE event_id = $1 AND applied_at IS NULL FOR UPDATE',
+      [redactionEventId]
+    );
+    const redaction: RedactionRow | undefined = result.rows[0];
+
+    const applied = redaction ? await redactTarget(client, redaction) : false;
+    if (applied) {
+      await client.query('UPDATE redactions SET applied_at = $2 WHERE event_id = $1', [
+        redactionEventId,
+        new Date().toISOString(),
+      ]);
+    }
+
+    await client.query('COMMIT');
+    return applied;
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    throw new Error(`Failed to apply redaction: ${error.message}`);
+  } finally {
+    client.release();
+  }
+}
+
+// applies redactions that were stored before the event they redact, for the events just
+// written or across the account's rooms
+export async function reconcileRedactions(
+  scope: { targetEventIds: string[] } | { accountKey: string }
+): Promise<number> {
+  const query = `
+    SELECT r.event_id
+    FROM redactions r
+    WHERE r.applied_at IS NULL
+      AND ${'targetEventIds' in scope ? 'r.redacts = ANY($1)' : accountRoomCondition('r.room_id', 1)}
+      AND (
+        EXISTS (SELECT 1 FROM messages t WHERE t.event_id = r.redacts AND t.room_id = r.room_id)
+        OR EXISTS (SELECT 1 FROM state_events t WHERE t.event_id = r.redacts AND t.room_id = r.room_id)
+        OR EXISTS (SELECT 1 FROM raw_events t WHERE t.event_id = r.redacts AND t.room_id = r.room_id)
+        OR EXISTS (SELECT 1 FROM reactions t WHERE t.event_id = r.redacts AND t.room_id = r.room_id)
+        OR EXISTS (
+          SELECT 1 FROM message_versions t WHERE t.edit_event_id = r.redacts AND t.room_id = r.room_id
+        )
+      )
+  `;
+
+  const pending = await pgPool.query(query, [
+    'targetEventIds' in scope ? scope.targetEventIds : scope.accountKey,
+  ]);
+  let applied = 0;
+
+  for (const row of pending.rows) {
+    if (await applyRedaction(row.event_id)) {
+      applied++;
+    }
+  }
+
+  return applied;
+}
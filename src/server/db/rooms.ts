@@ -0,0 +1,213 @@
+import { EventTimeline, EventType, Room, RoomMember } from 'matrix-js-sdk';
+import { classifyRoomNetwork } from '@/server/utils/bridge.utils';
+import { buildContactIdentity } from '@/server/utils/contacts.utils';
+import { pgPool } from './client';
+import { writeBuffer } from './write-buffer';
+import { linkContactIdentity } from './contacts';
+
+const enqueueParticipant = writeBuffer.register<RoomMember>({
+  table: 'participants',
+  columns: [
+    'user_id',
+    'display_name',
+    'avatar_url',
+    'membership',
+    'room_id',
+    'joined_ts',
+    'last_updated',
+  ],
+  onConflict: `
+    ON CONFLICT (user_id, room_id) DO UPDATE SET
+      display_name = EXCLUDED.display_name,
+      avatar_url = EXCLUDED.avatar_url,
+      membership = EXCLUDED.membership,
+      last_updated = EXCLUDED.last_updated
+    WHERE
+      participants.display_name IS DISTINCT FROM EXCLUDED.display_name
+      OR participants.avatar_url IS DISTINCT FROM EXCLUDED.avatar_url
+      OR participants.membership IS DISTINCT FROM EXCLUDED.membership
+      OR participants.last_updated IS DISTINCT FROM EXCLUDED.last_updated
+  `,
+  key: (member) => `${member.userId}|${member.roomId}`,
+  values: (member) => [
+    member.userId,
+    member.name,
+    member.getMxcAvatarUrl() ?? '',
+    member.membership,
+    member.roomId,
+    member.events.member?.getTs(),
+    new Date().toISOString(),
+  ],
+  // contact linking serialises on an advisory lock, keep it out of the batch transaction
+  afterCommit: async (members) => {
+    for (const member of members) {
+      await linkMemberContact(member);
+    }
+  },
+});
+
+export async function persistParticipant(member: RoomMember): Promise<void> {
+  try {
+    await enqueueParticipant(member);
+  } catch (error: any) {
+    throw new Error(`Failed to sync participant: ${error.message}`);
+  }
+}
+
+async function linkMemberContact(member: RoomMember): Promise<void> {
+  const identity = buildContactIdentity(
+    member.userId,
+    member.name,
+    member.events.member?.getContent() ?? null
+  );
+  if (identity) {
+    await linkContactIdentity(identity);
+  }
+}
+
+// the stored details of a room, shared by every sink
+export function describeRoom(room: Room) {
+  const state = room.getLiveTimeline().getState(EventTimeline.FORWARDS);
+  return {
+    id: room.roomId,
+    name: room.name,
+    topic: state?.getStateEvents('m.room.topic')[0]?.getContent()?.topic ?? '',
+    is_encrypted: !!state?.getStateEvents(EventType.RoomEncryption, ''),
+    created_ts: state?.getStateEvents('m.room.create', '')?.getTs(),
+    avatar_url: state?.getStateEvents('m.room.avatar')[0]?.getContent()?.url ?? '',
+    network: classifyRoomNetwork(room),
+    last_updated: new Date().toISOString(),
+  };
+}
+
+export async function persistRoom(room: Room, membership: string): Promise<void> {
+  const { network, ...roomData } = describeRoom(room);
+
+  const query = `
+    INSERT INTO rooms (
+      id, name, topic, membership, is_encrypted, created_ts,
+      avatar_url, network, bridge_bot, remote_room_id, bridge_detected_by, last_updated
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    ON CONFLICT (id) DO UPDATE SET
+      name = EXCLUDED.name,
+      topic = EXCLUDED.topic,
+      membership = EXCLUDED.membership,
+      is_encrypted = EXCLUDED.is_encrypted,
+      avatar_url = EXCLUDED.avatar_url,
+      network = EXCLUDED.network,
+      bridge_bot = EXCLUDED.bridge_bot,
+      remote_room_id = EXCLUDED.remote_room_id,
+      bridge_detected_by = EXCLUDED.bridge_detected_by,
+      last_updated = EXCLUDED.last_updated
+    WHERE
+      rooms.name IS DISTINCT FROM EXCLUDED.name
+      OR rooms.topic IS DISTINCT FROM EXCLUDED.topic
+      OR rooms.is_encrypted IS DISTINCT FROM EXCLUDED.is_encrypted
+      OR rooms.avatar_url IS DISTINCT FROM EXCLUDED.avatar_url
+      OR rooms.network IS DISTINCT FROM EXCLUDED.network
+      OR rooms.bridge_bot IS DISTINCT FROM EXCLUDED.bridge_bot
+      OR rooms.remote_room_id IS DISTINCT FROM EXCLUDED.remote_room_id
+      OR rooms.last_updated IS DISTINCT FROM EXCLUDED.last_updated
+    `;
+
+  try {
+    await pgPool.query(query, [
+      roomData.id,
+      roomData.name,
+      roomData.topic,
+      membership,
+      roomData.is_encrypted,
+      roomData.created_ts,
+      roomData.avatar_url,
+      network.network,
+      network.bridgeBot,
+      network.remoteRoomId,
+      network.detectedBy,
+      roomData.last_updated,
+    ]);
+  } catch (error: any) {
+    throw new Error(`Failed to sync room: ${error.message}`);
+  }
+}
+
+// re-runs bridge detection after bridge state or bridge user membership changes
+export async function updateRoomNetwork(room: Room): Promise<void> {
+  const network = classifyRoomNetwork(room);
+  const query = `
+    UPDATE rooms SET
+      network = $2, bridge_bot = $3, remote_room_id = $4, bridge_detected_by = $5, last_updated = $6
+    WHERE id = $1
+      AND (
+        network IS DISTINCT FROM $2
+        OR bridge_bot IS DISTINCT FROM $3
+        OR remote_room_id IS DISTINCT FROM $4
+      )
+  `;
+
+  try {
+    await pgPool.query(query, [
+      room.roomId,
+      network.network,
+      network.bridgeBot,
+      network.remoteRoomId,
+      network.detectedBy,
+      new Date().toISOString(),
+    ]);
+  } catch (error: any) {
+    throw new Error(`Failed to update room network: ${error.message}`);
+  }
+}
+
+export async function persistParticipants(room: Room): Promise<void> {
+  const members = room.getJoinedMembers();
+  const batchSize = 100;
+
+  for (let i = 0; i < members.length; i += batchSize) {
+    const batch = members.slice(i, i + batchSize);
+
+    const query =
+        `INSERT INTO participants (
+            user_id, display_name, avatar_url, membership,
+            room_id, joined_ts, last_updated
+        )
+        VALUES
+            ${batch
+              .map(
+                (_, index) =>
+                  `($${index * 7 + 1}, $${index * 7 + 2}, $${index * 7 + 3}, $${index * 7 + 4}, $${index * 7 + 5}, $${index * 7 + 6}, $${index * 7 + 7})`
+              )
+              .join(',')}
+        ON CONFLICT (user_id, room_id) DO UPDATE SET
+            display_name = EXCLUDED.display_name,
+            avatar_url = EXCLUDED.avatar_url,
+            membership = EXCLUDED.membership,
+            last_updated = EXCLUDED.last_updated
+        WHERE
+            participants.display_name IS DISTINCT FROM EXCLUDED.display_name
+            OR participants.avatar_url IS DISTINCT FROM EXCLUDED.avatar_url
+            OR participants.membership IS DISTINCT FROM EXCLUDED.membership
+            OR participants.last_updated IS DISTINCT FROM EXCLUDED.last_updated
+            `
+        ;
+
+    const values = batch.flatMap((member) => [
+      member.userId,
+      member.name,
+      member.getMxcAvatarUrl() ?? '',
+      member.membership,
+      room.roomId,
+      member.events.member?.getTs(),
+      new Date().toISOString(),
+    ]);
+
+    try {
+      await pgPool.query(query, values);
+    } catch (error: any) {
+      throw new Error(`Failed to sync participants batch: ${error.message}`);
+    }
+
+    for (const member of batch) {
+      await linkMemberContact(member);
+    }
+  }
+}
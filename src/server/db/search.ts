@@ -0,0 +1,100 @@
+import { MessageSearchHit, MessageSearchQuery, MessageSearchResults } from '@/server/types';
+import { pgPool } from './client';
+import { accountRoomCondition } from './accounts';
+
+export async function listSearchLanguages(): Promise<string[]> {
+  const result = await pgPool.query(
+    'SELECT config::text AS config FROM search_languages ORDER BY config'
+  );
+  return result.rows.map((row) => row.config);
+}
+
+// ts_headline marks matches with these, so the body can be escaped before <mark> goes in
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+function renderSnippet(headline: string | null): string {
+  return (headline ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replaceAll(HIGHLIGHT_START, '<mark>')
+    .replaceAll(HIGHLIGHT_END, '</mark>');
+}
+
+export async function searchMessages(search: MessageSearchQuery): Promise<MessageSearchResults> {
+  const params: any[] = [search.language, search.query, search.accountKey];
+  const conditions = [
+    'm.search_vector @@ q.query',
+    'm.redaction_event_id IS NULL',
+    accountRoomCondition('m.room_id', 3),
+  ];
+
+  if (search.roomId) {
+    params.push(search.roomId);
+    conditions.push(`m.room_id = $${params.length}`);
+  }
+  if (search.sender) {
+    params.push(search.sender);
+    conditions.push(`m.sender = $${params.length}`);
+  }
+  if (search.network) {
+    params.push(search.network);
+    conditions.push(`r.network = $${params.length}`);
+  }
+  if (search.fromTs !== undefined) {
+    params.push(search.fromTs);
+    conditions.push(`m.timestamp >= $${params.length}`);
+  }
+  if (search.toTs !== undefined) {
+    params.push(search.toTs);
+    conditions.push(`m.timestamp <= $${params.length}`);
+  }
+
+  params.push(
+    `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=35, MinWords=15, MaxFragments=2`
+  );
+  const headlineOptions = `$${params.length}`;
+
+  params.push(search.limit, search.offset);
+  const query = `
+    SELECT
+      m.event_id, m.room_id, r.name AS room_name, r.network, m.sender, m.timestamp, m.event_type,
+      COALESCE(m.current_content, m.content) AS content,
+      ts_rank_cd(m.search_vector, q.query) AS rank,
+      ts_headline(
+        $1::regconfig,
+        COALESCE(m.current_content, m.content)->>'body',
+        q.query,
+        ${headlineOptions}
+      ) AS headline,
+      COUNT(*) OVER () AS total
+    FROM messages m
+    CROSS JOIN (SELECT websearch_to_tsquery($1::regconfig, $2) AS query) q
+    LEFT JOIN rooms r ON r.id = m.room_id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY ${search.sort === 'recent' ? 'm.timestamp DESC' : 'rank DESC, m.timestamp DESC'}
+    LIMIT $${params.length - 1} OFFSET $${params.length}
+  `;
+
+  const result = await pgPool.query(query, params);
+
+  return {
+    total: result.rows[0] ? Number(result.rows[0].total) : 0,
+    results: result.rows.map(
+      (row): MessageSearchHit => ({
+        eventId: row.event_id,
+        roomId: row.room_id,
+        roomName: row.room_name,
+        network: row.network,
+        sender: row.sender,
+        timestamp: Number(row.timestamp),
+        eventType: row.event_type,
+        content: row.content,
+        snippet: renderSnippet(row.headline),
+        rank: Number(row.rank),
+      })
+    ),
+  };
+}
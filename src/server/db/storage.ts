@@ -0,0 +1,68 @@
+import { pgPool } from './client';
+
+export async function loadStorageItems(accountKey: string): Promise<Map<string, string>> {
+  const result = await pgPool.query(
+    'SELECT key, value FROM storage_items WHERE account_key = $1',
+    [accountKey]
+  );
+  return new Map(result.rows.map((row) => [row.key, row.value]));
+}
+
+export async function saveStorageItem(accountKey: string, key: string, value: string): Promise<void> {
+  const query = `
+    INSERT INTO storage_items (account_key, key, value, last_updated)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (account_key, key) DO UPDATE SET
+      value = EXCLUDED.value,
+      last_updated = EXCLUDED.last_updated
+  `;
+  await pgPool.query(query, [accountKey, key, value, new Date().toISOString()]);
+}
+
+export async function deleteStorageItems(accountKey: string, keys?: string[]): Promise<void> {
+  await pgPool.query(
+    `DELETE FROM storage_items WHERE account_key = $1 ${keys ? 'AND key = ANY($2)' : ''}`,
+    keys ? [accountKey, keys] : [accountKey]
+  );
+}
+
+export async function loadIndexedDBSnapshots(
+  accountKey: string
+): Promise<{ dbName: string; snapshot: Buffer; checksum: string }[]> {
+  const result = await pgPool.query(
+    'SELECT db_name, snapshot, checksum FROM indexeddb_snapshots WHERE account_key = $1',
+    [accountKey]
+  );
+  return result.rows.map((row) => ({
+    dbName: row.db_name,
+    snapshot: row.snapshot,
+    checksum: row.checksum,
+  }));
+}
+
+export async function saveIndexedDBSnapshot(
+  accountKey: string,
+  snapshot: { dbName: string; version: number; data: Buffer; checksum: string }
+): Promise<void> {
+  const query = `
+    INSERT INTO indexeddb_snapshots (account_key, db_name, version, snapshot, checksum, last_updated)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (account_key, db_name) DO UPDATE SET
+      version = EXCLUDED.version,
+      snapshot = EXCLUDED.snapshot,
+      checksum = EXCLUDED.checksum,
+      last_updated = EXCLUDED.last_updated
+  `;
+  await pgPool.query(query, [
+    accountKey,
+    snapshot.dbName,
+    snapshot.version,
+    snapshot.data,
+    snapshot.checksum,
+    new Date().toISOString(),
+  ]);
+}
+
+export async function deleteIndexedDBSnapshots(accountKey: string): Promise<void> {
+  await pgPool.query('DELETE FROM indexeddb_snapshots WHERE account_key = $1', [accountKey]);
+}
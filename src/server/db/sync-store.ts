@@ -0,0 +1,100 @@
+import { ISyncData, IStateEventWithRoomId, IStoredClientOpts } from 'matrix-js-sdk';
+import { pgPool } from './client';
+
+export async function loadSyncStore(accountKey: string): Promise<{
+  syncData: ISyncData | null;
+  clientOptions: IStoredClientOpts | undefined;
+}> {
+  const result = await pgPool.query(
+    'SELECT next_batch, rooms_data, account_data, client_options FROM sync_store WHERE account_key = $1',
+    [accountKey]
+  );
+  const row = result.rows[0];
+
+  return {
+    syncData: row?.next_batch
+      ? { nextBatch: row.next_batch, roomsData: row.rooms_data, accountData: row.account_data }
+      : null,
+    clientOptions: row?.client_options ?? undefined,
+  };
+}
+
+// the token and the data it covers are written together, so a resumed sync never skips or repeats
+export async function saveSyncData(accountKey: string, syncData: ISyncData): Promise<void> {
+  const query = `
+    INSERT INTO sync_store (account_key, next_batch, rooms_data, account_data, last_saved)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (account_key) DO UPDATE SET
+      next_batch = EXCLUDED.next_batch,
+      rooms_data = EXCLUDED.rooms_data,
+      account_data = EXCLUDED.account_data,
+      last_saved = EXCLUDED.last_saved
+  `;
+  await pgPool.query(query, [
+    accountKey,
+    syncData.nextBatch,
+    JSON.stringify(syncData.roomsData),
+    JSON.stringify(syncData.accountData),
+    new Date().toISOString(),
+  ]);
+}
+
+export async function saveSyncClientOptions(
+  accountKey: string,
+  options: IStoredClientOpts
+): Promise<void> {
+  const query = `
+    INSERT INTO sync_store (account_key, client_options, last_saved)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (account_key) DO UPDATE SET client_options = EXCLUDED.client_options
+  `;
+  await pgPool.query(query, [accountKey, JSON.stringify(options), new Date().toISOString()]);
+}
+
+export async function loadOutOfBandMembers(
+  accountKey: string,
+  roomId: string
+): Promise<IStateEventWithRoomId[] | null> {
+  const result = await pgPool.query(
+    'SELECT events FROM sync_oob_members WHERE account_key = $1 AND room_id = $2',
+    [accountKey, roomId]
+  );
+  return result.rows[0]?.events ?? null;
+}
+
+export async function saveOutOfBandMembers(
+  accountKey: string,
+  roomId: string,
+  events: IStateEventWithRoomId[]
+): Promise<void> {
+  const query = `
+    INSERT INTO sync_oob_members (account_key, room_id, events, last_updated)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (account_key, room_id) DO UPDATE SET
+      events = EXCLUDED.events,
+      last_updated = EXCLUDED.last_updated
+  `;
+  await pgPool.query(query, [accountKey, roomId, JSON.stringify(events), new Date().toISOString()]);
+}
+
+export async function deleteOutOfBandMembers(accountKey: string, roomId?: string): Promise<void> {
+  await pgPool.query(
+    `DELETE FROM sync_oob_members WHERE account_key = $1 ${roomId ? 'AND room_id = $2' : ''}`,
+    roomId ? [accountKey, roomId] : [accountKey]
+  );
+}
+
+export async function deleteSyncStore(accountKey: string): Promise<void> {
+  await pgPool.query('DELETE FROM sync_store WHERE account_key = $1', [accountKey]);
+  await deleteOutOfBandMembers(accountKey);
+}
+
+export async function updateSyncToken(accountKey: string, syncToken: string): Promise<void> {
+  const query = `
+    INSERT INTO sync_state (account_key, next_batch, created_at)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (account_key) DO UPDATE
+    SET next_batch = EXCLUDED.next_batch, created_at = EXCLUDED.created_at
+  `;
+  await pgPool.query(query, [accountKey, syncToken, new Date().toISOString()]);
+}
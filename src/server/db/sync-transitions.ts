@@ -0,0 +1,45 @@
+import { SyncTransition } from '@/server/types';
+import { pgPool } from './client';
+
+function toSyncTransition(row: any): SyncTransition {
+  return {
+    id: Number(row.id),
+    accountKey: row.account_key,
+    fromState: row.from_state,
+    toState: row.to_state,
+    reason: row.reason,
+    error: row.error,
+    createdAt: row.created_at,
+  };
+}
+
+export async function recordSyncTransition(
+  transition: Omit<SyncTransition, 'id' | 'createdAt'>
+): Promise<SyncTransition> {
+  const query = `
+    INSERT INTO sync_transitions (account_key, from_state, to_state, reason, error)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *
+  `;
+  const result = await pgPool.query(query, [
+    transition.accountKey,
+    transition.fromState,
+    transition.toState,
+    transition.reason,
+    transition.error,
+  ]);
+  return toSyncTransition(result.rows[0]);
+}
+
+export async function listSyncTransitions(
+  accountKey: string,
+  opts: { limit: number; offset: number }
+): Promise<SyncTransition[]> {
+  const result = await pgPool.query(
+    `SELECT * FROM sync_transitions WHERE account_key = $1
+    ORDER BY id DESC
+    LIMIT $2 OFFSET $3`,
+    [accountKey, opts.limit, opts.offset]
+  );
+  return result.rows.map(toSyncTransition);
+}
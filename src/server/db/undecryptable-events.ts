@@ -0,0 +1,111 @@
+import { MatrixEvent } from 'matrix-js-sdk';
+import { UndecryptableEvent, UndecryptableRoom } from '@/server/types';
+import { pgPool } from './client';
+import { accountRoomCondition } from './accounts';
+
+export async function recordUndecryptableEvent(roomId: string, event: MatrixEvent): Promise<void> {
+  const wireContent = event.getWireContent();
+  const query = `
+    INSERT INTO undecryptable_events (
+      event_id, room_id, sender, session_id, sender_key, failure_reason, last_attempt
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (event_id) DO UPDATE SET
+      failure_reason = EXCLUDED.failure_reason,
+      attempts = undecryptable_events.attempts + 1,
+      last_attempt = EXCLUDED.last_attempt,
+      resolved_at = NULL
+  `;
+
+  try {
+    await pgPool.query(query, [
+      event.getId(),
+      roomId,
+      event.getSender(),
+      wireContent.session_id ?? null,
+      wireContent.sender_key ?? null,
+      event.decryptionFailureReason ?? null,
+      new Date().toISOString(),
+    ]);
+  } catch (error: any) {
+    throw new Error(`Failed to record undecryptable event: ${error.message}`);
+  }
+}
+
+export async function resolveUndecryptableEvent(eventId: string): Promise<void> {
+  const client = await pgPool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      'UPDATE undecryptable_events SET resolved_at = $2 WHERE event_id = $1 AND resolved_at IS NULL',
+      [eventId, new Date().toISOString()]
+    );
+    // the plaintext may have been routed elsewhere (edits, reactions), drop the ciphertext copy
+    await client.query(
+      `DELETE FROM messages WHERE event_id = $1 AND event_type = 'm.room.encrypted'`,
+      [eventId]
+    );
+    await client.query('COMMIT');
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    throw new Error(`Failed to resolve undecryptable event: ${error.message}`);
+  } finally {
+    client.release();
+  }
+}
+
+export async function loadUndecryptableEvents(
+  accountKey: string,
+  sessionIds?: string[]
+): Promise<UndecryptableEvent[]> {
+  const query = `
+    SELECT event_id, room_id, session_id
+    FROM undecryptable_events
+    WHERE resolved_at IS NULL AND ${accountRoomCondition('room_id', 1)}
+    ${sessionIds ? 'AND session_id = ANY($2)' : ''}
+    ORDER BY first_seen
+  `;
+  const result = await pgPool.query(query, sessionIds ? [accountKey, sessionIds] : [accountKey]);
+  return result.rows.map((row) => ({
+    eventId: row.event_id,
+    roomId: row.room_id,
+    sessionId: row.session_id,
+  }));
+}
+
+export async function summarizeUndecryptableEvents(
+  accountKey: string
+): Promise<UndecryptableRoom[]> {
+  const query = `
+    SELECT room_id, session_id, sender_key,
+      COUNT(*) AS events,
+      SUM(attempts) AS attempts,
+      MIN(first_seen) AS first_seen,
+      MAX(last_attempt) AS last_attempt
+    FROM undecryptable_events
+    WHERE resolved_at IS NULL AND ${accountRoomCondition('room_id', 1)}
+    GROUP BY room_id, session_id, sender_key
+    ORDER BY room_id, COUNT(*) DESC
+  `;
+  const result = await pgPool.query(query, [accountKey]);
+
+  const rooms = new Map<string, UndecryptableRoom>();
+  for (const row of result.rows) {
+    const room: UndecryptableRoom = rooms.get(row.room_id) ?? {
+      roomId: row.room_id,
+      events: 0,
+      sessions: [],
+    };
+    room.events += Number(row.events);
+    room.sessions.push({
+      sessionId: row.session_id,
+      senderKey: row.sender_key,
+      events: Number(row.events),
+      attempts: Number(row.attempts),
+      firstSeen: row.first_seen,
+      lastAttempt: row.last_attempt,
+    });
+    rooms.set(row.room_id, room);
+  }
+
+  return Array.from(rooms.values());
+}
@@ -0,0 +1,330 @@
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookFilters } from '@/server/types';
+import { pgPool } from './client';
+
+// the secret is only returned when it is created or rotated
+function toWebhook(row: any): Webhook {
+  return {
+    id: row.id,
+    accountKey: row.account_key,
+    url: row.url,
+    description: row.description,
+    eventTypes: row.event_types,
+    roomIds: row.room_ids,
+    senders: row.senders,
+    enabled: row.enabled,
+    consecutiveFailures: row.consecutive_failures,
+    disabledReason: row.disabled_reason,
+    disabledAt: row.disabled_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toWebhookDelivery(row: any): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    eventId: row.event_id,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    responseStatus: row.response_status,
+    responseBody: row.response_body,
+    error: row.error,
+    durationMs: row.duration_ms,
+    createdAt: row.created_at,
+    lastAttemptAt: row.last_attempt_at,
+    deliveredAt: row.delivered_at,
+  };
+}
+
+export async function createWebhook(webhook: {
+  accountKey: string;
+  url: string;
+  secret: string;
+  description: string | null;
+  filters: WebhookFilters;
+}): Promise<Webhook> {
+  const query = `
+    INSERT INTO webhooks (account_key, url, secret, description, event_types, room_ids, senders)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    RETURNING *
+  `;
+  const result = await pgPool.query(query, [
+    webhook.accountKey,
+    webhook.url,
+    webhook.secret,
+    webhook.description,
+    webhook.filters.eventTypes,
+    webhook.filters.roomIds,
+    webhook.filters.senders,
+  ]);
+  return toWebhook(result.rows[0]);
+}
+
+// re-enabling a webhook clears its failure streak, so it is not disabled again on the next error
+export async function updateWebhook(
+  id: string,
+  accountKey: string,
+  changes: Partial<WebhookFilters> & {
+    url?: string;
+    description?: string | null;
+    enabled?: boolean;
+  }
+): Promise<Webhook | null> {
+  const columns: Record<string, unknown> = {
+    url: changes.url,
+    description: changes.description,
+    event_types: changes.eventTypes,
+    room_ids: changes.roomIds,
+    senders: changes.senders,
+    enabled: changes.enabled,
+  };
+
+  const params: any[] = [id, accountKey];
+  const assignments = ['updated_at = now()'];
+  for (const [column, value] of Object.entries(columns)) {
+    if (value === undefined) continue;
+    params.push(value);
+    assignments.push(`${column} = $${params.length}`);
+  }
+  if (changes.enabled) {
+    assignments.push('consecutive_failures = 0', 'disabled_reason = NULL', 'disabled_at = NULL');
+  }
+
+  const result = await pgPool.query(
+    `UPDATE webhooks SET ${assignments.join(', ')}
+    WHERE id = $1 AND account_key = $2
+    RETURNING *`,
+    params
+  );
+  return result.rows[0] ? toWebhook(result.rows[0]) : null;
+}
+
+export async function rotateWebhookSecret(
+  id: string,
+  accountKey: string,
+  secret: string
+): Promise<Webhook | null> {
+  const result = await pgPool.query(
+    `UPDATE webhooks SET secret = $3, updated_at = now()
+    WHERE id = $1 AND account_key = $2
+    RETURNING *`,
+    [id, accountKey, secret]
+  );
+  return result.rows[0] ? toWebhook(result.rows[0]) : null;
+}
+
+export async function deleteWebhook(id: string, accountKey: string): Promise<boolean> {
+  const result = await pgPool.query('DELETE FROM webhooks WHERE id = $1 AND account_key = $2', [
+    id,
+    accountKey,
+  ]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function getWebhook(id: string, accountKey: string): Promise<Webhook | null> {
+  const result = await pgPool.query('SELECT * FROM webhooks WHERE id = $1 AND account_key = $2', [
+    id,
+    accountKey,
+  ]);
+  return result.rows[0] ? toWebhook(result.rows[0]) : null;
+}
+
+export async function listWebhooks(accountKey: string): Promise<Webhook[]> {
+  const result = await pgPool.query(
+    'SELECT * FROM webhooks WHERE account_key = $1 ORDER BY created_at',
+    [accountKey]
+  );
+  return result.rows.map(toWebhook);
+}
+
+// one delivery per webhook and message: re-ingesting a message does not notify twice.
+// A webhook only hears of messages in rooms its account archives
+export async function enqueueWebhookDeliveries(eventIds: string[]): Promise<number> {
+  const query = `
+    INSERT INTO webhook_deliveries (webhook_id, event_id, payload)
+    SELECT w.id, m.event_id, jsonb_build_object(
+      'type', 'message.created',
+      'data', jsonb_build_object(
+        'eventId', m.event_id,
+        'roomId', m.room_id,
+        'roomName', r.name,
+        'network', r.network,
+        'sender', m.sender,
+        'senderName', p.display_name,
+        'eventType', m.event_type,
+        'timestamp', m.timestamp,
+        'content', COALESCE(m.current_content, m.content),
+        'threadRootId', m.thread_root_id,
+        'isEncrypted', m.is_encrypted
+      )
+    )
+    FROM messages m
+    JOIN webhooks w ON w.enabled
+      AND EXISTS (
+        SELECT 1 FROM account_rooms ar
+        WHERE ar.room_id = m.room_id AND ar.account_key = w.account_key
+      )
+      AND (w.event_types IS NULL OR m.event_type = ANY(w.event_types))
+      AND (w.room_ids IS NULL OR m.room_id = ANY(w.room_ids))
+      AND (w.senders IS NULL OR m.sender = ANY(w.senders))
+    LEFT JOIN rooms r ON r.id = m.room_id
+    LEFT JOIN participants p ON p.user_id = m.sender AND p.room_id = m.room_id
+    WHERE m.event_id = ANY($1) AND m.redaction_event_id IS NULL
+    ON CONFLICT (webhook_id, event_id) DO NOTHING
+  `;
+  const result = await pgPool.query(query, [eventIds]);
+  return result.rowCount ?? 0;
+}
+
+// deliveries of disabled webhooks wait until the webhook is enabled again
+export async function claimWebhookDeliveries(
+  limit: number
+): Promise<(WebhookDelivery & { url: string; secret: string })[]> {
+  const query = `
+    WITH claimed AS (
+      UPDATE webhook_deliveries SET
+        status = 'delivering', attempts = attempts + 1, last_attempt_at = now()
+      WHERE id IN (
+        SELECT d.id FROM webhook_deliveries d
+        JOIN webhooks w ON w.id = d.webhook_id AND w.enabled
+        WHERE d.status = 'pending' AND d.next_attempt_at <= now()
+        ORDER BY d.next_attempt_at
+        LIMIT $1
+        FOR UPDATE OF d SKIP LOCKED
+      )
+      RETURNING *
+    )
+    SELECT claimed.*, w.url, w.secret
+    FROM claimed
+    JOIN webhooks w ON w.id = claimed.webhook_id
+  `;
+  const result = await pgPool.query(query, [limit]);
+  return result.rows.map((row) => ({
+    ...toWebhookDelivery(row),
+    url: row.url,
+    secret: row.secret,
+  }));
+}
+
+// deliveries interrupted by a restart go back into the queue
+export async function resetInterruptedWebhookDeliveries(): Promise<void> {
+  await pgPool.query(
+    `UPDATE webhook_deliveries SET status = 'pending' WHERE status = 'delivering'`
+  );
+}
+
+export async function markWebhookDelivered(
+  delivery: { id: string; webhookId: string },
+  response: { status: number; body: string; durationMs: number }
+): Promise<void> {
+  await pgPool.query(
+    `UPDATE webhook_deliveries SET
+      status = 'delivered', response_status = $2, response_body = $3, duration_ms = $4,
+      error = NULL, next_attempt_at = NULL, delivered_at = now()
+    WHERE id = $1`,
+    [delivery.id, response.status, response.body, response.durationMs]
+  );
+  await pgPool.query(
+    'UPDATE webhooks SET consecutive_failures = 0 WHERE id = $1 AND consecutive_failures > 0',
+    [delivery.webhookId]
+  );
+}
+
+// retries back off exponentially from 30 seconds; returns true when the webhook was disabled
+export async function markWebhookDeliveryFailed(
+  delivery: { id: string; webhookId: string },
+  failure: { status: number | null; body: string | null; error: string; durationMs: number },
+  limits: { maxAttempts: number; disableAfter: number }
+): Promise<boolean> {
+  await pgPool.query(
+    `UPDATE webhook_deliveries SET
+      status = CASE WHEN attempts >= $6 THEN 'failed' ELSE 'pending' END,
+      response_status = $2, response_body = $3, error = $4, duration_ms = $5,
+      next_attempt_at = CASE WHEN attempts >= $6 THEN NULL
+        ELSE now() + interval '30 seconds' * power(2, attempts - 1) END
+    WHERE id = $1`,
+    [
+      delivery.id,
+      failure.status,
+      failure.body,
+      failure.error,
+      failure.durationMs,
+      limits.maxAttempts,
+    ]
+  );
+
+  const result = await pgPool.query(
+    `UPDATE webhooks SET
+      consecutive_failures = consecutive_failures + 1,
+      enabled = enabled AND consecutive_failures + 1 < $2,
+      disabled_reason = CASE WHEN enabled AND consecutive_failures + 1 >= $2
+        THEN $3 ELSE disabled_reason END,
+      disabled_at = CASE WHEN enabled AND consecutive_failures + 1 >= $2
+        THEN now() ELSE disabled_at END
+    WHERE id = $1
+    RETURNING enabled, consecutive_failures`,
+    [
+      delivery.webhookId,
+      limits.disableAfter,
+      `Disabled after ${limits.disableAfter} consecutive failed deliveries: ${failure.error}`,
+    ]
+  );
+  const webhook = result.rows[0];
+  return !!webhook && !webhook.enabled && webhook.consecutive_failures === limits.disableAfter;
+}
+
+export async function listWebhookDeliveries(filters: {
+  webhookId: string;
+  accountKey: string;
+  status?: WebhookDeliveryStatus;
+  limit: number;
+  offset: number;
+}): Promise<WebhookDelivery[]> {
+  const params: any[] = [filters.webhookId, filters.accountKey];
+  const conditions = ['d.webhook_id = $1', 'w.account_key = $2'];
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`d.status = $${params.length}`);
+  }
+
+  params.push(filters.limit, filters.offset);
+  const query = `
+    SELECT d.* FROM webhook_deliveries d
+    JOIN webhooks w ON w.id = d.webhook_id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY d.created_at DESC
+    LIMIT $${params.length - 1} OFFSET $${params.length}
+  `;
+
+  const result = await pgPool.query(query, params);
+  return result.rows.map(toWebhookDelivery);
+}
+
+export async function redeliverWebhookDelivery(
+  id: string,
+  webhookId: string,
+  accountKey: string
+): Promise<WebhookDelivery | null> {
+  const query = `
+    UPDATE webhook_deliveries d SET status = 'pending', attempts = 0, next_attempt_at = now()
+    FROM webhooks w
+    WHERE d.id = $1 AND d.webhook_id = $2 AND w.id = d.webhook_id AND w.account_key = $3
+      AND d.status IN ('delivered', 'failed')
+    RETURNING d.*
+  `;
+  const result = await pgPool.query(query, [id, webhookId, accountKey]);
+  return result.rows[0] ? toWebhookDelivery(result.rows[0]) : null;
+}
+
+export async function pruneWebhookDeliveries(retentionDays: number): Promise<number> {
+  const result = await pgPool.query(
+    `DELETE FROM webhook_deliveries
+    WHERE status IN ('delivered', 'failed') AND created_at < now() - interval '1 day' * $1`,
+    [retentionDays]
+  );
+  return result.rowCount ?? 0;
+}
@@ -0,0 +1,173 @@
+import { pgPool } from './client';
+import { BufferedTable, WriteBuffer } from './write-buffer';
+
+jest.mock('./client', () => ({ pgPool: { connect: jest.fn() }, onShutdown: jest.fn() }));
+
+interface Row {
+  id: string;
+  value: string;
+}
+
+const connect = pgPool.connect as unknown as jest.Mock;
+let inserts: unknown[][];
+
+// an insert fails when any of its rows has the value 'bad'
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  inserts = [];
+  connect.mockReset();
+  connect.mockImplementation(async () => ({
+    query: async (sql: string, params?: unknown[]) => {
+      if (!sql.includes('INSERT')) return;
+      if (params?.includes('bad')) throw new Error('invalid row');
+      inserts.push(params ?? []);
+    },
+    release: () => undefined,
+  }));
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+const table = (overrides: Partial<BufferedTable<Row>> = {}): BufferedTable<Row> => ({
+  table: 'rows',
+  columns: ['id', 'value'],
+  onConflict: 'ON CONFLICT (id) DO NOTHING',
+  key: (row) => row.id,
+  values: (row) => [row.id, row.value],
+  ...overrides,
+});
+
+describe('WriteBuffer', () => {
+  it('writes a full batch at once in one insert', async () => {
+    const buffer = new WriteBuffer({ maxBatchSize: 3, flushIntervalMs: 60_000 });
+    const write = buffer.register(table());
+
+    await Promise.all(['a', 'b', 'c'].map((id) => write({ id, value: id })));
+
+    expect(inserts).toEqual([['a', 'a', 'b', 'b', 'c', 'c']]);
+    expect(buffer.getMetrics().tables[0]).toMatchObject({ flushes: 1, rowsWritten: 3 });
+  });
+
+  it('writes a partial batch after the flush interval', async () => {
+    const buffer = new WriteBuffer({ maxBatchSize: 100, flushIntervalMs: 5 });
+    const write = buffer.register(table());
+
+    await write({ id: 'a', value: 'a' });
+
+    expect(inserts).toEqual([['a', 'a']]);
+  });
+
+  it('collapses rows sharing a key to the last one', async () => {
+    const buffer = new WriteBuffer({ maxBatchSize: 100, flushIntervalMs: 60_000 });
+    const write = buffer.register(table());
+
+    const writes = [write({ id: 'a', value: 'first' }), write({ id: 'a', value: 'second' })];
+    await buffer.flush();
+    await Promise.all(writes);
+
+    expect(inserts).toEqual([['a', 'second']]);
+  });
+
+  it('caps a batch at the rows whose values fit in one query', async () => {
+    // 20,000 columns leave room for 3 rows in 65,535 parameters
+    const columns = Array.from({ length: 20_000 }, (_, column) => `c${column}`);
+    const buffer = new WriteBuffer({ maxBatchSize: 10, flushIntervalMs: 60_000 });
+    const write = buffer.register(
+      table({ columns, values: (row) => columns.map(() => row.value) })
+    );
+
+    const writes = ['a', 'b', 'c', 'd'].map((id) => write({ id, value: id }));
+    await buffer.flush();
+    await Promise.all(writes);
+
+    expect(inserts.map((params) => params.length)).toEqual([60_000, 20_000]);
+  });
+
+  it('rejects only the rows that fail on their own', async () => {
+    const buffer = new WriteBuffer({ maxBatchSize: 100, flushIntervalMs: 60_000 });
+    const write = buffer.register(table());
+
+    const writes = ['ok', 'ok', 'bad', 'ok'].map((value, index) =>
+      write({ id: String(index), value })
+    );
+    await buffer.flush();
+    const results = await Promise.allSettled(writes);
+
+    expect(results.map((result) => result.status)).toEqual([
+      'fulfilled',
+      'fulfilled',
+      'rejected',
+      'fulfilled',
+    ]);
+    expect((results[2] as PromiseRejectedResult).reason.message).toBe(
+      'Failed to write rows row: invalid row'
+    );
+    expect(inserts.flat().filter((value) => value === 'ok')).toHaveLength(3);
+    expect(buffer.getMetrics().tables[0]).toMatchObject({
+      failedFlushes: 1,
+      rowsWritten: 3,
+      lastError: 'Failed to write rows row: invalid row',
+    });
+  });
+
+  it('rejects the whole batch when no connection is available', async () => {
+    connect.mockRejectedValue(new Error('pool exhausted'));
+    const buffer = new WriteBuffer({ maxBatchSize: 2, flushIntervalMs: 60_000 });
+    const write = buffer.register(table());
+
+    const results = await Promise.allSettled(['a', 'b'].map((id) => write({ id, value: id })));
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds producers back above the high-water mark until the queue drains', async () => {
+    let release: () => void = () => undefined;
+    const connected = connect.getMockImplementation()!;
+    connect.mockImplementationOnce(
+      () => new Promise((resolve) => (release = () => resolve(connected())))
+    );
+
+    const buffer = new WriteBuffer({
+      maxBatchSize: 100,
+      flushIntervalMs: 60_000,
+      highWaterMark: 3,
+    });
+    const write = buffer.register(table());
+
+    const writes = ['a', 'b', 'c'].map((id) => write({ id, value: id }));
+    let waited = false;
+    const waiting = buffer.waitForCapacity().then(() => (waited = true));
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(waited).toBe(false);
+    expect(buffer.getMetrics()).toMatchObject({ queueDepth: 3, backpressureActive: true });
+
+    release();
+    await waiting;
+    await Promise.all(writes);
+
+    expect(inserts).toEqual([['a', 'a', 'b', 'b', 'c', 'c']]);
+    expect(buffer.getMetrics()).toMatchObject({
+      queueDepth: 0,
+      backpressureActive: false,
+      backpressureWaits: 1,
+    });
+  });
+
+  it('does not wait below the high-water mark', async () => {
+    const buffer = new WriteBuffer({
+      maxBatchSize: 100,
+      flushIntervalMs: 60_000,
+      highWaterMark: 3,
+    });
+    const write = buffer.register(table());
+
+    const writing = write({ id: 'a', value: 'a' });
+    await buffer.waitForCapacity();
+
+    expect(buffer.getMetrics().backpressureWaits).toBe(0);
+    await buffer.flush();
+    await writing;
+  });
+});
@@ -0,0 +1,368 @@
+import pg from 'pg';
+import { onShutdown, pgPool } from './client';
+
+// the most bind parameters Postgres accepts in one query
+const MAX_QUERY_PARAMETERS = 65_535;
+
+export interface BufferedTable<T> {
+  table: string;
+  columns: string[];
+  // appended to the multi-row insert, e.g. `ON CONFLICT (event_id) DO UPDATE SET ...`
+  onConflict: string;
+  // rows sharing a key within one batch collapse to the last one, an upsert cannot touch a row twice
+  key: (row: T) => string;
+  values: (row: T) => unknown[];
+  // runs in the flush transaction after the insert
+  afterInsert?: (client: pg.PoolClient, rows: T[]) => Promise<void>;
+  // runs once the batch is committed, for work that takes its own locks or connections
+  afterCommit?: (rows: T[]) => Promise<void>;
+}
+
+export interface WriteBufferOptions {
+  maxBatchSize?: number;
+  flushIntervalMs?: number;
+  // queued rows across all tables above which producers are held back
+  highWaterMark?: number;
+}
+
+export interface TableMetrics {
+  table: string;
+  queueDepth: number;
+  inFlight: number;
+  flushes: number;
+  failedFlushes: number;
+  rowsWritten: number;
+  lastFlushMs: number | null;
+  avgFlushMs: number | null;
+  maxFlushMs: number | null;
+  lastFlushAt: string | null;
+  lastError: string | null;
+}
+
+export interface WriteBufferMetrics {
+  queueDepth: number;
+  highWaterMark: number;
+  backpressureActive: boolean;
+  backpressureWaits: number;
+  backpressureMs: number;
+  tables: TableMetrics[];
+}
+
+interface PendingRow<T> {
+  row: T;
+  waiters: { resolve: () => void; reject: (error: Error) => void }[];
+}
+
+interface TableBuffer<T> {
+  definition: BufferedTable<T>;
+  // maxBatchSize, or fewer rows if their values would not fit in one query
+  batchSize: number;
+  pending: Map<string, PendingRow<T>>;
+  timer: NodeJS.Timeout | null;
+  flushing: Promise<void> | null;
+  inFlight: number;
+  metrics: Omit<TableMetrics, 'table' | 'queueDepth' | 'inFlight' | 'avgFlushMs'> & {
+    totalFlushMs: number;
+  };
+}
+
+/**
+ * Collects rows per table and writes them with one multi-row upsert per batch,
+ * instead of a query per event. A table is flushed once it holds a batch,
+ * `maxBatchSize` rows or as many as fit in the 65,535 parameters of a query,
+ * or `flushIntervalMs` after its first queued row;
+ * `enqueue` resolves when the row's batch has committed, so callers can still
+ * rely on their write having landed. A batch that fails is split until the
+ * rows that fail on their own are found; only their callers are rejected.
+ */
+export class WriteBuffer {
+  private tables = new Map<string, TableBuffer<unknown>>();
+  private maxBatchSize: number;
+  private flushIntervalMs: number;
+  private highWaterMark: number;
+  private capacityWaiters: (() => void)[] = [];
+  private backpressureWaits = 0;
+  private backpressureMs = 0;
+
+  constructor(options: WriteBufferOptions = {}) {
+    this.maxBatchSize = options.maxBatchSize ?? 500;
+    this.flushIntervalMs = options.flushIntervalMs ?? 250;
+    this.highWaterMark = options.highWaterMark ?? 5_000;
+  }
+
+  public register<T>(definition: BufferedTable<T>): (row: T) => Promise<void> {
+    if (this.tables.has(definition.table)) {
+      throw new Error(`Table ${definition.table} is already buffered`);
+    }
+
+    const buffer: TableBuffer<T> = {
+      definition,
+      batchSize: Math.min(
+        this.maxBatchSize,
+        Math.floor(MAX_QUERY_PARAMETERS / definition.columns.length)
+      ),
+      pending: new Map(),
+      timer: null,
+      flushing: null,
+      inFlight: 0,
+      metrics: {
+        flushes: 0,
+        failedFlushes: 0,
+        rowsWritten: 0,
+        lastFlushMs: null,
+        maxFlushMs: null,
+        totalFlushMs: 0,
+        lastFlushAt: null,
+        lastError: null,
+      },
+    };
+    // rows only reach a buffer through enqueue, typed by the definition they were registered with
+    this.tables.set(definition.table, buffer as TableBuffer<unknown>);
+
+    return (row) => this.enqueue(definition.table, row);
+  }
+
+  public enqueue<T>(table: string, row: T): Promise<void> {
+    const buffer = this.tables.get(table) as TableBuffer<T> | undefined;
+    if (!buffer) {
+      return Promise.reject(new Error(`Table ${table} is not buffered`));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const key = buffer.definition.key(row);
+      const existing = buffer.pending.get(key);
+      if (existing) {
+        existing.row = row;
+        existing.waiters.push({ resolve, reject });
+      } else {
+        buffer.pending.set(key, { row, waiters: [{ resolve, reject }] });
+      }
+
+      if (buffer.pending.size >= buffer.batchSize) {
+        this.flushTable(buffer);
+      } else if (!buffer.timer) {
+        buffer.timer = setTimeout(() => this.flushTable(buffer), this.flushIntervalMs);
+      }
+    });
+  }
+
+  // writes everything queued so far, in one table or all of them
+  public async flush(table?: string): Promise<void> {
+    const buffers = table
+      ? [this.tables.get(table)].filter((buffer) => buffer !== undefined)
+      : [...this.tables.values()];
+
+    await Promise.all(
+      buffers.map(async (buffer) => {
+        // rows queued while a batch is in flight go out in the next one
+        while (buffer.pending.size > 0 || buffer.flushing) {
+          await this.flushTable(buffer);
+        }
+      })
+    );
+  }
+
+  // resolves once the queue is back under the high-water mark; the sync loop waits on this
+  public async waitForCapacity(): Promise<void> {
+    if (this.queueDepth() < this.highWaterMark) return;
+
+    const started = Date.now();
+    this.backpressureWaits++;
+
+    await new Promise<void>((resolve) => {
+      this.capacityWaiters.push(resolve);
+      for (const buffer of this.tables.values()) {
+        if (buffer.pending.size > 0) this.flushTable(buffer);
+      }
+    });
+
+    this.backpressureMs += Date.now() - started;
+  }
+
+  public getMetrics(): WriteBufferMetrics {
+    const queueDepth = this.queueDepth();
+
+    return {
+      queueDepth,
+      highWaterMark: this.highWaterMark,
+      backpressureActive: this.capacityWaiters.length > 0,
+      backpressureWaits: this.backpressureWaits,
+      backpressureMs: this.backpressureMs,
+      tables: [...this.tables.entries()].map(([table, buffer]) => {
+        const { totalFlushMs, ...metrics } = buffer.metrics;
+        return {
+          table,
+          queueDepth: buffer.pending.size,
+          inFlight: buffer.inFlight,
+          ...metrics,
+          avgFlushMs: metrics.flushes > 0 ? Math.round(totalFlushMs / metrics.flushes) : null,
+        };
+      }),
+    };
+  }
+
+  private queueDepth(): number {
+    let depth = 0;
+    for (const buffer of this.tables.values()) {
+      depth += buffer.pending.size + buffer.inFlight;
+    }
+    return depth;
+  }
+
+  // one batch per table at a time, so a table never holds more than one pooled connection
+  private flushTable<T>(buffer: TableBuffer<T>): Promise<void> {
+    if (buffer.timer) {
+      clearTimeout(buffer.timer);
+      buffer.timer = null;
+    }
+
+    if (!buffer.flushing) {
+      buffer.flushing = this.writeBatch(buffer).finally(() => {
+        buffer.flushing = null;
+        this.releaseCapacity();
+
+        if (buffer.pending.size >= buffer.batchSize) {
+          this.flushTable(buffer);
+        } else if (buffer.pending.size > 0 && !buffer.timer) {
+          buffer.timer = setTimeout(() => this.flushTable(buffer), this.flushIntervalMs);
+        }
+      });
+    }
+
+    return buffer.flushing;
+  }
+
+  // never rejects: a row that could not be written is reported to the callers waiting on it
+  private async writeBatch<T>(buffer: TableBuffer<T>): Promise<void> {
+    const batch = [...buffer.pending.values()].slice(0, buffer.batchSize);
+    if (batch.length === 0) return;
+
+    for (const key of [...buffer.pending.keys()].slice(0, batch.length)) {
+      buffer.pending.delete(key);
+    }
+    buffer.inFlight = batch.length;
+
+    const { definition, metrics } = buffer;
+    const started = Date.now();
+    const failures = await this.writeRows(definition, batch);
+
+    const elapsed = Date.now() - started;
+    metrics.lastFlushMs = elapsed;
+    metrics.maxFlushMs = Math.max(metrics.maxFlushMs ?? 0, elapsed);
+    metrics.totalFlushMs += elapsed;
+    metrics.lastFlushAt = new Date().toISOString();
+    metrics.rowsWritten += batch.length - failures.size;
+    buffer.inFlight = 0;
+
+    if (failures.size > 0) {
+      metrics.failedFlushes++;
+      metrics.lastError = [...failures.values()][0]!.message;
+    } else {
+      metrics.flushes++;
+    }
+
+    for (const pending of batch) {
+      const error = failures.get(pending);
+      for (const waiter of pending.waiters) {
+        if (error) {
+          waiter.reject(error);
+        } else {
+          waiter.resolve();
+        }
+      }
+    }
+  }
+
+  // writes the rows in one transaction; when that fails the rows are split in halves and
+  // retried, so only the ones that fail on their own are rejected. Returns their errors
+  private async writeRows<T>(
+    definition: BufferedTable<T>,
+    batch: PendingRow<T>[]
+  ): Promise<Map<PendingRow<T>, Error>> {
+    const rows = batch.map((pending) => pending.row);
+
+    let client: pg.PoolClient;
+    try {
+      client = await pgPool.connect();
+    } catch (cause) {
+      // without a connection no row can be written, splitting would not help
+      const error = new Error(`Failed to write ${definition.table} batch: ${errorMessage(cause)}`);
+      console.error(error.message);
+      return new Map(batch.map((pending) => [pending, error]));
+    }
+
+    let failed = false;
+    let failure: unknown;
+    try {
+      await client.query('BEGIN');
+      await client.query(buildInsert(definition, rows.length), rows.flatMap(definition.values));
+      await definition.afterInsert?.(client, rows);
+      await client.query('COMMIT');
+    } catch (cause) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      failed = true;
+      failure = cause;
+    } finally {
+      client.release();
+    }
+
+    if (failed) {
+      if (batch.length === 1) {
+        const error = new Error(
+          `Failed to write ${definition.table} row: ${errorMessage(failure)}`
+        );
+        console.error(error.message);
+        return new Map([[batch[0]!, error]]);
+      }
+
+      const middle = Math.ceil(batch.length / 2);
+      const first = await this.writeRows(definition, batch.slice(0, middle));
+      const second = await this.writeRows(definition, batch.slice(middle));
+      return new Map([...first, ...second]);
+    }
+
+    if (definition.afterCommit) {
+      await definition.afterCommit(rows).catch((cause: unknown) => {
+        console.error(`Post-commit work for ${definition.table} batch failed:`, cause);
+      });
+    }
+    return new Map();
+  }
+
+  private releaseCapacity(): void {
+    // hysteresis: producers resume at half the mark so they do not stall on every row
+    if (this.capacityWaiters.length === 0 || this.queueDepth() >= this.highWaterMark / 2) return;
+
+    const waiters = this.capacityWaiters;
+    this.capacityWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function buildInsert<T>(definition: BufferedTable<T>, rowCount: number): string {
+  const width = definition.columns.length;
+  const tuples = Array.from(
+    { length: rowCount },
+    (_, row) =>
+      `(${definition.columns.map((_, column) => `$${row * width + column + 1}`).join(', ')})`
+  );
+
+  return `
+    INSERT INTO ${definition.table} (${definition.columns.join(', ')})
+    VALUES ${tuples.join(',\n      ')}
+    ${definition.onConflict}
+  `;
+}
+
+// shared by the sync loop and backfill, so batches fill up across accounts
+export const writeBuffer = new WriteBuffer({
+  maxBatchSize: Number(process.env.WRITE_BUFFER_BATCH_SIZE) || undefined,
+  flushIntervalMs: Number(process.env.WRITE_BUFFER_FLUSH_MS) || undefined,
+  highWaterMark: Number(process.env.WRITE_BUFFER_HIGH_WATER_MARK) || undefined,
+});
+
+onShutdown(() => writeBuffer.flush());
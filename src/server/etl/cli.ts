@@ -0,0 +1,185 @@
+// first, it loads .env for the modules below
+import { closeDatabase, initializeDatabase } from '../db/client';
+import { parseArgs } from 'util';
+import { logger } from 'matrix-js-sdk/src/logger';
+import { z } from 'zod';
+import { configStore } from '../config/store';
+import {
+  backfill,
+  CliError,
+  Emit,
+  ExitCode,
+  exportArchive,
+  exportKeys,
+  importKeys,
+  login,
+  resolveAccount,
+  status,
+  sync,
+} from './commands';
+
+const USAGE = `Usage: npm run etl -- <command> [options]
+
+Commands:
+  login [--username <name>] [--domain <url>]   password from MATRIX_PASSWORD or a prompt
+  sync [--follow]                              catch up, or keep syncing until interrupted
+  backfill [--room <roomId>...] [--since <iso date>] [--page-size <n>]
+  export --format <jsonl|csv|html> [--room <roomId>...] [--network <name>]
+         [--from <date>] [--to <date>] [--out <file>]
+  keys export [--out <file>]
+  keys import <file>
+  status
+
+Options:
+  --account <username@domain>   the account to use, defaults to ETL_ACCOUNT or the only one
+  --verbose                     include matrix-js-sdk debug logging
+
+Every line on stdout is JSON: progress as {"event", "data"}, then the result as
+{"ok", "command", "data"} or {"ok": false, "command", "error"}. Logs go to stderr.
+Exit codes: 0 ok, 1 failed, 2 usage, 3 not logged in or credentials refused.
+
+Do not sync an account here while the server is running it.`;
+
+function write(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value)}\n`);
+}
+
+const emit: Emit = (event, data) => write({ event, data });
+
+function exitCodeFor(error: any): number {
+  if (error instanceof CliError) return error.exitCode;
+  if (error instanceof z.ZodError) return ExitCode.Usage;
+  // parseArgs reports unknown and malformed options this way
+  if (typeof error?.code === 'string' && error.code.startsWith('ERR_PARSE_ARGS')) {
+    return ExitCode.Usage;
+  }
+  return ExitCode.Failed;
+}
+
+function errorMessage(error: any): string {
+  if (error instanceof z.ZodError) {
+    return error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+  }
+  return error?.message ?? String(error);
+}
+
+const COMMANDS = ['login', 'sync', 'backfill', 'export', 'keys', 'status'] as const;
+
+type Command = (typeof COMMANDS)[number];
+
+function isCommand(command: string | undefined): command is Command {
+  return COMMANDS.includes(command as Command);
+}
+
+async function run(
+  command: Command,
+  args: string[],
+  values: Record<string, any>
+): Promise<{ data: unknown; exitCode: number }> {
+  const ok = (data: unknown) => ({ data, exitCode: ExitCode.Ok });
+
+  // reports pending migrations instead of applying them
+  if (command === 'status') return ok(await status());
+
+  await initializeDatabase();
+  await configStore.start();
+
+  switch (command) {
+    case 'login':
+      return ok(await login({ username: values.username, domain: values.domain }));
+    case 'sync':
+      return ok(await sync(await resolveAccount(values.account), !!values.follow, emit));
+    case 'backfill':
+      return backfill(
+        await resolveAccount(values.account),
+        { roomIds: values.room, since: values.since, pageSize: values['page-size'] },
+        emit
+      );
+    case 'export':
+      return exportArchive(await resolveAccount(values.account), {
+        format: values.format,
+        roomIds: values.room,
+        network: values.network,
+        from: values.from,
+        to: values.to,
+        out: values.out,
+      });
+    case 'keys': {
+      const [action, file] = args;
+      if (action === 'export') {
+        return ok(await exportKeys(await resolveAccount(values.account), values.out));
+      }
+      if (action === 'import' && file) {
+        return ok(await importKeys(await resolveAccount(values.account), file));
+      }
+      throw new CliError('Expected keys export or keys import <file>', ExitCode.Usage);
+    }
+  }
+}
+
+async function main(): Promise<number> {
+  // stdout is reserved for JSON, everything the server code logs goes to stderr
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+
+  let command: string | undefined;
+  try {
+    const { values, positionals } = parseArgs({
+      allowPositionals: true,
+      options: {
+        account: { type: 'string' },
+        username: { type: 'string' },
+        domain: { type: 'string' },
+        follow: { type: 'boolean' },
+        room: { type: 'string', multiple: true },
+        since: { type: 'string' },
+        'page-size': { type: 'string' },
+        format: { type: 'string' },
+        network: { type: 'string' },
+        from: { type: 'string' },
+        to: { type: 'string' },
+        out: { type: 'string' },
+        verbose: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+
+    // the SDK logger binds the console methods when its level is set
+    logger.setLevel(values.verbose ? 'debug' : 'warn');
+
+    if (values.help) {
+      process.stdout.write(`${USAGE}\n`);
+      return ExitCode.Ok;
+    }
+
+    [command] = positionals;
+    if (!isCommand(command)) {
+      process.stderr.write(`${USAGE}\n`);
+      throw new CliError(
+        command ? `Unknown command ${command}` : 'No command given',
+        ExitCode.Usage
+      );
+    }
+
+    const result = await run(command, positionals.slice(1), values);
+    write({ ok: result.exitCode === ExitCode.Ok, command, data: result.data });
+    return result.exitCode;
+  } catch (error: any) {
+    const exitCode = exitCodeFor(error);
+    if (exitCode === ExitCode.Failed) console.error(error);
+    write({
+      ok: false,
+      command: command ?? null,
+      error: { message: errorMessage(error), exitCode },
+    });
+    return exitCode;
+  }
+}
+
+// sessions are stopped and buffered writes flushed by the shutdown hooks; the
+// SDK leaves timers behind, so the process is ended explicitly
+main().then(async (exitCode) => {
+  await closeDatabase();
+  process.exit(exitCode);
+});
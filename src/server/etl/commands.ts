@@ -0,0 +1,289 @@
+import { once } from 'events';
+import { copyFile, readFile, writeFile } from 'fs/promises';
+import { createInterface } from 'readline';
+import { Writable } from 'stream';
+import { z } from 'zod';
+import { accountKey } from '../../app/matrix/accounts';
+import { BackfillProgress } from '../../app/matrix/backfill';
+import { MatrixClient } from '../../app/matrix/client';
+import { syncProgress } from '../../app/matrix/progress';
+import { SessionError, sessionRegistry } from '../../app/matrix/sessions';
+import { getAccount, loadAccounts } from '../db/accounts';
+import { loadBackfillStates } from '../db/backfill';
+import { pgPool } from '../db/client';
+import { createExportJob } from '../db/exports';
+import { Migrator } from '../db/migrator';
+import { listSyncTransitions } from '../db/sync-transitions';
+import { exportWorker } from '../exports/worker';
+import { AccountRecord, BackfillStatus, SyncProgress } from '../types';
+
+export const ExitCode = {
+  Ok: 0,
+  Failed: 1,
+  Usage: 2,
+  // not logged in, or the homeserver refused the credentials
+  Auth: 3,
+} as const;
+
+export class CliError extends Error {
+  constructor(
+    message: string,
+    public exitCode: number
+  ) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+// a line of progress written while a command runs, before its result
+export type Emit = (event: string, data: unknown) => void;
+
+function prompt(question: string, hidden = false): Promise<string> {
+  // muted once the question is written, so nothing typed is echoed for passwords
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) process.stderr.write(chunk, encoding);
+      callback();
+    },
+  });
+  const rl = createInterface({ input: process.stdin, output, terminal: true });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      if (hidden) process.stderr.write('\n');
+      resolve(answer);
+    });
+    muted = hidden;
+  });
+}
+
+// the account named by --account or ETL_ACCOUNT, or the only one registered
+export async function resolveAccount(key = process.env.ETL_ACCOUNT): Promise<AccountRecord> {
+  if (key) {
+    const account = await getAccount(key);
+    if (!account) {
+      throw new CliError(`Account ${key} is not registered, run login first`, ExitCode.Auth);
+    }
+    return account;
+  }
+
+  const accounts = await loadAccounts();
+  if (accounts.length === 1) return accounts[0]!;
+
+  throw accounts.length === 0
+    ? new CliError('No account is registered, run login first', ExitCode.Auth)
+    : new CliError('Several accounts are registered, pick one with --account', ExitCode.Usage);
+}
+
+function isAuthFailure(error: any): boolean {
+  return (
+    (error instanceof SessionError && error.status === 401) ||
+    /^Failed to login/.test(error?.message ?? '')
+  );
+}
+
+// starts the account's session and waits for its first sync
+async function startSession(account: AccountRecord): Promise<MatrixClient> {
+  let session: MatrixClient;
+  try {
+    session = await sessionRegistry.start(account);
+  } catch (error: any) {
+    if (isAuthFailure(error)) throw new CliError(error.message, ExitCode.Auth);
+    throw error;
+  }
+
+  await session.getBackfillManager()?.waitForInitialSync();
+  return session;
+}
+
+export async function login(opts: {
+  username?: string;
+  domain?: string;
+}): Promise<Record<string, unknown>> {
+  const interactive = process.stdin.isTTY;
+  const username =
+    opts.username ??
+    process.env.MATRIX_USERNAME ??
+    (interactive ? await prompt('Username: ') : undefined);
+  const domain =
+    opts.domain ??
+    process.env.MATRIX_DOMAIN ??
+    (interactive ? await prompt('Homeserver URL: ') : undefined);
+  const password =
+    process.env.MATRIX_PASSWORD ?? (interactive ? await prompt('Password: ', true) : undefined);
+
+  if (!username || !domain || !password) {
+    throw new CliError(
+      'Set --username, --domain and MATRIX_PASSWORD, or run login in a terminal',
+      ExitCode.Usage
+    );
+  }
+
+  const auth = z
+    .object({ username: z.string().min(1), domain: z.string().url(), password: z.string() })
+    .parse({ username, domain, password });
+
+  let session: MatrixClient;
+  try {
+    session = await sessionRegistry.login(auth);
+  } catch (error: any) {
+    if (isAuthFailure(error)) throw new CliError(error.message, ExitCode.Auth);
+    throw error;
+  }
+
+  return {
+    accountKey: accountKey(auth),
+    userId: session.getClient()?.getUserId() ?? null,
+    deviceId: session.getClient()?.getDeviceId() ?? null,
+  };
+}
+
+// without --follow, returns once the account has caught up
+export async function sync(account: AccountRecord, follow: boolean, emit: Emit): Promise<unknown> {
+  const tracker = syncProgress.get(account.accountKey);
+  const report = (progress: SyncProgress) => emit('sync.progress', progress);
+  if (follow) tracker.on('change', report);
+
+  await startSession(account);
+  if (!follow) return sessionRegistry.syncStatus(account);
+
+  // runs until SIGINT or SIGTERM, which stop the session and end the process
+  report(tracker.snapshot());
+  return new Promise(() => undefined);
+}
+
+export async function backfill(
+  account: AccountRecord,
+  opts: { roomIds?: string[]; since?: string; pageSize?: string },
+  emit: Emit
+): Promise<{ data: unknown; exitCode: number }> {
+  const { roomIds, since, pageSize } = z
+    .object({
+      roomIds: z.array(z.string()).min(1).optional(),
+      since: z.coerce.date().optional(),
+      pageSize: z.coerce.number().int().positive().max(1000).optional(),
+    })
+    .parse(opts);
+
+  const session = await startSession(account);
+  const manager = session.getBackfillManager();
+  if (!manager) throw new Error('Sync manager not initialized');
+
+  const unknown = roomIds?.filter((roomId) => !session.getClient()?.getRoom(roomId)) ?? [];
+  if (unknown.length > 0) {
+    throw new CliError(`Not a member of ${unknown.join(', ')}`, ExitCode.Failed);
+  }
+
+  // rooms a resumed backfill completes are skipped by the new one
+  if (manager.isRunning()) await once(manager, 'finished');
+
+  manager.on('progress', (state) => emit('backfill.progress', state));
+  const finished = once(manager, 'finished');
+  manager.start({
+    roomIds,
+    cutoffTs: since?.getTime(),
+    pageSize,
+  });
+
+  const [progress] = (await finished) as [BackfillProgress];
+  const failed = progress.rooms.some((room) => room.status === 'failed');
+  return { data: progress, exitCode: failed ? ExitCode.Failed : ExitCode.Ok };
+}
+
+const exportOptionsSchema = z
+  .object({
+    format: z.enum(['jsonl', 'csv', 'html']),
+    roomIds: z.array(z.string()).min(1).optional(),
+    network: z.string().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    out: z.string().optional(),
+  })
+  .transform(({ format, from, to, out, ...filters }) => ({
+    format,
+    out,
+    filters: { ...filters, fromTs: from?.getTime(), toTs: to?.getTime() },
+  }));
+
+// runs the export in this process instead of queueing it for the server's worker
+export async function exportArchive(
+  account: AccountRecord,
+  opts: z.input<typeof exportOptionsSchema>
+): Promise<{ data: unknown; exitCode: number }> {
+  const { format, out, filters } = exportOptionsSchema.parse(opts);
+
+  const queued = await createExportJob({ accountKey: account.accountKey, format, filters });
+  const job = await exportWorker.run(queued.id);
+  if (!job) {
+    throw new CliError(`Export ${queued.id} was picked up by another worker`, ExitCode.Failed);
+  }
+
+  if (job.status !== 'completed' || !job.filePath) {
+    return { data: job, exitCode: ExitCode.Failed };
+  }
+
+  if (out) await copyFile(job.filePath, out);
+  return { data: { ...job, out: out ?? null }, exitCode: ExitCode.Ok };
+}
+
+const keysFileSchema = z.union([
+  z.object({ roomKeys: z.string(), secretsBundle: z.any().optional() }),
+  // a bare list of room keys, as exportRoomKeysAsJson writes them
+  z.array(z.object({ session_id: z.string() }).passthrough()),
+]);
+
+export async function exportKeys(
+  account: AccountRecord,
+  out: string | undefined
+): Promise<Record<string, unknown>> {
+  const session = await startSession(account);
+  const keys = await session.exportEncryptionKeys();
+  const roomKeys = (JSON.parse(keys.roomKeys) as unknown[]).length;
+
+  if (!out) return { roomKeys, keys };
+
+  // readable by the owner only, the file holds every room key of the account
+  await writeFile(out, JSON.stringify(keys), { mode: 0o600 });
+  return { roomKeys, out };
+}
+
+export async function importKeys(
+  account: AccountRecord,
+  file: string
+): Promise<Record<string, unknown>> {
+  const parsed = keysFileSchema.parse(JSON.parse(await readFile(file, 'utf8')));
+  const keys = Array.isArray(parsed) ? { roomKeys: JSON.stringify(parsed) } : parsed;
+
+  const session = await startSession(account);
+  await session.importEncryptionKeys(keys);
+
+  return { roomKeys: (JSON.parse(keys.roomKeys) as unknown[]).length };
+}
+
+export async function status(): Promise<Record<string, unknown>> {
+  const accounts = await loadAccounts();
+  const backfillStates = await loadBackfillStates();
+  const migrations = await new Migrator(pgPool).status();
+
+  const backfill: Partial<Record<BackfillStatus, number>> = {};
+  for (const state of backfillStates) {
+    backfill[state.status] = (backfill[state.status] ?? 0) + 1;
+  }
+
+  return {
+    accounts: await Promise.all(
+      accounts.map(async ({ passwordHash: _passwordHash, ...account }) => ({
+        ...account,
+        lastTransition:
+          (await listSyncTransitions(account.accountKey, { limit: 1, offset: 0 }))[0] ?? null,
+      }))
+    ),
+    backfill,
+    migrations: {
+      applied: migrations.filter((migration) => migration.state === 'applied').length,
+      pending: migrations.filter((migration) => migration.state === 'pending').length,
+    },
+  };
+}
@@ -0,0 +1,210 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ExportJob, ExportMediaReference, ExportMessage, ExportRoom } from '@/server/types';
+import { createFormatter } from './formats';
+
+const job = { id: 'export-1', filters: { roomIds: ['!room:example.org'] } } as ExportJob;
+
+const room: ExportRoom = {
+  id: '!room:example.org',
+  name: 'Team <chat>',
+  topic: null,
+  network: 'matrix',
+  isEncrypted: false,
+  createdTs: null,
+};
+
+const participants = [
+  { userId: '@alice:example.org', displayName: 'Alice', membership: 'join', joinedTs: null },
+  { userId: '@bob:example.org', displayName: null, membership: 'join', joinedTs: null },
+];
+
+const message = (overrides: Partial<ExportMessage> = {}): ExportMessage => ({
+  eventId: '$event',
+  roomId: room.id,
+  sender: '@alice:example.org',
+  eventType: 'm.room.message',
+  timestamp: Date.UTC(2024, 0, 2, 3, 4, 5),
+  content: { msgtype: 'm.text', body: 'hello' },
+  isEncrypted: false,
+  threadRootId: null,
+  edited: false,
+  redacted: false,
+  replyTo: null,
+  media: [],
+  ...overrides,
+});
+
+const media = (overrides: Partial<ExportMediaReference> = {}): ExportMediaReference => ({
+  id: 'media-1',
+  mxcUrl: 'mxc://example.org/abc',
+  kind: 'file',
+  mimetype: 'image/png',
+  fileName: 'cat.png',
+  status: 'downloaded',
+  size: 4,
+  storagePath: '/var/lib/media/abc',
+  ...overrides,
+});
+
+describe('JSONL export', () => {
+  it('writes one record per line and hides where media is stored', async () => {
+    const formatter = createFormatter('jsonl');
+    formatter.room(room, participants);
+
+    const line = await formatter.message(message({ media: [media()] }));
+
+    expect(line.endsWith('\n')).toBe(true);
+    const record = JSON.parse(line);
+    expect(record).toMatchObject({ type: 'message', eventId: '$event' });
+    expect(record.media).toEqual([
+      {
+        id: 'media-1',
+        mxcUrl: 'mxc://example.org/abc',
+        kind: 'file',
+        mimetype: 'image/png',
+        fileName: 'cat.png',
+        status: 'downloaded',
+        size: 4,
+        downloaded: true,
+      },
+    ]);
+  });
+
+  it('writes the room and its participants before the messages', () => {
+    const formatter = createFormatter('jsonl');
+    const lines = formatter
+      .room(room, participants)
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+    expect(lines.map((line) => line.type)).toEqual(['room', 'participant', 'participant']);
+    expect(lines[1]).toMatchObject({ roomId: room.id, userId: '@alice:example.org' });
+  });
+});
+
+describe('CSV export', () => {
+  it('quotes fields and names senders by their display name', async () => {
+    const formatter = createFormatter('csv');
+    expect(formatter.begin(job, [room])).toMatch(/^room_id,room_name,event_id,/);
+    formatter.room(room, participants);
+
+    const row = await formatter.message(
+      message({ content: { msgtype: 'm.text', body: 'say "hi",\nthen leave' } })
+    );
+
+    expect(row).toBe(
+      '!room:example.org,Team <chat>,$event,2024-01-02T03:04:05.000Z,@alice:example.org,Alice,' +
+        'm.room.message,m.text,"say ""hi"",\nthen leave",,,false,false,,\r\n'
+    );
+  });
+
+  it('leaves the body of redacted and undecryptable messages empty', async () => {
+    const formatter = createFormatter('csv');
+    formatter.room(room, participants);
+
+    const redacted = await formatter.message(message({ redacted: true }));
+    const encrypted = await formatter.message(message({ eventType: 'm.room.encrypted' }));
+
+    expect(redacted.split(',')[8]).toBe('');
+    expect(encrypted.split(',')[8]).toBe('');
+  });
+});
+
+describe('HTML export', () => {
+  it('escapes names and bodies', async () => {
+    const formatter = createFormatter('html');
+    const section = formatter.room(room, participants);
+    const article = await formatter.message(
+      message({ content: { msgtype: 'm.text', body: '<script>alert(1)</script>' } })
+    );
+
+    expect(section).toContain('<h2>Team &lt;chat&gt;</h2>');
+    expect(article).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(article).not.toContain('<script>');
+    expect(article).toContain('<span class="sender" title="@alice:example.org">Alice</span>');
+  });
+
+  it('shows replies without the quoted fallback', async () => {
+    const formatter = createFormatter('html');
+    formatter.room(room, participants);
+
+    const article = await formatter.message(
+      message({
+        content: { msgtype: 'm.text', body: '> <@bob:example.org> question\n\nanswer' },
+        replyTo: { eventId: '$parent', sender: '@bob:example.org', body: 'question' },
+      })
+    );
+
+    expect(article).toContain('<a class="reply" href="#%24parent">');
+    expect(article).toContain('<div class="body">answer</div>');
+  });
+
+  it('marks deleted and undecryptable messages', async () => {
+    const formatter = createFormatter('html');
+    formatter.room(room, participants);
+
+    expect(await formatter.message(message({ redacted: true }))).toContain('Message deleted');
+    expect(await formatter.message(message({ eventType: 'm.room.encrypted' }))).toContain(
+      'Unable to decrypt message'
+    );
+  });
+
+  describe('images', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'export-formats-'));
+    });
+
+    afterEach(() => rm(directory, { recursive: true, force: true }));
+
+    it('embeds a downloaded image as a data URI', async () => {
+      const storagePath = join(directory, 'cat.png');
+      await writeFile(storagePath, Buffer.from([1, 2, 3, 4]));
+
+      const formatter = createFormatter('html');
+      formatter.room(room, participants);
+      const article = await formatter.message(
+        message({
+          content: { msgtype: 'm.image', body: 'cat.png' },
+          media: [media({ storagePath })],
+        })
+      );
+
+      expect(article).toContain('<img src="data:image/png;base64,AQIDBA==" alt="cat.png"');
+    });
+
+    it('does not embed an image whose mimetype is not a plain image type', async () => {
+      const storagePath = join(directory, 'cat.png');
+      await writeFile(storagePath, Buffer.from([1, 2, 3, 4]));
+
+      const formatter = createFormatter('html');
+      formatter.room(room, participants);
+      const article = await formatter.message(
+        message({
+          content: { msgtype: 'm.image', body: 'cat.png' },
+          media: [media({ storagePath, mimetype: 'image/png" onerror="alert(1)' })],
+        })
+      );
+
+      expect(article).not.toContain('onerror');
+      expect(article).toContain('Image not available: cat.png');
+    });
+
+    it('notes an image that was not downloaded', async () => {
+      const formatter = createFormatter('html');
+      formatter.room(room, participants);
+      const article = await formatter.message(
+        message({
+          content: { msgtype: 'm.image', body: 'cat.png' },
+          media: [media({ status: 'pending', storagePath: null })],
+        })
+      );
+
+      expect(article).toContain('Image not available: cat.png');
+    });
+  });
+});
@@ -0,0 +1,351 @@
+import { readFile } from 'fs/promises';
+import {
+  ExportFormat,
+  ExportJob,
+  ExportMediaReference,
+  ExportMessage,
+  ExportParticipant,
+  ExportRoom,
+} from '@/server/types';
+
+export const EXPORT_INLINE_IMAGE_MAX_BYTES =
+  Number(process.env.EXPORT_INLINE_IMAGE_MAX_BYTES) || 10 * 1024 * 1024;
+
+/**
+ * Turns an export into text, one room at a time. A formatter is created per
+ * job and may keep state between calls, e.g. the display names of the room
+ * being written.
+ */
+export interface ExportFormatter {
+  readonly extension: string;
+  readonly contentType: string;
+  begin(job: ExportJob, rooms: ExportRoom[]): string;
+  room(room: ExportRoom, participants: ExportParticipant[]): string;
+  message(message: ExportMessage): Promise<string>;
+  endRoom(room: ExportRoom): string;
+  end(): string;
+}
+
+// the local store path is an implementation detail, exports only carry the reference
+function publicMedia({ storagePath, ...media }: ExportMediaReference) {
+  return { ...media, downloaded: storagePath !== null && media.status === 'downloaded' };
+}
+
+function messageBody(message: ExportMessage): string {
+  if (message.redacted) return '';
+  if (message.eventType === 'm.room.encrypted') return '';
+  return typeof message.content.body === 'string' ? message.content.body : '';
+}
+
+class JsonlFormatter implements ExportFormatter {
+  public readonly extension = 'jsonl';
+  public readonly contentType = 'application/x-ndjson';
+
+  public begin(job: ExportJob): string {
+    return this.line({
+      type: 'export',
+      id: job.id,
+      filters: job.filters,
+      exportedAt: new Date().toISOString(),
+    });
+  }
+
+  public room(room: ExportRoom, participants: ExportParticipant[]): string {
+    return [
+      this.line({ type: 'room', ...room }),
+      ...participants.map((participant) =>
+        this.line({ type: 'participant', roomId: room.id, ...participant })
+      ),
+    ].join('');
+  }
+
+  public async message(message: ExportMessage): Promise<string> {
+    return this.line({ type: 'message', ...message, media: message.media.map(publicMedia) });
+  }
+
+  public endRoom(): string {
+    return '';
+  }
+
+  public end(): string {
+    return '';
+  }
+
+  private line(record: Record<string, unknown>): string {
+    return `${JSON.stringify(record)}\n`;
+  }
+}
+
+const CSV_COLUMNS = [
+  'room_id',
+  'room_name',
+  'event_id',
+  'timestamp',
+  'sender',
+  'sender_name',
+  'event_type',
+  'msgtype',
+  'body',
+  'reply_to_event_id',
+  'thread_root_id',
+  'edited',
+  'redacted',
+  'media_urls',
+  'media_file_names',
+];
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// one row per message; participants and media are flattened into the message columns
+class CsvFormatter implements ExportFormatter {
+  public readonly extension = 'csv';
+  public readonly contentType = 'text/csv';
+  private currentRoom: ExportRoom | null = null;
+  private names = new Map<string, string>();
+
+  public begin(): string {
+    return this.row(CSV_COLUMNS);
+  }
+
+  public room(room: ExportRoom, participants: ExportParticipant[]): string {
+    this.currentRoom = room;
+    this.names = displayNames(participants);
+    return '';
+  }
+
+  public async message(message: ExportMessage): Promise<string> {
+    return this.row([
+      message.roomId,
+      this.currentRoom?.name,
+      message.eventId,
+      new Date(message.timestamp).toISOString(),
+      message.sender,
+      this.names.get(message.sender),
+      message.eventType,
+      message.content.msgtype,
+      messageBody(message),
+      message.replyTo?.eventId,
+      message.threadRootId,
+      message.edited,
+      message.redacted,
+      message.media.map((media) => media.mxcUrl).join(' '),
+      message.media.map((media) => media.fileName ?? '').join(' '),
+    ]);
+  }
+
+  public endRoom(): string {
+    return '';
+  }
+
+  public end(): string {
+    return '';
+  }
+
+  private row(values: unknown[]): string {
+    return `${values.map(csvField).join(',')}\r\n`;
+  }
+}
+
+function displayNames(participants: ExportParticipant[]): Map<string, string> {
+  return new Map(
+    participants
+      .filter((participant) => participant.displayName)
+      .map((participant) => [participant.userId, participant.displayName!])
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatTimestamp(timestamp: number): string {
+  return `${new Date(timestamp).toISOString().replace('T', ' ').slice(0, 19)} UTC`;
+}
+
+const HTML_STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 24px; color: #1f2328; }
+  header, section { margin-bottom: 48px; }
+  nav ul { columns: 2; }
+  h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 8px; }
+  details { margin-bottom: 16px; }
+  article { padding: 8px 0; border-bottom: 1px solid #f0f2f4; }
+  article:target { background: #fff8c5; }
+  .meta { font-size: 0.85em; color: #59636e; }
+  .sender { font-weight: 600; color: #1f2328; }
+  .body { white-space: pre-wrap; overflow-wrap: anywhere; margin-top: 4px; }
+  .reply { display: block; border-left: 3px solid #d0d7de; padding-left: 8px; margin-top: 4px; color: #59636e; text-decoration: none; }
+  .notice { font-style: italic; color: #59636e; }
+  img { display: block; max-width: 100%; max-height: 480px; margin-top: 4px; }
+`;
+
+// a single file that opens offline: styles are inline and images are embedded as data URIs
+class HtmlFormatter implements ExportFormatter {
+  public readonly extension = 'html';
+  public readonly contentType = 'text/html';
+  private names = new Map<string, string>();
+
+  public begin(job: ExportJob, rooms: ExportRoom[]): string {
+    const roomLinks = rooms
+      .map(
+        (room) =>
+          `<li><a href="#${encodeURIComponent(room.id)}">${escapeHtml(room.name ?? room.id)}</a></li>`
+      )
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Matrix export ${escapeHtml(job.id)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header>
+<h1>Matrix export</h1>
+<p class="meta">Exported ${escapeHtml(new Date().toISOString())}, ${rooms.length} room(s)</p>
+<nav><ul>
+${roomLinks}
+</ul></nav>
+</header>
+`;
+  }
+
+  public room(room: ExportRoom, participants: ExportParticipant[]): string {
+    this.names = displayNames(participants);
+
+    const members = participants
+      .map(
+        (participant) =>
+          `<li>${escapeHtml(participant.displayName ?? participant.userId)} ` +
+          `<span class="meta">${escapeHtml(participant.userId)}, ${escapeHtml(participant.membership)}</span></li>`
+      )
+      .join('\n');
+
+    return `<section id="${escapeHtml(room.id)}">
+<h2>${escapeHtml(room.name ?? room.id)}</h2>
+${room.topic ? `<p>${escapeHtml(room.topic)}</p>` : ''}
+<p class="meta">${escapeHtml(room.id)}${room.network ? `, ${escapeHtml(room.network)}` : ''}</p>
+<details><summary>${participants.length} participant(s)</summary><ul>
+${members}
+</ul></details>
+`;
+  }
+
+  public async message(message: ExportMessage): Promise<string> {
+    const sender = this.name(message.sender);
+    const reply = message.replyTo
+      ? `<a class="reply" href="#${encodeURIComponent(message.replyTo.eventId)}">` +
+        `<span class="sender">${escapeHtml(message.replyTo.sender ? this.name(message.replyTo.sender) : 'Unknown')}</span> ` +
+        `${escapeHtml(stripReplyFallback(message.replyTo.body ?? '').slice(0, 200))}</a>`
+      : '';
+
+    return `<article id="${escapeHtml(message.eventId)}">
+<div class="meta"><span class="sender" title="${escapeHtml(message.sender)}">${escapeHtml(sender)}</span>
+<time datetime="${new Date(message.timestamp).toISOString()}">${formatTimestamp(message.timestamp)}</time>${message.edited ? ' (edited)' : ''}</div>
+${reply}
+${await this.content(message)}
+</article>
+`;
+  }
+
+  public endRoom(): string {
+    return '</section>\n';
+  }
+
+  public end(): string {
+    return '</body>\n</html>\n';
+  }
+
+  private name(userId: string): string {
+    return this.names.get(userId) ?? userId;
+  }
+
+  private async content(message: ExportMessage): Promise<string> {
+    if (message.redacted) {
+      return '<div class="body notice">Message deleted</div>';
+    }
+    if (message.eventType === 'm.room.encrypted') {
+      return '<div class="body notice">Unable to decrypt message</div>';
+    }
+
+    const body = stripReplyFallback(messageBody(message));
+    const parts: string[] = [];
+
+    if (message.content.msgtype === 'm.image' || message.eventType === 'm.sticker') {
+      const image = await inlineImage(message.media);
+      if (image) {
+        parts.push(`<img src="${escapeHtml(image)}" alt="${escapeHtml(body)}" loading="lazy">`);
+      } else {
+        parts.push(`<div class="body notice">Image not available: ${escapeHtml(body)}</div>`);
+      }
+    } else if (message.media.some((media) => media.kind === 'file')) {
+      const file = message.media.find((media) => media.kind === 'file')!;
+      parts.push(
+        `<div class="body notice">Attachment: ${escapeHtml(file.fileName ?? body)}` +
+          `${file.size !== null ? ` (${file.size} bytes)` : ''}</div>`
+      );
+    } else if (message.content.msgtype === 'm.emote') {
+      parts.push(
+        `<div class="body">* ${escapeHtml(this.name(message.sender))} ${escapeHtml(body)}</div>`
+      );
+    } else {
+      parts.push(`<div class="body">${escapeHtml(body)}</div>`);
+    }
+
+    return parts.join('\n');
+  }
+}
+
+// replies carry a quoted copy of the parent ("> <@user> ...") that the reply block already shows
+function stripReplyFallback(body: string): string {
+  const lines = body.split('\n');
+  let start = 0;
+  while (lines[start]?.startsWith('> ')) start++;
+  if (start > 0 && lines[start] === '') start++;
+  return start > 0 ? lines.slice(start).join('\n') : body;
+}
+
+// the mimetype is the sender's claim and ends up in an attribute
+const IMAGE_MIMETYPE = /^image\/[\w.+-]+$/;
+
+// the downloaded original, or its thumbnail when only that fits
+async function inlineImage(media: ExportMediaReference[]): Promise<string | null> {
+  const candidates = media
+    .filter(
+      (reference) =>
+        reference.status === 'downloaded' &&
+        reference.storagePath !== null &&
+        IMAGE_MIMETYPE.test(reference.mimetype ?? '') &&
+        (reference.size ?? 0) <= EXPORT_INLINE_IMAGE_MAX_BYTES
+    )
+    .sort((a, b) => (a.kind === 'file' ? -1 : b.kind === 'file' ? 1 : 0));
+
+  for (const candidate of candidates) {
+    try {
+      const data = await readFile(candidate.storagePath!);
+      return `data:${candidate.mimetype};base64,${data.toString('base64')}`;
+    } catch (error) {
+      console.error(`Failed to read ${candidate.storagePath} for export:`, error);
+    }
+  }
+  return null;
+}
+
+export function createFormatter(format: ExportFormat): ExportFormatter {
+  switch (format) {
+    case 'jsonl':
+      return new JsonlFormatter();
+    case 'csv':
+      return new CsvFormatter();
+    case 'html':
+      return new HtmlFormatter();
+  }
+}
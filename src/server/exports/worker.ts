@@ -0,0 +1,205 @@
+import { createWriteStream } from 'fs';
+import { mkdir, rename, rm, stat } from 'fs/promises';
+import { once } from 'events';
+import path from 'path';
+import { onShutdown } from '@/server/db/client';
+import {
+  claimExportJob,
+  completeExportJob,
+  countExportMessages,
+  failExportJob,
+  getExportJob,
+  loadExportMessages,
+  loadExportParticipants,
+  loadExportRooms,
+  resetInterruptedExportJobs,
+  updateExportProgress,
+} from '@/server/db/exports';
+import { ExportJob, ExportProgress } from '@/server/types';
+import { createFormatter } from './formats';
+
+export const EXPORT_STORE_PATH = process.env.EXPORT_STORE_PATH || './export-store';
+
+export interface ExportWorkerOptions {
+  pollIntervalMs?: number;
+  pageSize?: number;
+}
+
+class ExportCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Export ${jobId} was cancelled`);
+    this.name = 'ExportCancelledError';
+  }
+}
+
+class ExportInterruptedError extends Error {
+  constructor(jobId: string) {
+    super(`Export ${jobId} was interrupted by shutdown`);
+    this.name = 'ExportInterruptedError';
+  }
+}
+
+/**
+ * Runs queued exports one at a time. Each room is streamed page by page into
+ * a temporary file under `EXPORT_STORE_PATH`, which is renamed into place once
+ * the export is complete; progress is saved after every page, and a job that
+ * was cancelled stops at the next one.
+ */
+export class ExportWorker {
+  private pollIntervalMs: number;
+  private pageSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private active: Promise<void> | null = null;
+  // a job started with run(), outside the polling loop
+  private running: Promise<void> | null = null;
+  private stopping = false;
+
+  constructor(opts: ExportWorkerOptions = {}) {
+    this.pollIntervalMs = opts.pollIntervalMs ?? 5_000;
+    this.pageSize = opts.pageSize ?? 500;
+  }
+
+  public async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.stopping = false;
+    await resetInterruptedExportJobs();
+    this.timer = setInterval(() => this.tick(), this.pollIntervalMs);
+    this.tick();
+  }
+
+  public async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.active;
+    await this.running;
+  }
+
+  // runs one job in this process without polling, as the CLI does; null if it is not pending
+  public async run(jobId: string): Promise<ExportJob | null> {
+    const job = await claimExportJob(jobId);
+    if (!job) return null;
+
+    this.running = this.process(job);
+    try {
+      await this.running;
+    } finally {
+      this.running = null;
+    }
+    return getExportJob(job.id, job.accountKey);
+  }
+
+  // picks up a newly created job without waiting for the next poll
+  public tick(): void {
+    if (this.active || !this.timer) return;
+
+    this.active = this.processQueue()
+      .catch((error) => console.error('Export worker failed:', error))
+      .finally(() => {
+        this.active = null;
+      });
+  }
+
+  private async processQueue(): Promise<void> {
+    while (this.timer) {
+      const job = await claimExportJob();
+      if (!job) return;
+      await this.process(job);
+    }
+  }
+
+  private async process(job: ExportJob): Promise<void> {
+    const formatter = createFormatter(job.format);
+    const filePath = path.join(EXPORT_STORE_PATH, `${job.id}.${formatter.extension}`);
+    const tempPath = `${filePath}.tmp`;
+
+    await mkdir(EXPORT_STORE_PATH, { recursive: true });
+    const stream = createWriteStream(tempPath);
+    let streamError: Error | null = null;
+    stream.on('error', (error) => {
+      streamError = error;
+    });
+
+    const write = async (chunk: string) => {
+      if (streamError) throw streamError;
+      if (chunk && !stream.write(chunk)) {
+        await once(stream, 'drain');
+      }
+    };
+
+    try {
+      const rooms = await loadExportRooms(job.filters, job.accountKey);
+      const messagesTotal = await countExportMessages(
+        rooms.map((room) => room.id),
+        job.filters
+      );
+      await this.saveProgress(job, { roomsTotal: rooms.length, messagesTotal });
+      console.log(`Exporting ${messagesTotal} messages from ${rooms.length} rooms as ${job.id}`);
+
+      await write(formatter.begin(job, rooms));
+
+      let messagesExported = 0;
+      for (const [index, room] of rooms.entries()) {
+        await this.saveProgress(job, { currentRoomId: room.id });
+        await write(formatter.room(room, await loadExportParticipants(room.id)));
+
+        let after: { timestamp: number; eventId: string } | null = null;
+        for (;;) {
+          const page = await loadExportMessages(room.id, job.filters, after, this.pageSize);
+          for (const message of page) {
+            await write(await formatter.message(message));
+          }
+
+          messagesExported += page.length;
+          if (page.length < this.pageSize) break;
+
+          const last = page[page.length - 1]!;
+          after = { timestamp: last.timestamp, eventId: last.eventId };
+          await this.saveProgress(job, { messagesExported });
+        }
+
+        await write(formatter.endRoom(room));
+        await this.saveProgress(job, { roomsDone: index + 1, messagesExported });
+      }
+
+      await write(formatter.end());
+      stream.end();
+      await once(stream, 'finish');
+
+      await rename(tempPath, filePath);
+      const { size } = await stat(filePath);
+      if (!(await completeExportJob(job.id, { filePath, fileSize: size }))) {
+        // cancelled while the file was being finished
+        await rm(filePath, { force: true });
+        return;
+      }
+      console.log(`Export ${job.id} finished: ${messagesExported} messages, ${size} bytes`);
+    } catch (error: any) {
+      stream.destroy();
+      await rm(tempPath, { force: true });
+
+      if (error instanceof ExportCancelledError || error instanceof ExportInterruptedError) {
+        console.log(error.message);
+      } else {
+        console.error(`Export ${job.id} failed:`, error);
+        await failExportJob(job.id, error.message);
+      }
+    }
+  }
+
+  private async saveProgress(job: ExportJob, progress: ExportProgress): Promise<void> {
+    // left running, so it starts over after the restart
+    if (this.stopping) throw new ExportInterruptedError(job.id);
+
+    if (!(await updateExportProgress(job.id, progress))) {
+      throw new ExportCancelledError(job.id);
+    }
+  }
+}
+
+export const exportWorker = new ExportWorker();
+
+onShutdown(() => exportWorker.stop());
@@ -0,0 +1,63 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { pgPool } from '../db/client';
+import { chatImporter } from './importer';
+import { parseImport } from './parse';
+
+const USAGE =
+  'Usage: npm run import -- <file...> [--room <roomId>] [--account <accountKey>]\n' +
+  'Files are Element "Export chat" JSON, JSON arrays of events or one event per line.\n' +
+  'The API shows the imported rooms to the --account only.';
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      room: { type: 'string' },
+      account: { type: 'string' },
+    },
+  });
+
+  if (positionals.length === 0) {
+    throw new Error(USAGE);
+  }
+
+  let failed = false;
+  for (const file of positionals) {
+    const parsed = parseImport(await readFile(file, 'utf8'), { roomId: values.room });
+    const record = await chatImporter.begin(parsed, {
+      accountKey: values.account ?? null,
+      fileName: path.basename(file),
+    });
+    console.log(
+      `Importing ${record.eventsTotal} events from ${file} into ${record.roomIds.length} room(s)`
+    );
+
+    const result = await chatImporter.run(record, parsed);
+    console.table([
+      {
+        file: path.basename(file),
+        status: result.status,
+        imported: result.eventsImported,
+        duplicate: result.eventsDuplicate,
+        failed: result.eventsFailed,
+      },
+    ]);
+
+    for (const { eventId, error } of result.errors) {
+      console.error(`  ${eventId}: ${error}`);
+    }
+    if (result.error) console.error(result.error);
+    failed ||= result.status === 'failed';
+  }
+
+  if (failed) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pgPool.end());
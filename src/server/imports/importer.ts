@@ -0,0 +1,222 @@
+import { IEvent, MatrixEvent } from 'matrix-js-sdk';
+import { EventRouter, eventRouter } from '../../app/matrix/events';
+import { ImportProgress, ImportRecord } from '@/server/types';
+import { claimAccountRoom } from '@/server/db/accounts';
+import { linkUnassignedParticipants } from '@/server/db/contacts';
+import {
+  createImport,
+  finishImport,
+  loadForeignEventIds,
+  loadKnownEventIds,
+  persistImportedParticipants,
+  persistImportedRoom,
+  tagImportedMessages,
+  updateImportProgress,
+} from '@/server/db/imports';
+import { ImportedRoom, ParsedImport } from './parse';
+
+export interface ImportOptions {
+  accountKey?: string | null;
+  fileName?: string | null;
+  chunkSize?: number;
+}
+
+// kept on the import record; the rest are only counted
+const MAX_RECORDED_ERRORS = 100;
+
+// the event an edit or redaction changes, which has to be in a room the importing account archives
+function targetOf(event: IEvent): string | null {
+  if (event.type === 'm.room.redaction') return event.redacts ?? event.content.redacts ?? null;
+  const relation = event.content['m.relates_to'];
+  return relation?.rel_type === 'm.replace' ? (relation.event_id ?? null) : null;
+}
+
+function recordFailure(progress: ImportProgress, failure: { eventId: string; error: string }) {
+  progress.eventsFailed++;
+  if (progress.errors.length < MAX_RECORDED_ERRORS) progress.errors.push(failure);
+}
+
+// members from the export's membership events, plus anyone who only appears as a sender
+function participantsOf(room: ImportedRoom) {
+  const participants = new Map<
+    string,
+    {
+      userId: string;
+      displayName: string | null;
+      avatarUrl: string | null;
+      membership: string;
+      joinedTs: number | null;
+    }
+  >();
+
+  for (const event of room.events) {
+    if (event.type !== 'm.room.member' || !event.state_key) continue;
+
+    const previous = participants.get(event.state_key);
+    participants.set(event.state_key, {
+      userId: event.state_key,
+      displayName: event.content.displayname ?? null,
+      avatarUrl: event.content.avatar_url ?? null,
+      membership: event.content.membership ?? 'join',
+      joinedTs:
+        event.content.membership === 'join' && previous?.membership !== 'join'
+          ? event.origin_server_ts
+          : (previous?.joinedTs ?? null),
+    });
+  }
+
+  for (const event of room.events) {
+    if (!participants.has(event.sender)) {
+      participants.set(event.sender, {
+        userId: event.sender,
+        displayName: null,
+        avatarUrl: null,
+        membership: 'join',
+        joinedTs: null,
+      });
+    }
+  }
+
+  return [...participants.values()];
+}
+
+/**
+ * Writes events from offline exports through the same handlers as live
+ * sync, so edits, redactions, reactions, threads and media references are
+ * stored the same way. Events that are already archived are skipped, and
+ * the messages an import adds are tagged with its ID. An account imports
+ * only into rooms it archives or that nobody archives yet.
+ */
+export class ChatImporter {
+  private router: EventRouter;
+  private chunkSize: number;
+
+  constructor(router: EventRouter = eventRouter, chunkSize = 100) {
+    this.router = router;
+    this.chunkSize = chunkSize;
+  }
+
+  public begin(parsed: ParsedImport, opts: ImportOptions = {}): Promise<ImportRecord> {
+    return createImport({
+      accountKey: opts.accountKey ?? null,
+      source: parsed.source,
+      fileName: opts.fileName ?? null,
+      roomIds: parsed.rooms.map((room) => room.roomId),
+      eventsTotal: parsed.rooms.reduce((total, room) => total + room.events.length, 0),
+    });
+  }
+
+  public async run(record: ImportRecord, parsed: ParsedImport): Promise<ImportRecord> {
+    const progress: ImportProgress = {
+      eventsImported: 0,
+      eventsDuplicate: 0,
+      eventsFailed: 0,
+      errors: [],
+    };
+
+    try {
+      for (const room of parsed.rooms) {
+        if (record.accountKey && !(await claimAccountRoom(record.accountKey, room.roomId))) {
+          for (const event of room.events) {
+            recordFailure(progress, {
+              eventId: event.event_id,
+              error: `Room ${room.roomId} is archived by another account`,
+            });
+          }
+          await updateImportProgress(record.id, progress);
+          continue;
+        }
+
+        await persistImportedRoom(
+          {
+            id: room.roomId,
+            name: room.name,
+            topic: room.topic,
+            isEncrypted: room.isEncrypted,
+            createdTs: room.createdTs,
+          },
+          record.id
+        );
+        await persistImportedParticipants(room.roomId, participantsOf(room));
+
+        for (let start = 0; start < room.events.length; start += this.chunkSize) {
+          await this.importChunk(
+            record,
+            room.roomId,
+            room.events.slice(start, start + this.chunkSize),
+            progress
+          );
+          await updateImportProgress(record.id, progress);
+        }
+      }
+
+      await linkUnassignedParticipants();
+      console.log(
+        `Import ${record.id} finished: ${progress.eventsImported} imported, ` +
+          `${progress.eventsDuplicate} duplicate, ${progress.eventsFailed} failed`
+      );
+      return await finishImport(record.id, 'completed');
+    } catch (error: any) {
+      console.error(`Import ${record.id} failed:`, error);
+      await updateImportProgress(record.id, progress);
+      return finishImport(record.id, 'failed', error.message);
+    }
+  }
+
+  // dispatched concurrently like a backfill page, so the write buffer can batch them
+  private async importChunk(
+    record: ImportRecord,
+    roomId: string,
+    events: IEvent[],
+    progress: ImportProgress
+  ): Promise<void> {
+    const known = await loadKnownEventIds(events.map((event) => event.event_id));
+    const fresh = events.filter((event) => !known.has(event.event_id));
+    progress.eventsDuplicate += events.length - fresh.length;
+
+    const targets = fresh.map(targetOf).filter((target): target is string => target !== null);
+    const foreign =
+      record.accountKey && targets.length > 0
+        ? await loadForeignEventIds(record.accountKey, targets)
+        : new Set<string>();
+
+    const results = await Promise.all(
+      fresh.map(async (event) => {
+        const target = targetOf(event);
+        if (target && foreign.has(target)) {
+          return {
+            eventId: event.event_id,
+            error: `${target} is in a room this account does not archive`,
+          };
+        }
+
+        try {
+          const handled = await this.router.dispatch(new MatrixEvent(event), {
+            roomId,
+            source: 'import',
+          });
+          if (!handled) throw new Error(`No handler is registered for ${event.type}`);
+          return null;
+        } catch (error: any) {
+          return { eventId: event.event_id, error: error.message ?? String(error) };
+        }
+      })
+    );
+
+    const imported = fresh.filter((_, index) => results[index] === null);
+    progress.eventsImported += imported.length;
+
+    for (const failure of results) {
+      if (failure) recordFailure(progress, failure);
+    }
+
+    if (imported.length > 0) {
+      await tagImportedMessages(
+        record.id,
+        imported.map((event) => event.event_id)
+      );
+    }
+  }
+}
+
+export const chatImporter = new ChatImporter();
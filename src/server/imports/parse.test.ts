@@ -0,0 +1,123 @@
+import { ImportFormatError, parseImport, parseImportValue } from './parse';
+
+const ROOM = '!room:example.org';
+
+const event = (id: string, ts: number, overrides: Record<string, unknown> = {}) => ({
+  event_id: id,
+  type: 'm.room.message',
+  sender: '@alice:example.org',
+  origin_server_ts: ts,
+  content: { msgtype: 'm.text', body: id },
+  ...overrides,
+});
+
+describe('parseImport', () => {
+  it('reads an Element chat export with its room details', () => {
+    const parsed = parseImport(
+      JSON.stringify({
+        room_name: 'Team',
+        topic: '',
+        messages: [
+          event('$2', 2, { room_id: ROOM }),
+          event('$1', 1, {
+            room_id: ROOM,
+            type: 'm.room.topic',
+            state_key: '',
+            content: { topic: 'Plans' },
+          }),
+        ],
+      })
+    );
+
+    expect(parsed.source).toBe('element');
+    expect(parsed.rooms).toHaveLength(1);
+    expect(parsed.rooms[0]).toMatchObject({ roomId: ROOM, name: 'Team', topic: 'Plans' });
+    expect(parsed.rooms[0]!.events.map((e) => e.event_id)).toEqual(['$1', '$2']);
+  });
+
+  it('asks for the room of an Element export that does not name one', () => {
+    const data = JSON.stringify({ messages: [event('$1', 1)] });
+
+    expect(() => parseImport(data)).toThrow(ImportFormatError);
+    expect(parseImport(data, { roomId: ROOM }).rooms[0]!.events[0]!.room_id).toBe(ROOM);
+  });
+
+  it('groups newline-delimited events by room', () => {
+    const lines = [
+      event('$a1', 1, { room_id: '!a:example.org' }),
+      event('$b1', 1, { room_id: '!b:example.org' }),
+      event('$a2', 2, {
+        room_id: '!a:example.org',
+        type: 'm.room.encrypted',
+        content: { algorithm: 'm.megolm.v1.aes-sha2' },
+      }),
+    ]
+      .map((line) => JSON.stringify(line))
+      .join('\n\n');
+
+    const parsed = parseImport(lines);
+
+    expect(parsed.source).toBe('event_dump');
+    expect(parsed.rooms.map((room) => [room.roomId, room.events.length, room.isEncrypted])).toEqual(
+      [
+        ['!a:example.org', 2, true],
+        ['!b:example.org', 1, false],
+      ]
+    );
+  });
+
+  it('unwraps decrypted events from a dump', () => {
+    const decrypted = event('$1', 1, { room_id: ROOM });
+    const parsed = parseImport(
+      JSON.stringify([{ decrypted, encrypted: { type: 'm.room.encrypted' } }])
+    );
+
+    expect(parsed.rooms[0]!.events).toEqual([decrypted]);
+  });
+
+  it('takes the name and creation time from the room state', () => {
+    const parsed = parseImportValue({
+      events: [
+        event('$create', 1, { room_id: ROOM, type: 'm.room.create', state_key: '', content: {} }),
+        event('$name1', 2, {
+          room_id: ROOM,
+          type: 'm.room.name',
+          state_key: '',
+          content: { name: 'Old' },
+        }),
+        event('$name2', 3, {
+          room_id: ROOM,
+          type: 'm.room.name',
+          state_key: '',
+          content: { name: 'New' },
+        }),
+      ],
+    });
+
+    expect(parsed.rooms[0]).toMatchObject({ name: 'New', topic: null, createdTs: 1 });
+  });
+
+  it('fills in missing content', () => {
+    const parsed = parseImportValue({
+      event_id: '$1',
+      room_id: ROOM,
+      type: 'm.room.message',
+      sender: '@alice:example.org',
+      origin_server_ts: 1,
+    });
+
+    expect(parsed.rooms[0]!.events[0]!.content).toEqual({});
+  });
+
+  it('reports where the input is not usable', () => {
+    expect(() => parseImport('   ')).toThrow('The file is empty');
+    expect(() => parseImport(`${JSON.stringify(event('$1', 1))}\n{oops`)).toThrow(
+      'Line 2 is not valid JSON'
+    );
+    expect(() => parseImportValue([event('$1', 1, { room_id: ROOM }), { event_id: '$2' }])).toThrow(
+      'Entry 2 is not a Matrix event'
+    );
+    expect(() => parseImportValue([event('$1', 1)])).toThrow('Entry 1 has no room_id');
+    expect(() => parseImportValue({ rooms: [] })).toThrow(ImportFormatError);
+  });
+});
@@ -0,0 +1,169 @@
+import { IEvent } from 'matrix-js-sdk';
+import { ImportSource } from '@/server/types';
+
+export interface ImportedRoom {
+  roomId: string;
+  name: string | null;
+  topic: string | null;
+  isEncrypted: boolean;
+  createdTs: number | null;
+  // in timeline order
+  events: IEvent[];
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  rooms: ImportedRoom[];
+}
+
+export interface ParseOptions {
+  // for exports whose events do not carry a room_id
+  roomId?: string;
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+// decrypted dumps written with MatrixEvent.toJSON() wrap encrypted events as { decrypted, encrypted }
+function unwrapEvent(entry: any, position: string, roomId?: string): IEvent {
+  const event = entry?.decrypted ?? entry;
+
+  if (
+    typeof event?.event_id !== 'string' ||
+    typeof event.type !== 'string' ||
+    typeof event.sender !== 'string' ||
+    typeof event.origin_server_ts !== 'number'
+  ) {
+    throw new ImportFormatError(
+      `${position} is not a Matrix event (event_id, type, sender and origin_server_ts are required)`
+    );
+  }
+
+  const eventRoomId = event.room_id ?? roomId;
+  if (typeof eventRoomId !== 'string') {
+    throw new ImportFormatError(`${position} has no room_id, pass the room ID explicitly`);
+  }
+
+  return { content: {}, ...event, room_id: eventRoomId };
+}
+
+function latestState(events: IEvent[], type: string): IEvent | undefined {
+  return events.filter((event) => event.type === type && event.state_key === '').at(-1);
+}
+
+function toRoom(
+  roomId: string,
+  events: IEvent[],
+  details: Partial<ImportedRoom> = {}
+): ImportedRoom {
+  const ordered = [...events].sort((a, b) => a.origin_server_ts - b.origin_server_ts);
+  const create = latestState(ordered, 'm.room.create');
+
+  return {
+    roomId,
+    name: details.name ?? latestState(ordered, 'm.room.name')?.content.name ?? null,
+    topic: details.topic ?? latestState(ordered, 'm.room.topic')?.content.topic ?? null,
+    isEncrypted: ordered.some(
+      (event) => event.type === 'm.room.encryption' || event.type === 'm.room.encrypted'
+    ),
+    createdTs: create?.origin_server_ts ?? null,
+    events: ordered,
+  };
+}
+
+// Element's "Export chat" JSON: one room, its details at the top and the events under `messages`
+function parseElementExport(data: any, opts: ParseOptions): ParsedImport {
+  const roomId: string | undefined =
+    opts.roomId ?? data.messages.find((event: any) => typeof event?.room_id === 'string')?.room_id;
+  if (!roomId) {
+    throw new ImportFormatError('The export does not name its room, pass the room ID explicitly');
+  }
+
+  const events = data.messages.map((entry: any, index: number) =>
+    unwrapEvent(entry, `Message ${index + 1}`, roomId)
+  );
+
+  return {
+    source: 'element',
+    rooms: [
+      toRoom(roomId, events, {
+        name: typeof data.room_name === 'string' ? data.room_name : undefined,
+        topic: typeof data.topic === 'string' && data.topic ? data.topic : undefined,
+      }),
+    ],
+  };
+}
+
+// a JSON array or newline-delimited events from any number of rooms
+function parseEventDump(entries: { entry: any; position: string }[], opts: ParseOptions) {
+  const byRoom = new Map<string, IEvent[]>();
+
+  for (const { entry, position } of entries) {
+    const event = unwrapEvent(entry, position, opts.roomId);
+    const events = byRoom.get(event.room_id!) ?? [];
+    events.push(event);
+    byRoom.set(event.room_id!, events);
+  }
+
+  return {
+    source: 'event_dump' as const,
+    rooms: [...byRoom.entries()].map(([roomId, events]) => toRoom(roomId, events)),
+  };
+}
+
+// an already parsed upload, e.g. a small JSON body
+export function parseImportValue(data: unknown, opts: ParseOptions = {}): ParsedImport {
+  if (Array.isArray(data)) {
+    return parseEventDump(
+      data.map((entry, index) => ({ entry, position: `Entry ${index + 1}` })),
+      opts
+    );
+  }
+  if (data && typeof data === 'object') {
+    if ('messages' in data && Array.isArray(data.messages)) {
+      return parseElementExport(data, opts);
+    }
+    if ('events' in data && Array.isArray(data.events)) {
+      return parseImportValue(data.events, opts);
+    }
+    // a dump holding a single event
+    if ('event_id' in data || 'decrypted' in data) {
+      return parseImportValue([data], opts);
+    }
+  }
+  throw new ImportFormatError(
+    'Expected an Element chat export, a JSON array of events or one event per line'
+  );
+}
+
+export function parseImport(text: string, opts: ParseOptions = {}): ParsedImport {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new ImportFormatError('The file is empty');
+  }
+
+  try {
+    return parseImportValue(JSON.parse(trimmed), opts);
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+  }
+
+  // not a single JSON document, so newline-delimited events
+  const entries = trimmed
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), position: `Line ${index + 1}` }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, position }) => {
+      try {
+        return { entry: JSON.parse(line), position };
+      } catch {
+        throw new ImportFormatError(`${position} is not valid JSON`);
+      }
+    });
+
+  return parseEventDump(entries, opts);
+}
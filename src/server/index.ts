@@ -2,7 +2,14 @@ import express from 'express';
 import cors from 'cors';
 import { config } from 'dotenv';
 import routes from './api/routes';
+import { changeStream } from './changes/stream';
+import { configStore } from './config/store';
 import { initializeDatabase } from './db/client';
+import { failInterruptedImports } from './db/imports';
+import { exportWorker } from './exports/worker';
+import { attachSyncSocket } from './realtime/sync-socket';
+import { webhookDispatcher } from './webhooks/dispatcher';
+import { sessionRegistry } from '../app/matrix/sessions';
 
 config();
 
@@ -57,10 +64,30 @@ app.use('/api', routes);
 async function start() {
     try {
         await initializeDatabase();
-        app.listen(3001, () => {
+        // sessions and workers read their settings from it as they start
+        await configStore.start();
+        await failInterruptedImports();
+        const server = app.listen(3001, () => {
         console.log(`Server running on port 3001`);
         console.log('Allowed origins:', allowedOrigins);
         });
+        attachSyncSocket(server);
+
+        sessionRegistry.restore().catch((error) => {
+            console.error('Failed to restore sessions:', error);
+        });
+
+        exportWorker.start().catch((error) => {
+            console.error('Failed to start export worker:', error);
+        });
+
+        webhookDispatcher.start().catch((error) => {
+            console.error('Failed to start webhook dispatcher:', error);
+        });
+
+        changeStream.start().catch((error) => {
+            console.error('Failed to start change stream:', error);
+        });
     } catch (error) {
         console.error('Failed to start server:', error);
         process.exit(1);
@@ -87,6 +87,27 @@ export const authenticateRequest = async (
   }
 };
 
+// EventSource cannot set headers either, so streams also take the access token as `?token=`
+export const acceptQueryToken = (req: Request, _res: Response, next: NextFunction): void => {
+  const token = req.query.token;
+  if (!req.headers.authorization && typeof token === 'string') {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+  next();
+};
+
+// the sync socket cannot send an Authorization header, so it verifies the token from its URL
+export const verifyAccessToken = (token: string): AuthenticatedUser => {
+  const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
+
+  if (decoded.type !== 'access') {
+    throw new jwt.JsonWebTokenError('Invalid token type');
+  }
+
+  const { iat, exp, type, ...userData } = decoded;
+  return userData as AuthenticatedUser;
+};
+
 export const generateTokens = async (
   user: Omit<UserPayload, 'password'>
 ): Promise<{ accessToken: string; refreshToken: string }> => {
@@ -0,0 +1,106 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { accountKey } from '../../app/matrix/accounts';
+import { syncProgress } from '../../app/matrix/progress';
+import { onShutdown } from '../db/client';
+import { verifyAccessToken } from '../middlware/auth';
+import { SyncProgress } from '../types';
+
+export const SYNC_SOCKET_PATH = '/api/sync';
+
+// sockets that miss a ping for this long are dropped, proxies close idle connections anyway
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+interface SyncSocket extends WebSocket {
+  alive?: boolean;
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.end(
+    `HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Type: text/plain\r\n` +
+      `Content-Length: ${Buffer.byteLength(reason)}\r\n\r\n${reason}`
+  );
+}
+
+// the token comes from the query string because browsers cannot set headers on a WebSocket
+function tokenFrom(req: IncomingMessage, url: URL): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length);
+  return url.searchParams.get('token');
+}
+
+/**
+ * Streams each account's sync progress to the SyncStatus component: the
+ * current state as soon as the socket opens, then every change the account's
+ * tracker publishes. Sockets are authenticated with the same access tokens as
+ * the REST API and only ever see the account in their token.
+ */
+export function attachSyncSocket(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== SYNC_SOCKET_PATH) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+
+    const token = tokenFrom(req, url);
+    if (!token) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    let key: string;
+    try {
+      key = accountKey(verifyAccessToken(token));
+    } catch {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => subscribe(ws, key));
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients as Set<SyncSocket>) {
+      if (ws.alive === false) {
+        ws.terminate();
+        continue;
+      }
+      ws.alive = false;
+      ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  onShutdown(async () => {
+    for (const ws of wss.clients) {
+      ws.close(1001, 'Server shutting down');
+    }
+    await new Promise<void>((resolve) => wss.close(() => resolve()));
+  });
+
+  return wss;
+}
+
+function subscribe(ws: SyncSocket, key: string): void {
+  const tracker = syncProgress.get(key);
+
+  const send = (progress: SyncProgress) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(progress));
+  };
+
+  ws.alive = true;
+  ws.on('pong', () => {
+    ws.alive = true;
+  });
+
+  tracker.on('change', send);
+  ws.on('close', () => tracker.off('change', send));
+  ws.on('error', (error) => console.error(`Sync socket error for ${key}:`, error));
+
+  send(tracker.snapshot());
+}
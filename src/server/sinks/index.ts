@@ -0,0 +1,35 @@
+import { onShutdown } from '@/server/db/client';
+import { PostgresSink } from './postgres';
+import { MultiSink, Sink } from './sink';
+import { SqliteSink } from './sqlite';
+
+export * from './sink';
+export { PostgresSink } from './postgres';
+export { SqliteSink } from './sqlite';
+
+const SINK_FACTORIES: Record<string, () => Sink> = {
+  postgres: () => new PostgresSink(),
+  sqlite: () => new SqliteSink(),
+};
+
+// SINKS is a comma-separated list, e.g. "postgres,sqlite"; postgres alone by default
+export function createSinks(names = process.env.SINKS || 'postgres'): Sink {
+  const sinks = [...new Set(names.split(',').map((name) => name.trim()))]
+    .filter((name) => name.length > 0)
+    .map((name) => {
+      const factory = SINK_FACTORIES[name];
+      if (!factory) {
+        throw new Error(
+          `Unknown sink "${name}", expected one of ${Object.keys(SINK_FACTORIES).join(', ')}`
+        );
+      }
+      return factory();
+    });
+
+  return sinks.length === 1 ? sinks[0]! : new MultiSink(sinks);
+}
+
+// where the sync loop, backfill, imports and dead letter replays write archived data
+export const sink = createSinks();
+
+onShutdown(() => sink.close());
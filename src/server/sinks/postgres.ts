@@ -0,0 +1,41 @@
+import { MatrixEvent, Room, RoomMember } from 'matrix-js-sdk';
+import { persistMessage, persistMessageEdit } from '@/server/db/messages';
+import { persistRedaction } from '@/server/db/redactions';
+import { persistParticipant, persistParticipants, persistRoom } from '@/server/db/rooms';
+import { updateSyncToken } from '@/server/db/sync-store';
+import { Sink } from './sink';
+
+// the primary archive; the pool is shared with the rest of the server and closed on shutdown
+export class PostgresSink implements Sink {
+  public readonly name = 'postgres';
+
+  public persistMessage(roomId: string | undefined, event: MatrixEvent): Promise<void> {
+    return persistMessage(roomId, event);
+  }
+
+  public persistMessageEdit(roomId: string, event: MatrixEvent): Promise<void> {
+    return persistMessageEdit(roomId, event);
+  }
+
+  public persistRedaction(roomId: string, event: MatrixEvent): Promise<void> {
+    return persistRedaction(roomId, event);
+  }
+
+  public persistRoom(room: Room, membership: string): Promise<void> {
+    return persistRoom(room, membership);
+  }
+
+  public persistParticipant(member: RoomMember): Promise<void> {
+    return persistParticipant(member);
+  }
+
+  public persistParticipants(room: Room): Promise<void> {
+    return persistParticipants(room);
+  }
+
+  public updateSyncToken(accountKey: string, syncToken: string): Promise<void> {
+    return updateSyncToken(accountKey, syncToken);
+  }
+
+  public async close(): Promise<void> {}
+}
@@ -0,0 +1,92 @@
+import { MatrixEvent, Room, RoomMember } from 'matrix-js-sdk';
+
+/**
+ * A destination for archived Matrix data. Every write must be idempotent:
+ * events are re-delivered by backfill, imports and dead letter replays, and
+ * a write that failed in one sink is retried in all of them. Credentials
+ * are not archived data and stay in Postgres, which every setup runs.
+ */
+export interface Sink {
+  readonly name: string;
+  persistMessage(roomId: string | undefined, event: MatrixEvent): Promise<void>;
+  // stores a version of the message it replaces; the message shows the latest one
+  persistMessageEdit(roomId: string, event: MatrixEvent): Promise<void>;
+  // scrubs the target now, or once it is written if it has not been yet
+  persistRedaction(roomId: string, event: MatrixEvent): Promise<void>;
+  persistRoom(room: Room, membership: string): Promise<void>;
+  persistParticipant(member: RoomMember): Promise<void>;
+  persistParticipants(room: Room): Promise<void>;
+  updateSyncToken(accountKey: string, syncToken: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export class SinkError extends Error {
+  public readonly failures: { sink: string; error: any }[];
+
+  constructor(operation: string, failures: { sink: string; error: any }[]) {
+    super(
+      `${operation} failed in ${failures
+        .map(({ sink, error }) => `${sink} (${error?.message ?? error})`)
+        .join(', ')}`
+    );
+    this.name = 'SinkError';
+    this.failures = failures;
+  }
+}
+
+// writes to every sink at once; one that fails does not stop the others
+export class MultiSink implements Sink {
+  public readonly name: string;
+  private sinks: Sink[];
+
+  constructor(sinks: Sink[]) {
+    if (sinks.length === 0) {
+      throw new Error('At least one sink is required');
+    }
+    this.sinks = sinks;
+    this.name = sinks.map((sink) => sink.name).join('+');
+  }
+
+  public persistMessage(roomId: string | undefined, event: MatrixEvent): Promise<void> {
+    return this.all('persistMessage', (sink) => sink.persistMessage(roomId, event));
+  }
+
+  public persistMessageEdit(roomId: string, event: MatrixEvent): Promise<void> {
+    return this.all('persistMessageEdit', (sink) => sink.persistMessageEdit(roomId, event));
+  }
+
+  public persistRedaction(roomId: string, event: MatrixEvent): Promise<void> {
+    return this.all('persistRedaction', (sink) => sink.persistRedaction(roomId, event));
+  }
+
+  public persistRoom(room: Room, membership: string): Promise<void> {
+    return this.all('persistRoom', (sink) => sink.persistRoom(room, membership));
+  }
+
+  public persistParticipant(member: RoomMember): Promise<void> {
+    return this.all('persistParticipant', (sink) => sink.persistParticipant(member));
+  }
+
+  public persistParticipants(room: Room): Promise<void> {
+    return this.all('persistParticipants', (sink) => sink.persistParticipants(room));
+  }
+
+  public updateSyncToken(accountKey: string, syncToken: string): Promise<void> {
+    return this.all('updateSyncToken', (sink) => sink.updateSyncToken(accountKey, syncToken));
+  }
+
+  public close(): Promise<void> {
+    return this.all('close', (sink) => sink.close());
+  }
+
+  private async all(operation: string, write: (sink: Sink) => Promise<void>): Promise<void> {
+    const results = await Promise.allSettled(this.sinks.map(write));
+
+    const failures = results.flatMap((result, index) =>
+      result.status === 'rejected' ? [{ sink: this.sinks[index]!.name, error: result.reason }] : []
+    );
+    if (failures.length > 0) {
+      throw new SinkError(operation, failures);
+    }
+  }
+}
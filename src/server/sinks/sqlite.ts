@@ -0,0 +1,453 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { DatabaseSync, StatementSync } from 'node:sqlite';
+import { MatrixEvent, RelationType, Room, RoomMember } from 'matrix-js-sdk';
+import { threadRootOf } from '@/server/db/messages';
+import { describeRoom } from '@/server/db/rooms';
+import { pruneRedactedContent } from '@/server/utils/redaction.utils';
+import { Sink } from './sink';
+
+export const SQLITE_SINK_PATH = process.env.SQLITE_SINK_PATH || './archive.sqlite';
+
+// bumped with every change below; PRAGMA user_version records what a file was created with
+const SCHEMA_VERSION = 1;
+
+// run on files created by an older schema, keyed by the version they bring it to
+const UPGRADES: Record<number, string> = {};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sync_state (
+    account_key TEXT PRIMARY KEY,
+    next_batch TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS rooms (
+    id TEXT PRIMARY KEY,
+    name TEXT,
+    topic TEXT,
+    membership TEXT,
+    is_encrypted INTEGER NOT NULL DEFAULT 0,
+    created_ts INTEGER,
+    avatar_url TEXT,
+    network TEXT,
+    bridge_bot TEXT,
+    remote_room_id TEXT,
+    last_updated TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS participants (
+    user_id TEXT NOT NULL,
+    room_id TEXT NOT NULL,
+    display_name TEXT,
+    avatar_url TEXT,
+    membership TEXT NOT NULL,
+    joined_ts INTEGER,
+    last_updated TEXT NOT NULL,
+    PRIMARY KEY (user_id, room_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS messages (
+    event_id TEXT PRIMARY KEY,
+    room_id TEXT,
+    sender TEXT NOT NULL,
+    content TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    is_encrypted INTEGER NOT NULL DEFAULT 0,
+    relates_to TEXT,
+    thread_root_id TEXT,
+    error TEXT,
+    redaction_event_id TEXT,
+    redacted_by TEXT,
+    redacted_ts INTEGER,
+    redaction_reason TEXT,
+    current_content TEXT,
+    last_edit_event_id TEXT,
+    edited_ts INTEGER,
+    processed_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_messages_room_timestamp ON messages(room_id, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_messages_thread_root ON messages(thread_root_id)
+    WHERE thread_root_id IS NOT NULL;
+
+  CREATE TABLE IF NOT EXISTS message_versions (
+    edit_event_id TEXT PRIMARY KEY,
+    original_event_id TEXT NOT NULL,
+    room_id TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    content TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    redacted INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_message_versions_original
+    ON message_versions(original_event_id);
+
+  CREATE TABLE IF NOT EXISTS redactions (
+    event_id TEXT PRIMARY KEY,
+    room_id TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    redacts TEXT NOT NULL,
+    reason TEXT,
+    timestamp INTEGER NOT NULL,
+    applied_at TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_redactions_redacts ON redactions(redacts)
+    WHERE applied_at IS NULL;
+`;
+
+interface RedactionRow {
+  event_id: string;
+  room_id: string;
+  sender: string;
+  redacts: string;
+  reason: string | null;
+  timestamp: number;
+}
+
+/**
+ * Archives into a single SQLite file, for running a personal archive without
+ * a database server. Mirrors the Postgres tables it writes to, with JSON
+ * stored as text; the statements are synchronous and run on the event loop,
+ * which is fine for one account's traffic.
+ *
+ * Edits and redactions are applied like in Postgres. A redaction or edit that
+ * arrives before its target is kept and applied once the target is written.
+ */
+export class SqliteSink implements Sink {
+  public readonly name = 'sqlite';
+  private db: DatabaseSync;
+  private closed = false;
+  private statements: {
+    message: StatementSync;
+    room: StatementSync;
+    participant: StatementSync;
+    syncToken: StatementSync;
+    version: StatementSync;
+    currentContent: StatementSync;
+    redaction: StatementSync;
+    pendingRedactions: StatementSync;
+    redactionApplied: StatementSync;
+    redactMessage: StatementSync;
+    redactHistory: StatementSync;
+    redactVersion: StatementSync;
+    target: StatementSync;
+  };
+
+  constructor(location = SQLITE_SINK_PATH) {
+    mkdirSync(path.dirname(location), { recursive: true });
+    this.db = new DatabaseSync(location);
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.migrate();
+
+    this.statements = {
+      // a redacted row keeps its scrubbed content even if an older copy of the event is re-ingested
+      message: this.db.prepare(`
+        INSERT INTO messages (
+          event_id, room_id, sender, content, event_type, timestamp, is_encrypted,
+          relates_to, thread_root_id, error, redaction_event_id, processed_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (event_id) DO UPDATE SET
+          room_id = COALESCE(excluded.room_id, messages.room_id),
+          content = CASE WHEN messages.redaction_event_id IS NULL
+            THEN excluded.content ELSE messages.content END,
+          is_encrypted = excluded.is_encrypted,
+          relates_to = CASE WHEN messages.redaction_event_id IS NULL
+            THEN excluded.relates_to ELSE messages.relates_to END,
+          thread_root_id = COALESCE(excluded.thread_root_id, messages.thread_root_id),
+          error = excluded.error,
+          redaction_event_id = COALESCE(messages.redaction_event_id, excluded.redaction_event_id),
+          processed_at = excluded.processed_at
+      `),
+      room: this.db.prepare(`
+        INSERT INTO rooms (
+          id, name, topic, membership, is_encrypted, created_ts, avatar_url,
+          network, bridge_bot, remote_room_id, last_updated
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+          name = excluded.name,
+          topic = excluded.topic,
+          membership = excluded.membership,
+          is_encrypted = excluded.is_encrypted,
+          created_ts = COALESCE(excluded.created_ts, rooms.created_ts),
+          avatar_url = excluded.avatar_url,
+          network = excluded.network,
+          bridge_bot = excluded.bridge_bot,
+          remote_room_id = excluded.remote_room_id,
+          last_updated = excluded.last_updated
+      `),
+      participant: this.db.prepare(`
+        INSERT INTO participants (
+          user_id, room_id, display_name, avatar_url, membership, joined_ts, last_updated
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (user_id, room_id) DO UPDATE SET
+          display_name = excluded.display_name,
+          avatar_url = excluded.avatar_url,
+          membership = excluded.membership,
+          joined_ts = COALESCE(excluded.joined_ts, participants.joined_ts),
+          last_updated = excluded.last_updated
+      `),
+      syncToken: this.db.prepare(`
+        INSERT INTO sync_state (account_key, next_batch, created_at) VALUES (?, ?, ?)
+        ON CONFLICT (account_key) DO UPDATE SET
+          next_batch = excluded.next_batch,
+          created_at = excluded.created_at
+      `),
+      version: this.db.prepare(`
+        INSERT INTO message_versions (
+          edit_event_id, original_event_id, room_id, sender, content, timestamp
+        ) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (edit_event_id) DO UPDATE SET
+          content = CASE WHEN message_versions.redacted
+            THEN message_versions.content ELSE excluded.content END
+      `),
+      // the latest unredacted edit by the original sender, or none
+      currentContent: this.db.prepare(`
+        UPDATE messages SET (current_content, last_edit_event_id, edited_ts) = (
+          SELECT v.content, v.edit_event_id, v.timestamp
+          FROM message_versions v
+          WHERE v.original_event_id = messages.event_id
+            AND v.room_id = messages.room_id
+            AND v.sender = messages.sender
+            AND NOT v.redacted
+          ORDER BY v.timestamp DESC, v.edit_event_id DESC
+          LIMIT 1
+        )
+        WHERE event_id = ? AND redaction_event_id IS NULL
+      `),
+      redaction: this.db.prepare(`
+        INSERT INTO redactions (event_id, room_id, sender, redacts, reason, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (event_id) DO NOTHING
+      `),
+      pendingRedactions: this.db.prepare(`
+        SELECT event_id, room_id, sender, redacts, reason, timestamp FROM redactions
+        WHERE redacts = ? AND applied_at IS NULL
+        ORDER BY timestamp
+      `),
+      redactionApplied: this.db.prepare('UPDATE redactions SET applied_at = ? WHERE event_id = ?'),
+      target: this.db.prepare(
+        'SELECT event_type, content FROM messages WHERE event_id = ? AND room_id = ?'
+      ),
+      redactMessage: this.db.prepare(`
+        UPDATE messages SET
+          content = ?, relates_to = NULL, redaction_event_id = ?,
+          redacted_by = ?, redacted_ts = ?, redaction_reason = ?,
+          current_content = NULL, last_edit_event_id = NULL, edited_ts = NULL
+        WHERE event_id = ?
+      `),
+      // redacting a message also scrubs every edit of it
+      redactHistory: this.db.prepare(`
+        UPDATE message_versions SET content = '{}', redacted = 1
+        WHERE original_event_id = ? AND room_id = ? AND NOT redacted
+      `),
+      redactVersion: this.db.prepare(`
+        UPDATE message_versions SET content = '{}', redacted = 1
+        WHERE edit_event_id = ? AND room_id = ?
+        RETURNING original_event_id
+      `),
+    };
+  }
+
+  public async persistMessage(roomId: string | undefined, event: MatrixEvent): Promise<void> {
+    const redactedBecause = event.isRedacted() ? event.getUnsigned().redacted_because : undefined;
+
+    this.transaction('message', () => {
+      this.statements.message.run(
+        event.getId()!,
+        roomId ?? null,
+        event.getSender()!,
+        JSON.stringify(event.getContent()),
+        event.getType(),
+        event.getTs(),
+        event.isEncrypted() ? 1 : 0,
+        JSON.stringify(event.getRelation()),
+        threadRootOf(event),
+        event.error?.message ?? null,
+        redactedBecause?.event_id ?? null,
+        new Date().toISOString()
+      );
+      // edits and redactions that arrived before the message
+      this.statements.currentContent.run(event.getId()!);
+      this.applyRedactions(event.getId()!);
+    });
+  }
+
+  public async persistMessageEdit(roomId: string, event: MatrixEvent): Promise<void> {
+    const relation = event.getRelation();
+    if (relation?.rel_type !== RelationType.Replace || !relation.event_id) {
+      throw new Error(`Event ${event.getId()} is not an edit`);
+    }
+
+    this.transaction('message edit', () => {
+      this.statements.version.run(
+        event.getId()!,
+        relation.event_id!,
+        roomId,
+        event.getSender()!,
+        JSON.stringify(event.getContent()['m.new_content'] ?? {}),
+        event.getTs()
+      );
+      this.applyRedactions(event.getId()!);
+      this.statements.currentContent.run(relation.event_id!);
+    });
+  }
+
+  public async persistRedaction(roomId: string, event: MatrixEvent): Promise<void> {
+    const redacts = event.event.redacts ?? event.getContent().redacts;
+    if (!redacts) {
+      throw new Error(`Redaction ${event.getId()} has no target`);
+    }
+
+    this.transaction('redaction', () => {
+      this.statements.redaction.run(
+        event.getId()!,
+        roomId,
+        event.getSender()!,
+        redacts,
+        event.getContent().reason ?? null,
+        event.getTs()
+      );
+      this.applyRedactions(redacts);
+    });
+  }
+
+  public async persistRoom(room: Room, membership: string): Promise<void> {
+    const { network, ...details } = describeRoom(room);
+
+    try {
+      this.statements.room.run(
+        details.id,
+        details.name,
+        details.topic,
+        membership,
+        details.is_encrypted ? 1 : 0,
+        details.created_ts ?? null,
+        details.avatar_url,
+        network.network,
+        network.bridgeBot,
+        network.remoteRoomId,
+        details.last_updated
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to archive room in SQLite: ${error.message}`);
+    }
+  }
+
+  public async persistParticipant(member: RoomMember): Promise<void> {
+    try {
+      this.writeParticipant(member);
+    } catch (error: any) {
+      throw new Error(`Failed to archive participant in SQLite: ${error.message}`);
+    }
+  }
+
+  public async persistParticipants(room: Room): Promise<void> {
+    this.db.exec('BEGIN');
+    try {
+      for (const member of room.getJoinedMembers()) {
+        this.writeParticipant(member);
+      }
+      this.db.exec('COMMIT');
+    } catch (error: any) {
+      this.db.exec('ROLLBACK');
+      throw new Error(`Failed to archive participants in SQLite: ${error.message}`);
+    }
+  }
+
+  public async updateSyncToken(accountKey: string, syncToken: string): Promise<void> {
+    this.statements.syncToken.run(accountKey, syncToken, new Date().toISOString());
+  }
+
+  public async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.db.close();
+  }
+
+  // applies the pending redactions of an event that is stored by now; ones whose target is not stay pending
+  private applyRedactions(targetEventId: string): void {
+    const pending = this.statements.pendingRedactions.all(
+      targetEventId
+    ) as unknown as RedactionRow[];
+
+    for (const redaction of pending) {
+      let applied = false;
+
+      const target = this.statements.target.get(redaction.redacts, redaction.room_id) as
+        | { event_type: string; content: string }
+        | undefined;
+      if (target) {
+        const { content } = pruneRedactedContent(target.event_type, JSON.parse(target.content));
+        this.statements.redactMessage.run(
+          JSON.stringify(content),
+          redaction.event_id,
+          redaction.sender,
+          redaction.timestamp,
+          redaction.reason,
+          redaction.redacts
+        );
+        this.statements.redactHistory.run(redaction.redacts, redaction.room_id);
+        applied = true;
+      }
+
+      const edit = this.statements.redactVersion.get(redaction.redacts, redaction.room_id) as
+        | { original_event_id: string }
+        | undefined;
+      if (edit) {
+        this.statements.currentContent.run(edit.original_event_id);
+        applied = true;
+      }
+
+      if (applied) {
+        this.statements.redactionApplied.run(new Date().toISOString(), redaction.event_id);
+      }
+    }
+  }
+
+  private transaction(operation: string, write: () => void): void {
+    this.db.exec('BEGIN');
+    try {
+      write();
+      this.db.exec('COMMIT');
+    } catch (error: any) {
+      this.db.exec('ROLLBACK');
+      throw new Error(`Failed to archive ${operation} in SQLite: ${error.message}`);
+    }
+  }
+
+  private writeParticipant(member: RoomMember): void {
+    this.statements.participant.run(
+      member.userId,
+      member.roomId,
+      member.name,
+      member.getMxcAvatarUrl() ?? '',
+      member.membership ?? 'leave',
+      member.events.member?.getTs() ?? null,
+      new Date().toISOString()
+    );
+  }
+
+  private migrate(): void {
+    const { user_version: version } = this.db.prepare('PRAGMA user_version').get() as {
+      user_version: number;
+    };
+    if (version > SCHEMA_VERSION) {
+      throw new Error(
+        `SQLite archive was written by a newer version (schema ${version}, expected ${SCHEMA_VERSION})`
+      );
+    }
+
+    // a new file gets the current schema, an older one is upgraded step by step first
+    for (let next = version + 1; version > 0 && next <= SCHEMA_VERSION; next++) {
+      const upgrade = UPGRADES[next];
+      if (upgrade) this.db.exec(upgrade);
+    }
+
+    this.db.exec(SCHEMA);
+    this.db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+  }
+}
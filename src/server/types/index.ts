@@ -4,6 +4,421 @@ export interface UserPayload {
     domain: string;
 }
 
+export type AccountStatus = 'running' | 'paused' | 'stopped';
+
+export interface AccountRecord {
+    accountKey: string;
+    username: string;
+    domain: string;
+    userId: string | null;
+    passwordHash: string | null;
+    status: AccountStatus;
+    lastStarted: string | null;
+}
+
+export type BackfillStatus =
+    | 'pending'
+    | 'running'
+    | 'cancelled'
+    | 'reached_cutoff'
+    | 'completed'
+    | 'failed';
+
+export interface BackfillState {
+    roomId: string;
+    paginationToken: string | null;
+    status: BackfillStatus;
+    eventsPersisted: number;
+    oldestEventTs: number | null;
+    cutoffTs: number | null;
+    error: string | null;
+}
+
+export type SyncPhase =
+    | 'stopped'
+    | 'initial_sync'
+    | 'catch_up'
+    | 'backfill'
+    | 'idle'
+    | 'paused'
+    | 'failed';
+
+export interface IngestionCounters {
+    eventsReceived: number;
+    eventsPersisted: number;
+    eventsFailed: number;
+    lastEventAt: string | null;
+}
+
+// the shape the SyncStatus component reads from the sync socket
+export interface SyncProgress {
+    status: 'stopped' | 'syncing' | 'synced' | 'paused' | 'failed';
+    phase: SyncPhase;
+    // 0-100 within the current phase
+    progress: number;
+    currentOperation: string;
+    error?: string;
+    counters: IngestionCounters;
+    updatedAt: string;
+}
+
+export type SyncLifecycleState = 'stopped' | 'starting' | 'running' | 'paused' | 'error' | 'stopping';
+
+export interface SyncTransition {
+    id: number;
+    accountKey: string;
+    fromState: SyncLifecycleState;
+    toState: SyncLifecycleState;
+    // what asked for the transition, e.g. `start`, `pause`, `retry`, `sync_error`
+    reason: string;
+    error: string | null;
+    createdAt: string;
+}
+
+export interface SyncLifecycleStatus {
+    state: SyncLifecycleState;
+    since: string | null;
+    lastError: string | null;
+    // failed retries since the sync last ran
+    retryAttempts: number;
+    nextRetryAt: string | null;
+    // the SDK's own sync state, null while no client is running
+    clientState: string | null;
+    progress: SyncProgress;
+}
+
+export interface UndecryptableEvent {
+    eventId: string;
+    roomId: string;
+    sessionId: string | null;
+}
+
+export interface UndecryptableSession {
+    sessionId: string | null;
+    senderKey: string | null;
+    events: number;
+    attempts: number;
+    firstSeen: string;
+    lastAttempt: string;
+}
+
+export interface UndecryptableRoom {
+    roomId: string;
+    events: number;
+    sessions: UndecryptableSession[];
+}
+
+export type MediaKind = 'file' | 'thumbnail' | 'avatar';
+
+export type MediaStatus = 'pending' | 'downloading' | 'downloaded' | 'skipped' | 'failed' | 'redacted';
+
+export interface MediaEncryption {
+    key: JsonWebKey;
+    iv: string;
+    hashes: Record<string, string>;
+    v: string;
+}
+
+export interface MediaReference {
+    mxcUrl: string;
+    kind: MediaKind;
+    mimetype: string | null;
+    declaredSize: number | null;
+    fileName: string | null;
+    encryption: MediaEncryption | null;
+}
+
+export interface MediaRecord extends MediaReference {
+    id: string;
+    eventId: string;
+    roomId: string;
+    status: MediaStatus;
+    attempts: number;
+    lastError: string | null;
+    sha256: string | null;
+    size: number | null;
+    storagePath: string | null;
+    downloadedAt: string | null;
+}
+
+export interface ContactIdentityInput {
+    userId: string;
+    network: string;
+    displayName: string | null;
+    normalizedName: string | null;
+    phoneNumber: string | null;
+}
+
+export type ContactLinkSource = 'new' | 'phone' | 'name' | 'manual';
+
+export interface ContactIdentity extends ContactIdentityInput {
+    contactId: string;
+    linkSource: ContactLinkSource;
+    locked: boolean;
+}
+
+export interface Contact {
+    id: string;
+    displayName: string | null;
+    identities: ContactIdentity[];
+}
+
+// an event routed through the event router, a room row, or a room's member list
+export type DeadLetterKind = 'event' | 'room' | 'participants';
+
+export type DeadLetterStatus = 'pending' | 'replaying' | 'failed' | 'resolved' | 'discarded';
+
+export interface DeadLetterInput {
+    accountKey: string;
+    kind: DeadLetterKind;
+    targetTable: string;
+    // event ID for events, room ID otherwise
+    sourceId: string;
+    roomId: string | null;
+    payload: Record<string, any>;
+    error: string;
+}
+
+export interface DeadLetter extends DeadLetterInput {
+    id: string;
+    status: DeadLetterStatus;
+    attempts: number;
+    nextAttemptAt: string | null;
+    firstFailedAt: string;
+    lastFailedAt: string;
+    resolvedAt: string | null;
+}
+
+export type SearchSort = 'rank' | 'recent';
+
+export interface MessageSearchQuery {
+    // only the rooms of this account are searched
+    accountKey: string;
+    // web search syntax: "quoted phrases", OR, -excluded
+    query: string;
+    language: string;
+    roomId?: string;
+    sender?: string;
+    network?: string;
+    fromTs?: number;
+    toTs?: number;
+    sort: SearchSort;
+    limit: number;
+    offset: number;
+}
+
+export interface MessageSearchHit {
+    eventId: string;
+    roomId: string;
+    roomName: string | null;
+    network: string | null;
+    sender: string;
+    timestamp: number;
+    eventType: string;
+    content: Record<string, any>;
+    // HTML-escaped body with matches wrapped in <mark>
+    snippet: string;
+    rank: number;
+}
+
+export interface MessageSearchResults {
+    total: number;
+    results: MessageSearchHit[];
+}
+
+export type ExportFormat = 'jsonl' | 'csv' | 'html';
+
+export type ExportStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ExportFilters {
+    // every room matching the other filters when omitted
+    roomIds?: string[];
+    network?: string;
+    fromTs?: number;
+    toTs?: number;
+}
+
+export interface ExportJob {
+    id: string;
+    accountKey: string;
+    format: ExportFormat;
+    filters: ExportFilters;
+    status: ExportStatus;
+    roomsTotal: number;
+    roomsDone: number;
+    messagesTotal: number;
+    messagesExported: number;
+    // 0-100, from the messages written so far
+    progress: number;
+    currentRoomId: string | null;
+    filePath: string | null;
+    fileSize: number | null;
+    error: string | null;
+    createdAt: string;
+    startedAt: string | null;
+    completedAt: string | null;
+}
+
+export interface ExportProgress {
+    roomsTotal?: number;
+    roomsDone?: number;
+    messagesTotal?: number;
+    messagesExported?: number;
+    currentRoomId?: string | null;
+}
+
+export interface ExportRoom {
+    id: string;
+    name: string | null;
+    topic: string | null;
+    network: string | null;
+    isEncrypted: boolean;
+    createdTs: number | null;
+}
+
+export interface ExportParticipant {
+    userId: string;
+    displayName: string | null;
+    membership: string;
+    joinedTs: number | null;
+}
+
+export interface ExportMediaReference {
+    id: string;
+    mxcUrl: string;
+    kind: MediaKind;
+    mimetype: string | null;
+    fileName: string | null;
+    status: MediaStatus;
+    size: number | null;
+    storagePath: string | null;
+}
+
+export interface ExportMessage {
+    eventId: string;
+    roomId: string;
+    sender: string;
+    eventType: string;
+    timestamp: number;
+    // the latest edit when the message was edited
+    content: Record<string, any>;
+    isEncrypted: boolean;
+    threadRootId: string | null;
+    edited: boolean;
+    redacted: boolean;
+    replyTo: {
+        eventId: string;
+        sender: string | null;
+        body: string | null;
+    } | null;
+    media: ExportMediaReference[];
+}
+
+export type ImportSource = 'element' | 'event_dump';
+
+export type ImportStatus = 'running' | 'completed' | 'failed';
+
+export interface ImportProgress {
+    eventsImported: number;
+    // already archived, by live sync or an earlier import
+    eventsDuplicate: number;
+    eventsFailed: number;
+    // the first failures
+    errors: { eventId: string; error: string }[];
+}
+
+export interface ImportRecord extends ImportProgress {
+    id: string;
+    accountKey: string | null;
+    source: ImportSource;
+    fileName: string | null;
+    status: ImportStatus;
+    roomIds: string[];
+    eventsTotal: number;
+    error: string | null;
+    createdAt: string;
+    completedAt: string | null;
+}
+
+export interface WebhookFilters {
+    // every value when omitted
+    eventTypes: string[] | null;
+    roomIds: string[] | null;
+    senders: string[] | null;
+}
+
+export interface Webhook extends WebhookFilters {
+    id: string;
+    accountKey: string;
+    url: string;
+    description: string | null;
+    enabled: boolean;
+    consecutiveFailures: number;
+    disabledReason: string | null;
+    disabledAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+    id: string;
+    webhookId: string;
+    eventId: string;
+    payload: Record<string, any>;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    nextAttemptAt: string | null;
+    responseStatus: number | null;
+    responseBody: string | null;
+    error: string | null;
+    durationMs: number | null;
+    createdAt: string;
+    lastAttemptAt: string | null;
+    deliveredAt: string | null;
+}
+
+export type ChangeEntity = 'message' | 'room' | 'participant';
+
+export type ChangeKind = 'created' | 'updated' | 'edited' | 'redacted';
+
+export interface ArchiveChange {
+    seq: number;
+    entity: ChangeEntity;
+    kind: ChangeKind;
+    roomId: string;
+    // event ID of a message, ID of a room, user ID of a participant
+    entityId: string;
+    // the row as written, in its column names
+    data: Record<string, any>;
+    createdAt: string;
+}
+
+export interface ChangeFilter {
+    // limits the changes to the rooms of this account
+    accountKey?: string;
+    roomIds?: string[];
+    entities?: ChangeEntity[];
+}
+
+export interface ConfigChange {
+    // dotted, such as "media.maxBytes"
+    path: string;
+    from: unknown;
+    to: unknown;
+}
+
+export interface ConfigVersion {
+    version: number;
+    // every setting as of this version, not only the changed ones
+    settings: Record<string, any>;
+    changes: ConfigChange[];
+    changedBy: string;
+    comment: string | null;
+    createdAt: string;
+}
+
 declare global {
     namespace Express {
         interface Request {
@@ -0,0 +1,102 @@
+import type { Room } from 'matrix-js-sdk';
+import {
+  classifyRoomNetwork,
+  isBridgeUser,
+  networkForBridgeBot,
+  networkForGhost,
+  networkForProtocol,
+} from './bridge.utils';
+
+jest.mock('matrix-js-sdk', () => ({ EventTimeline: { FORWARDS: 'f' } }));
+
+const room = (
+  members: Array<{ userId: string; membership?: string }>,
+  stateEvents: Record<string, Array<Record<string, unknown>>> = {}
+) =>
+  ({
+    getLiveTimeline: () => ({
+      getState: () => ({
+        getStateEvents: (type: string) =>
+          (stateEvents[type] ?? []).map((content) => ({ getContent: () => content })),
+      }),
+    }),
+    getMembers: () => members.map((member) => ({ membership: 'join', ...member })),
+  }) as unknown as Room;
+
+describe('network names', () => {
+  it('maps protocol aliases and keeps unknown protocols', () => {
+    expect(networkForProtocol('imessagecloud')).toBe('imessage');
+    expect(networkForProtocol('Messenger')).toBe('facebook');
+    expect(networkForProtocol('matrix-irc')).toBe('matrix-irc');
+  });
+
+  it('recognizes bridge bots and ghosts by localpart', () => {
+    expect(networkForBridgeBot('@whatsappbot:beeper.local')).toBe('whatsapp');
+    expect(networkForBridgeBot('@whatsapp_123:beeper.local')).toBeNull();
+    expect(networkForGhost('@discordgo_42:beeper.local')).toBe('discord');
+    expect(networkForGhost('@alice:example.org')).toBeNull();
+
+    expect(isBridgeUser('@signalbot:beeper.local')).toBe(true);
+    expect(isBridgeUser('@telegram_99:beeper.local')).toBe(true);
+    expect(isBridgeUser('@alice:example.org')).toBe(false);
+  });
+});
+
+describe('classifyRoomNetwork', () => {
+  it('trusts bridge state first', () => {
+    const bridged = room([{ userId: '@whatsappbot:beeper.local' }], {
+      'uk.half-shot.bridge': [
+        {
+          protocol: { id: 'telegram' },
+          bridgebot: '@telegrambot:beeper.local',
+          channel: { id: '-100123' },
+        },
+      ],
+    });
+
+    expect(classifyRoomNetwork(bridged)).toEqual({
+      network: 'telegram',
+      bridgeBot: '@telegrambot:beeper.local',
+      remoteRoomId: '-100123',
+      detectedBy: 'state',
+    });
+  });
+
+  it('falls back to the bridge bot, ignoring members who left', () => {
+    const bridged = room([
+      { userId: '@signalbot:beeper.local', membership: 'leave' },
+      { userId: '@alice:example.org' },
+      { userId: '@whatsappbot:beeper.local' },
+    ]);
+
+    expect(classifyRoomNetwork(bridged)).toEqual({
+      network: 'whatsapp',
+      bridgeBot: '@whatsappbot:beeper.local',
+      remoteRoomId: null,
+      detectedBy: 'bot',
+    });
+  });
+
+  it('picks the network with the most ghosts', () => {
+    const bridged = room([
+      { userId: '@alice:example.org' },
+      { userId: '@signal_1:beeper.local' },
+      { userId: '@telegram_1:beeper.local' },
+      { userId: '@telegram_2:beeper.local' },
+    ]);
+
+    expect(classifyRoomNetwork(bridged)).toMatchObject({
+      network: 'telegram',
+      detectedBy: 'ghost',
+    });
+  });
+
+  it('classifies a room without bridge traces as native', () => {
+    expect(classifyRoomNetwork(room([{ userId: '@alice:example.org' }]))).toEqual({
+      network: 'matrix',
+      bridgeBot: null,
+      remoteRoomId: null,
+      detectedBy: 'none',
+    });
+  });
+});
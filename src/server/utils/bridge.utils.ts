@@ -0,0 +1,132 @@
+import { EventTimeline, MatrixEvent, Room } from 'matrix-js-sdk';
+
+export const BRIDGE_STATE_EVENT_TYPES = ['m.bridge', 'uk.half-shot.bridge'];
+
+export type BridgeDetectionSource = 'state' | 'bot' | 'ghost' | 'none';
+
+export interface RoomNetwork {
+  network: string;
+  bridgeBot: string | null;
+  remoteRoomId: string | null;
+  detectedBy: BridgeDetectionSource;
+}
+
+interface NetworkDefinition {
+  network: string;
+  // protocol IDs as sent in m.bridge state events
+  protocols: string[];
+  // localparts used by the bridge bot and its puppets, e.g. @whatsappbot and @whatsapp_123
+  prefixes: string[];
+}
+
+const NETWORKS: NetworkDefinition[] = [
+  { network: 'whatsapp', protocols: ['whatsapp'], prefixes: ['whatsapp'] },
+  { network: 'telegram', protocols: ['telegram'], prefixes: ['telegram'] },
+  { network: 'signal', protocols: ['signal'], prefixes: ['signal'] },
+  {
+    network: 'imessage',
+    protocols: ['imessage', 'imessagecloud'],
+    prefixes: ['imessage', 'imessagego'],
+  },
+  { network: 'discord', protocols: ['discord', 'discordgo'], prefixes: ['discord', 'discordgo'] },
+  { network: 'slack', protocols: ['slack', 'slackgo'], prefixes: ['slack', 'slackgo'] },
+  {
+    network: 'facebook',
+    protocols: ['facebook', 'messenger', 'meta'],
+    prefixes: ['facebook', 'meta'],
+  },
+  { network: 'instagram', protocols: ['instagram'], prefixes: ['instagram'] },
+  { network: 'twitter', protocols: ['twitter'], prefixes: ['twitter'] },
+  { network: 'linkedin', protocols: ['linkedin'], prefixes: ['linkedin'] },
+  {
+    network: 'googlechat',
+    protocols: ['googlechat', 'hangouts'],
+    prefixes: ['googlechat', 'hangouts'],
+  },
+  { network: 'gmessages', protocols: ['gmessages'], prefixes: ['gmessages'] },
+  { network: 'androidsms', protocols: ['androidsms'], prefixes: ['androidsms'] },
+];
+
+export const NATIVE_NETWORK = 'matrix';
+
+function localpart(userId: string): string {
+  return userId.replace(/^@/, '').split(':')[0] ?? '';
+}
+
+export function networkForProtocol(protocol: string): string {
+  const normalized = protocol.toLowerCase();
+  return NETWORKS.find((entry) => entry.protocols.includes(normalized))?.network ?? normalized;
+}
+
+export function networkForBridgeBot(userId: string): string | null {
+  const name = localpart(userId);
+  return (
+    NETWORKS.find((entry) => entry.prefixes.some((prefix) => name === `${prefix}bot`))?.network ??
+    null
+  );
+}
+
+export function networkForGhost(userId: string): string | null {
+  const name = localpart(userId);
+  return (
+    NETWORKS.find((entry) => entry.prefixes.some((prefix) => name.startsWith(`${prefix}_`)))
+      ?.network ?? null
+  );
+}
+
+export function isBridgeUser(userId: string): boolean {
+  return networkForBridgeBot(userId) !== null || networkForGhost(userId) !== null;
+}
+
+function fromBridgeState(events: MatrixEvent[]): RoomNetwork | null {
+  for (const event of events) {
+    const content = event.getContent();
+    const protocol = content.protocol?.id;
+    if (typeof protocol !== 'string') continue;
+
+    return {
+      network: networkForProtocol(protocol),
+      bridgeBot: typeof content.bridgebot === 'string' ? content.bridgebot : null,
+      remoteRoomId: typeof content.channel?.id === 'string' ? content.channel.id : null,
+      detectedBy: 'state',
+    };
+  }
+  return null;
+}
+
+/**
+ * Classifies a room by the network it is bridged to. Bridge state events are
+ * trusted first, then the bridge bot's membership, then puppet (ghost) users.
+ */
+export function classifyRoomNetwork(room: Room): RoomNetwork {
+  const state = room.getLiveTimeline().getState(EventTimeline.FORWARDS);
+
+  for (const type of BRIDGE_STATE_EVENT_TYPES) {
+    const detected = fromBridgeState(state?.getStateEvents(type) ?? []);
+    if (detected) return detected;
+  }
+
+  const members = room.getMembers().filter((member) => member.membership !== 'leave');
+
+  for (const member of members) {
+    const network = networkForBridgeBot(member.userId);
+    if (network) {
+      return { network, bridgeBot: member.userId, remoteRoomId: null, detectedBy: 'bot' };
+    }
+  }
+
+  const ghostCounts = new Map<string, number>();
+  for (const member of members) {
+    const network = networkForGhost(member.userId);
+    if (network) {
+      ghostCounts.set(network, (ghostCounts.get(network) ?? 0) + 1);
+    }
+  }
+
+  const [ghostNetwork] = [...ghostCounts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+  if (ghostNetwork) {
+    return { network: ghostNetwork, bridgeBot: null, remoteRoomId: null, detectedBy: 'ghost' };
+  }
+
+  return { network: NATIVE_NETWORK, bridgeBot: null, remoteRoomId: null, detectedBy: 'none' };
+}
@@ -0,0 +1,72 @@
+import { buildContactIdentity, normalizeDisplayName, normalizePhoneNumber } from './contacts.utils';
+
+jest.mock('matrix-js-sdk', () => ({}));
+
+describe('normalizePhoneNumber', () => {
+  it('keeps the digits of a plausible number', () => {
+    expect(normalizePhoneNumber('+1 (555) 123-4567')).toBe('15551234567');
+  });
+
+  it('rejects numbers that are too short or too long', () => {
+    expect(normalizePhoneNumber('12345')).toBeNull();
+    expect(normalizePhoneNumber('1234567890123456')).toBeNull();
+  });
+});
+
+describe('normalizeDisplayName', () => {
+  it('drops the network suffix, case and extra spaces', () => {
+    expect(normalizeDisplayName('  Alice   Smith (WhatsApp) ')).toBe('alice smith');
+  });
+
+  it('ignores names that only repeat a number or user ID', () => {
+    expect(normalizeDisplayName('+1 555 123 4567')).toBeNull();
+    expect(normalizeDisplayName('@alice:example.org')).toBeNull();
+    expect(normalizeDisplayName('')).toBeNull();
+    expect(normalizeDisplayName(null)).toBeNull();
+  });
+});
+
+describe('buildContactIdentity', () => {
+  it('skips bridge bots', () => {
+    expect(
+      buildContactIdentity('@whatsappbot:beeper.local', 'WhatsApp bridge bot', null)
+    ).toBeNull();
+  });
+
+  it('reads the phone number of a puppet from its localpart', () => {
+    expect(
+      buildContactIdentity('@whatsapp_15551234567:beeper.local', 'Alice (WhatsApp)', null)
+    ).toEqual({
+      userId: '@whatsapp_15551234567:beeper.local',
+      network: 'whatsapp',
+      displayName: 'Alice (WhatsApp)',
+      normalizedName: 'alice',
+      phoneNumber: '15551234567',
+    });
+  });
+
+  it('prefers the phone number in the bridge metadata', () => {
+    const identity = buildContactIdentity('@signal_abc:beeper.local', 'Alice', {
+      'com.beeper.bridge.identifiers': ['signal:abc', 'tel:+44 20 7946 0958'],
+    });
+
+    expect(identity).toMatchObject({ network: 'signal', phoneNumber: '442079460958' });
+  });
+
+  it('does not read numbers from localparts of networks without phone IDs', () => {
+    expect(buildContactIdentity('@telegram_123456789:beeper.local', 'Bob', null)).toMatchObject({
+      network: 'telegram',
+      phoneNumber: null,
+    });
+  });
+
+  it('treats other users as native Matrix contacts', () => {
+    expect(buildContactIdentity('@carol:example.org', 'Carol', null)).toEqual({
+      userId: '@carol:example.org',
+      network: 'matrix',
+      displayName: 'Carol',
+      normalizedName: 'carol',
+      phoneNumber: null,
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { ContactIdentityInput } from '@/server/types';
+import { NATIVE_NETWORK, networkForBridgeBot, networkForGhost } from './bridge.utils';
+
+// networks whose puppet localparts are phone numbers, e.g. @whatsapp_15551234567
+const PHONE_LOCALPART_NETWORKS = ['whatsapp', 'imessage', 'gmessages', 'androidsms'];
+
+// Beeper bridges list remote identifiers such as "tel:+15551234567" in member events
+const BRIDGE_IDENTIFIERS_KEY = 'com.beeper.bridge.identifiers';
+
+export function normalizePhoneNumber(value: string): string | null {
+  const digits = value.replace(/[^\d]/g, '');
+  return digits.length >= 7 && digits.length <= 15 ? digits : null;
+}
+
+export function normalizeDisplayName(value: string | null | undefined): string | null {
+  if (!value) return null;
+
+  const normalized = value
+    .normalize('NFKC')
+    // bridges often suffix puppets with the network, e.g. "Alice (WhatsApp)"
+    .replace(/\s*\([^)]*\)\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+  // a bare phone number or user ID says nothing about who the person is
+  if (!normalized || /^[+\d\s().-]+$/.test(normalized) || normalized.startsWith('@')) {
+    return null;
+  }
+
+  return normalized;
+}
+
+function phoneFromLocalpart(userId: string, network: string): string | null {
+  if (!PHONE_LOCALPART_NETWORKS.includes(network)) return null;
+
+  const localpart = userId.replace(/^@/, '').split(':')[0] ?? '';
+  const remoteId = localpart.slice(localpart.indexOf('_') + 1);
+  return /^\+?\d+$/.test(remoteId) ? normalizePhoneNumber(remoteId) : null;
+}
+
+function phoneFromBridgeMetadata(memberContent: Record<string, any> | null): string | null {
+  const identifiers = memberContent?.[BRIDGE_IDENTIFIERS_KEY];
+  if (!Array.isArray(identifiers)) return null;
+
+  for (const identifier of identifiers) {
+    if (typeof identifier === 'string' && identifier.startsWith('tel:')) {
+      const phone = normalizePhoneNumber(identifier.slice(4));
+      if (phone) return phone;
+    }
+  }
+  return null;
+}
+
+// returns null for bridge bots, which are never contacts
+export function buildContactIdentity(
+  userId: string,
+  displayName: string | null,
+  memberContent: Record<string, any> | null
+): ContactIdentityInput | null {
+  if (networkForBridgeBot(userId)) return null;
+
+  const network = networkForGhost(userId) ?? NATIVE_NETWORK;
+
+  return {
+    userId,
+    network,
+    displayName,
+    normalizedName: normalizeDisplayName(displayName),
+    phoneNumber: phoneFromBridgeMetadata(memberContent) ?? phoneFromLocalpart(userId, network),
+  };
+}
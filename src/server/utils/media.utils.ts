@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import { mkdir, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { MediaEncryption, MediaKind, MediaReference } from '@/server/types';
+
+export const MEDIA_STORE_PATH = process.env.MEDIA_STORE_PATH || './media-store';
+
+function toReference(
+  kind: MediaKind,
+  url: unknown,
+  file: any,
+  info: any,
+  fileName?: unknown
+): MediaReference | null {
+  const mxcUrl = typeof file?.url === 'string' ? file.url : url;
+  if (typeof mxcUrl !== 'string' || !mxcUrl.startsWith('mxc://')) return null;
+
+  return {
+    mxcUrl,
+    kind,
+    mimetype: typeof info?.mimetype === 'string' ? info.mimetype : null,
+    declaredSize: typeof info?.size === 'number' ? info.size : null,
+    fileName: typeof fileName === 'string' ? fileName : null,
+    encryption: file?.url
+      ? { key: file.key, iv: file.iv, hashes: file.hashes ?? {}, v: file.v ?? 'v2' }
+      : null,
+  };
+}
+
+// mxc:// references in attachments, their thumbnails and room/member avatars
+export function extractMediaReferences(
+  eventType: string,
+  content: Record<string, any> | null
+): MediaReference[] {
+  if (!content) return [];
+
+  const references: (MediaReference | null)[] = [];
+
+  if (eventType === 'm.room.member') {
+    references.push(toReference('avatar', content.avatar_url, null, null));
+  } else if (eventType === 'm.room.avatar') {
+    references.push(toReference('avatar', content.url, null, content.info));
+  } else {
+    references.push(
+      toReference('file', content.url, content.file, content.info, content.filename ?? content.body)
+    );
+    references.push(
+      toReference(
+        'thumbnail',
+        content.info?.thumbnail_url,
+        content.info?.thumbnail_file,
+        content.info?.thumbnail_info
+      )
+    );
+  }
+
+  return references.filter((reference): reference is MediaReference => reference !== null);
+}
+
+function decodeBase64(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64'));
+}
+
+/**
+ * Decrypts an attachment encrypted as described by an EncryptedFile:
+ * the SHA-256 of the ciphertext is checked before AES-CTR decryption.
+ */
+export async function decryptAttachment(
+  data: Uint8Array,
+  encryption: MediaEncryption
+): Promise<Uint8Array> {
+  const expectedHash = encryption.hashes.sha256;
+  if (!expectedHash) {
+    throw new Error('Encrypted attachment has no SHA-256 hash');
+  }
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  if (Buffer.from(digest).compare(Buffer.from(decodeBase64(expectedHash))) !== 0) {
+    throw new Error('Encrypted attachment hash mismatch');
+  }
+
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    { ...encryption.key, key_ops: ['encrypt', 'decrypt'] },
+    { name: 'AES-CTR' },
+    false,
+    ['decrypt']
+  );
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-CTR', counter: decodeBase64(encryption.iv), length: 64 },
+    key,
+    data
+  );
+
+  return new Uint8Array(plaintext);
+}
+
+export function resolveMediaPath(sha256: string): string {
+  return path.join(MEDIA_STORE_PATH, sha256.slice(0, 2), sha256);
+}
+
+// content-addressed: identical files are stored once, keyed by the SHA-256 of the plaintext
+export async function storeMediaFile(
+  data: Uint8Array
+): Promise<{ sha256: string; storagePath: string }> {
+  const sha256 = createHash('sha256').update(data).digest('hex');
+  const storagePath = resolveMediaPath(sha256);
+
+  const exists = await stat(storagePath).then(
+    () => true,
+    () => false
+  );
+
+  if (!exists) {
+    await mkdir(path.dirname(storagePath), { recursive: true });
+    const tempPath = `${storagePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, data);
+    await rename(tempPath, storagePath);
+  }
+
+  return { sha256, storagePath };
+}
+
+export async function removeMediaFile(storagePath: string): Promise<void> {
+  await rm(storagePath, { force: true });
+}
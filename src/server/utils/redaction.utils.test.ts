@@ -0,0 +1,45 @@
+import { pruneRedactedContent } from './redaction.utils';
+
+describe('pruneRedactedContent', () => {
+  it('removes the whole content of a message', () => {
+    const result = pruneRedactedContent('m.room.message', {
+      msgtype: 'm.text',
+      body: 'secret',
+      'm.relates_to': { rel_type: 'm.thread', event_id: '$root' },
+    });
+
+    expect(result.content).toEqual({});
+    expect(result.removedKeys).toEqual(['msgtype', 'body', 'm.relates_to']);
+  });
+
+  it('keeps the keys the redaction algorithm preserves', () => {
+    const result = pruneRedactedContent('m.room.member', {
+      membership: 'join',
+      displayname: 'Alice',
+      avatar_url: 'mxc://example.org/avatar',
+    });
+
+    expect(result.content).toEqual({ membership: 'join' });
+    expect(result.removedKeys).toEqual(['displayname', 'avatar_url']);
+  });
+
+  it('keeps only the signed part of a third party invite', () => {
+    const signed = { mxid: '@alice:example.org', token: 'abc', signatures: {} };
+    const result = pruneRedactedContent('m.room.member', {
+      membership: 'invite',
+      third_party_invite: { display_name: 'alice@example.org', signed },
+    });
+
+    expect(result.content).toEqual({ membership: 'invite', third_party_invite: { signed } });
+    expect(result.removedKeys).toEqual([]);
+  });
+
+  it('keeps the whole content of m.room.create', () => {
+    const content = { room_version: '11', 'm.federate': false };
+    expect(pruneRedactedContent('m.room.create', content)).toEqual({ content, removedKeys: [] });
+  });
+
+  it('treats missing content as empty', () => {
+    expect(pruneRedactedContent('m.room.message', null)).toEqual({ content: {}, removedKeys: [] });
+  });
+});
@@ -0,0 +1,53 @@
+// content keys that survive redaction, following the redaction algorithm of room version 11
+const PRESERVED_CONTENT_KEYS: Record<string, string[]> = {
+  'm.room.member': ['membership', 'join_authorised_via_users_server'],
+  'm.room.join_rules': ['join_rule', 'allow'],
+  'm.room.power_levels': [
+    'ban',
+    'events',
+    'events_default',
+    'invite',
+    'kick',
+    'redact',
+    'state_default',
+    'users',
+    'users_default',
+  ],
+  'm.room.history_visibility': ['history_visibility'],
+  'm.room.redaction': ['redacts'],
+};
+
+export interface PrunedContent {
+  content: Record<string, any>;
+  removedKeys: string[];
+}
+
+export function pruneRedactedContent(
+  eventType: string,
+  content: Record<string, any> | null
+): PrunedContent {
+  const original = content ?? {};
+
+  // m.room.create keeps its whole content since room version 11
+  if (eventType === 'm.room.create') {
+    return { content: original, removedKeys: [] };
+  }
+
+  const preserved = PRESERVED_CONTENT_KEYS[eventType] ?? [];
+  const pruned: Record<string, any> = {};
+
+  for (const key of preserved) {
+    if (key in original) {
+      pruned[key] = original[key];
+    }
+  }
+
+  if (eventType === 'm.room.member' && original.third_party_invite?.signed) {
+    pruned.third_party_invite = { signed: original.third_party_invite.signed };
+  }
+
+  return {
+    content: pruned,
+    removedKeys: Object.keys(original).filter((key) => !(key in pruned)),
+  };
+}
@@ -0,0 +1,157 @@
+import { createHmac } from 'crypto';
+import { configStore } from '@/server/config/store';
+import { onShutdown } from '@/server/db/client';
+import {
+  claimWebhookDeliveries,
+  markWebhookDelivered,
+  markWebhookDeliveryFailed,
+  pruneWebhookDeliveries,
+  resetInterruptedWebhookDeliveries,
+} from '@/server/db/webhooks';
+import { WebhookDelivery } from '@/server/types';
+import { assertWebhookTarget } from './targets';
+
+export interface WebhookDispatcherOptions {
+  pollIntervalMs?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  // consecutive failed deliveries, across events, after which a webhook is disabled
+  disableAfter?: number;
+  timeoutMs?: number;
+}
+
+// stored with each attempt, enough to see why an endpoint rejected it
+const MAX_RESPONSE_BODY = 1_000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Receivers verify a delivery by computing the HMAC-SHA256 of
+ * `${X-Webhook-Timestamp}.${body}` with the webhook's secret and comparing it
+ * to X-Webhook-Signature; the timestamp lets them reject replayed requests.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Posts queued webhook deliveries. A delivery that fails is retried with
+ * exponential backoff until it runs out of attempts, and an endpoint that
+ * keeps failing is disabled until it is enabled again through the API.
+ */
+export class WebhookDispatcher {
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private maxAttempts: number;
+  private disableAfter: number;
+  private timeoutMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private active: Promise<void> | null = null;
+  private lastPruned = 0;
+
+  constructor(opts: WebhookDispatcherOptions = {}) {
+    this.pollIntervalMs = opts.pollIntervalMs ?? 1_000;
+    this.batchSize = opts.batchSize ?? 20;
+    this.maxAttempts = opts.maxAttempts ?? 8;
+    this.disableAfter = opts.disableAfter ?? 20;
+    this.timeoutMs = opts.timeoutMs ?? 10_000;
+  }
+
+  public async start(): Promise<void> {
+    if (this.timer) return;
+
+    await resetInterruptedWebhookDeliveries();
+    this.timer = setInterval(() => this.tick(), this.pollIntervalMs);
+  }
+
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.active;
+  }
+
+  private tick(): void {
+    if (this.active) return;
+
+    this.active = this.processBatch()
+      .catch((error) => console.error('Webhook dispatcher failed:', error))
+      .finally(() => {
+        this.active = null;
+      });
+  }
+
+  private async processBatch(): Promise<void> {
+    if (Date.now() - this.lastPruned > PRUNE_INTERVAL_MS) {
+      this.lastPruned = Date.now();
+      await pruneWebhookDeliveries(configStore.get().retention.webhookDeliveryDays);
+    }
+
+    // endpoints are independent, so one slow receiver only holds up its own batch slot
+    const batch = await claimWebhookDeliveries(this.batchSize);
+    await Promise.all(batch.map((delivery) => this.deliver(delivery)));
+  }
+
+  private async deliver(delivery: WebhookDelivery & { url: string; secret: string }) {
+    const body = JSON.stringify({
+      id: delivery.id,
+      webhookId: delivery.webhookId,
+      attempt: delivery.attempts,
+      createdAt: delivery.createdAt,
+      ...delivery.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const started = Date.now();
+
+    let status: number | null = null;
+    let responseBody: string | null = null;
+    try {
+      await assertWebhookTarget(delivery.url);
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'matrix-etl-webhooks',
+          'X-Webhook-Id': delivery.webhookId,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signWebhookPayload(delivery.secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      status = response.status;
+      responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY);
+
+      if (!response.ok) {
+        throw new Error(`Endpoint responded with HTTP ${response.status}`);
+      }
+
+      await markWebhookDelivered(delivery, {
+        status: response.status,
+        body: responseBody,
+        durationMs: Date.now() - started,
+      });
+    } catch (error: any) {
+      const disabled = await markWebhookDeliveryFailed(
+        delivery,
+        { status, body: responseBody, error: error.message, durationMs: Date.now() - started },
+        { maxAttempts: this.maxAttempts, disableAfter: this.disableAfter }
+      );
+
+      console.error(`Webhook delivery ${delivery.id} to ${delivery.url} failed: ${error.message}`);
+      if (disabled) {
+        console.error(`Disabled webhook ${delivery.webhookId} after repeated failures`);
+      }
+    }
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher({
+  maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || undefined,
+  disableAfter: Number(process.env.WEBHOOK_DISABLE_AFTER) || undefined,
+  timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS) || undefined,
+});
+
+onShutdown(() => webhookDispatcher.stop());
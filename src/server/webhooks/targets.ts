@@ -0,0 +1,69 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+export class WebhookTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookTargetError';
+  }
+}
+
+// loopback, private, link-local, shared and unspecified addresses; IPv4-mapped IPv6 addresses match the IPv4 rules
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+// hosts an operator trusts, such as a receiver on the same machine
+function allowedHosts(): string[] {
+  return (process.env.WEBHOOK_ALLOWED_HOSTS ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// the host as URL normalizes it, without the brackets of an IPv6 address
+function hostOf(url: string): string {
+  return new URL(url).hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+}
+
+// why the URL may not be used as a webhook, judged by its host alone; null if it may
+export function webhookHostError(url: string): string | null {
+  const host = hostOf(url);
+  if (allowedHosts().includes(host)) return null;
+
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+    return `${host} is a loopback, link-local or private address`;
+  }
+  return null;
+}
+
+// checked before every delivery, a name can resolve to another address than when it was saved
+export async function assertWebhookTarget(url: string): Promise<void> {
+  const hostError = webhookHostError(url);
+  if (hostError) throw new WebhookTargetError(hostError);
+
+  const host = hostOf(url);
+  if (isIP(host) || allowedHosts().includes(host)) return;
+
+  const addresses = await lookup(host, { all: true });
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    throw new WebhookTargetError(
+      `${host} resolves to ${blocked.address}, a loopback, link-local or private address`
+    );
+  }
+}